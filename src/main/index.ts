@@ -2,24 +2,84 @@ import { app, shell, BrowserWindow, ipcMain, protocol, net } from 'electron'
 import { join } from 'path'
 import { pathToFileURL } from 'url'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
-import { openFileDialog, importFile, deleteBook as deleteBookFiles } from './services/fileService'
+import {
+  openFileDialog,
+  openFolderDialog,
+  deleteBook as deleteBookFiles,
+  saveRegionImage
+} from './services/fileService'
+import { importBooks, cancelImport, resolveDuplicate, hashExistingBooks } from './services/importService'
 import {
   initDatabase,
   closeDatabase,
+  getDatabaseStatus,
   getBooks,
   getBook,
-  insertBook,
   updateBookProgress,
+  updateBookLanguageOverrides,
   deleteBookFromDb,
   getChatSessions,
   getChatSession,
   createChatSession,
+  createBookChatSession,
+  createRegionChatSession,
+  updateChatSessionConfig,
   getChatMessages,
   addChatMessage,
+  getPendingChatMessages,
+  setChatMessagePending,
+  getHighlights,
+  createHighlight,
+  updateHighlight,
+  deleteHighlight,
+  getBookmarks,
+  createBookmark,
+  updateBookmarkLabel,
+  deleteBookmark,
+  getPromptActions,
+  createPromptAction,
+  updatePromptAction,
+  deletePromptAction,
+  reorderPromptActions,
+  getEpubLocations,
+  saveEpubLocations,
   getSettings,
-  saveSettings
+  saveSettings,
+  getCachedModels,
+  saveCachedModels,
+  getApiKeyForBaseUrl,
+  setApiKey,
+  getChapterSummaries,
+  deleteChapterSummary,
+  getUsageReport
 } from './services/database'
-import { callGeminiAPI } from './services/geminiService'
+import { getSecretStorageStatus } from './services/secrets'
+import { getBookIndexStatus, indexBook, cancelBookIndex } from './services/bookIndex'
+import { summarizeChapter, exportChapterSummaries } from './services/chapterSummary'
+import { testConnection, getErrorCategory } from './services/llm'
+import { streamLLM, getDefaultSessionConfig } from './services/chatService'
+import type {
+  TextAnchor,
+  HighlightColor,
+  BookLocation,
+  BookProgress,
+  DuplicateResolution,
+  PromptActionInput,
+  LanguageSettings,
+  ChatSessionConfig,
+  SessionContext,
+  Citation,
+  QuoteCheck,
+  LlmProviderId,
+  ProviderConfig,
+  ChapterRange,
+  MessageUsage,
+  UsageQuery,
+  RegionCapture
+} from '@shared/types'
+
+// In-flight streaming requests, by request id
+const activeStreams = new Map<string, AbortController>()
 
 function createWindow(): void {
   const mainWindow = new BrowserWindow({
@@ -64,6 +124,9 @@ app.whenReady().then(() => {
 
   // Initialize database
   initDatabase()
+
+  // Books from before duplicate detection need a hash before imports can compare against them
+  hashExistingBooks()
   
   electronApp.setAppUserModelId('com.flow.reader')
 
@@ -79,17 +142,34 @@ app.whenReady().then(() => {
     return await openFileDialog()
   })
 
-  ipcMain.handle('import-file', async (_, filePath: string) => {
+  ipcMain.handle('open-folder-dialog', async () => {
+    return await openFolderDialog()
+  })
+
+  // Batch import; per-file progress is pushed on 'import-progress'
+  ipcMain.handle('import-files', async (event, importId: string, paths: string[]) => {
+    return await importBooks(importId, paths, (progress) => {
+      if (!event.sender.isDestroyed()) {
+        event.sender.send('import-progress', progress)
+      }
+    })
+  })
+
+  ipcMain.handle('cancel-import', (_, importId: string) => {
+    return cancelImport(importId)
+  })
+
+  ipcMain.handle('resolve-duplicate', async (
+    _,
+    filePath: string,
+    bookId: string,
+    resolution: DuplicateResolution
+  ) => {
     try {
-      const book = await importFile(filePath)
-      // Save to database
-      insertBook({
-        ...book,
-        lastPage: 1
-      })
-      return { success: true, book }
+      const book = await resolveDuplicate(filePath, bookId, resolution)
+      return book ? { success: true, book } : { success: false, error: 'Book not found' }
     } catch (error) {
-      console.error('Import error:', error)
+      console.error('Duplicate resolution error:', error)
       return { success: false, error: String(error) }
     }
   })
@@ -113,13 +193,49 @@ app.whenReady().then(() => {
     return false
   })
 
-  ipcMain.handle('update-book-progress', (_, id: string, page: number) => {
-    return updateBookProgress(id, page)
+  ipcMain.handle('update-book-progress', (_, id: string, progress: BookProgress) => {
+    return updateBookProgress(id, progress)
+  })
+
+  ipcMain.handle('update-book-language-overrides', (_, id: string, overrides: Partial<LanguageSettings>) => {
+    return updateBookLanguageOverrides(id, overrides)
   })
 
   // Chat session operations
-  ipcMain.handle('create-chat-session', (_, bookId: string, baseContext: string) => {
-    return createChatSession(bookId, baseContext)
+  ipcMain.handle('create-chat-session', (
+    _,
+    bookId: string,
+    baseContext: string,
+    anchor?: TextAnchor,
+    context?: SessionContext
+  ) => {
+    return createChatSession(bookId, baseContext, anchor, getDefaultSessionConfig(), context)
+  })
+
+  ipcMain.handle('create-book-chat-session', (_, bookId: string) => {
+    return createBookChatSession(bookId, getDefaultSessionConfig())
+  })
+
+  ipcMain.handle('create-region-chat-session', async (
+    _,
+    bookId: string,
+    capture: RegionCapture,
+    context?: SessionContext
+  ) => {
+    const book = getBook(bookId)
+    if (!book) return null
+
+    const imagePath = await saveRegionImage(book.filePath, capture.png)
+    return createRegionChatSession(
+      bookId,
+      { path: imagePath, pageNumber: capture.pageNumber, region: capture.region },
+      getDefaultSessionConfig(),
+      context
+    )
+  })
+
+  ipcMain.handle('update-chat-session-config', (_, id: string, config: ChatSessionConfig) => {
+    return updateChatSessionConfig(id, config)
   })
 
   ipcMain.handle('get-chat-sessions', (_, bookId: string) => {
@@ -130,8 +246,101 @@ app.whenReady().then(() => {
     return getChatMessages(sessionId)
   })
 
-  ipcMain.handle('add-chat-message', (_, sessionId: string, role: 'user' | 'assistant', message: string) => {
-    return addChatMessage(sessionId, role, message)
+  ipcMain.handle('add-chat-message', (
+    _,
+    sessionId: string,
+    role: 'user' | 'assistant',
+    message: string,
+    citations?: Citation[],
+    usage?: MessageUsage,
+    quotes?: QuoteCheck[]
+  ) => {
+    return addChatMessage(sessionId, role, message, citations, usage, quotes)
+  })
+
+  ipcMain.handle('get-pending-chat-messages', (_, bookId: string) => {
+    return getPendingChatMessages(bookId)
+  })
+
+  ipcMain.handle('set-chat-message-pending', (_, messageId: string, pending: boolean) => {
+    return setChatMessagePending(messageId, pending)
+  })
+
+  // Highlight operations
+  ipcMain.handle('get-highlights', (_, bookId: string) => {
+    return getHighlights(bookId)
+  })
+
+  ipcMain.handle('create-highlight', (
+    _,
+    bookId: string,
+    highlight: { color: HighlightColor; anchor: TextAnchor; text: string; note?: string }
+  ) => {
+    return createHighlight(bookId, highlight)
+  })
+
+  ipcMain.handle('update-highlight', (_, id: string, changes: { color?: HighlightColor; note?: string }) => {
+    return updateHighlight(id, changes)
+  })
+
+  ipcMain.handle('delete-highlight', (_, id: string) => {
+    return deleteHighlight(id)
+  })
+
+  // Bookmark operations
+  ipcMain.handle('get-bookmarks', (_, bookId: string) => {
+    return getBookmarks(bookId)
+  })
+
+  ipcMain.handle('create-bookmark', (
+    _,
+    bookId: string,
+    bookmark: { location: BookLocation; label?: string; chapter?: string }
+  ) => {
+    return createBookmark(bookId, bookmark)
+  })
+
+  ipcMain.handle('update-bookmark', (_, id: string, label: string) => {
+    return updateBookmarkLabel(id, label)
+  })
+
+  ipcMain.handle('delete-bookmark', (_, id: string) => {
+    return deleteBookmark(id)
+  })
+
+  // Prompt actions
+  ipcMain.handle('get-prompt-actions', () => {
+    return getPromptActions()
+  })
+
+  ipcMain.handle('create-prompt-action', (_, action: PromptActionInput) => {
+    return createPromptAction(action)
+  })
+
+  ipcMain.handle('update-prompt-action', (_, id: string, action: PromptActionInput) => {
+    return updatePromptAction(id, action)
+  })
+
+  ipcMain.handle('delete-prompt-action', (_, id: string) => {
+    return deletePromptAction(id)
+  })
+
+  ipcMain.handle('reorder-prompt-actions', (_, ids: string[]) => {
+    return reorderPromptActions(ids)
+  })
+
+  // EPUB location cache
+  ipcMain.handle('get-epub-locations', (_, bookId: string) => {
+    return getEpubLocations(bookId)
+  })
+
+  ipcMain.handle('save-epub-locations', (_, bookId: string, locations: string) => {
+    return saveEpubLocations(bookId, locations)
+  })
+
+  // Database status (migration failures are reported here)
+  ipcMain.handle('get-database-status', () => {
+    return getDatabaseStatus()
   })
 
   // Settings operations
@@ -143,45 +352,174 @@ app.whenReady().then(() => {
     return saveSettings(settings)
   })
 
-  // Gemini API
-  ipcMain.handle('call-gemini', async (_, sessionId: string, userMessage: string) => {
+  // LLM providers
+  // Tests use the key typed in the form if there is one, otherwise the stored key
+  ipcMain.handle('test-provider-connection', async (_, providerId: LlmProviderId, config: ProviderConfig) => {
+    try {
+      const apiKey = config.apiKey?.trim() || getApiKeyForBaseUrl(providerId, config.baseUrl)
+      if (!apiKey && getSettings().providers[providerId].hasApiKey) {
+        throw new Error('저장된 API 키는 저장된 서버 주소로만 전송됩니다. 이 주소로 연결하려면 API 키를 입력해주세요.')
+      }
+      const models = await testConnection(providerId, { ...config, apiKey })
+      saveCachedModels(providerId, config.baseUrl, models)
+      return { success: true, models }
+    } catch (error) {
+      console.error('Connection test failed:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  })
+
+  ipcMain.handle('get-cached-models', (_, providerId: LlmProviderId, baseUrl: string) => {
+    return getCachedModels(providerId, baseUrl)
+  })
+
+  // Write-only: the renderer only ever sees `hasApiKey` in settings
+  ipcMain.handle('set-api-key', (_, providerId: LlmProviderId, apiKey: string | null) => {
+    return setApiKey(providerId, apiKey)
+  })
+
+  ipcMain.handle('get-secret-storage-status', () => {
+    return getSecretStorageStatus()
+  })
+
+  // Book search index; progress is pushed on 'book-index-progress'
+  ipcMain.handle('get-book-index-status', (_, bookId: string) => {
+    return getBookIndexStatus(bookId)
+  })
+
+  ipcMain.handle('index-book', async (event, bookId: string) => {
+    return await indexBook(bookId, (status) => {
+      if (!event.sender.isDestroyed()) {
+        event.sender.send('book-index-progress', status)
+      }
+    })
+  })
+
+  ipcMain.handle('cancel-book-index', (_, bookId: string) => {
+    return cancelBookIndex(bookId)
+  })
+
+  // Chapter summaries; map-reduce progress is pushed on 'chapter-summary-progress'
+  ipcMain.handle('get-chapter-summaries', (_, bookId: string) => {
+    return getChapterSummaries(bookId)
+  })
+
+  ipcMain.handle(
+    'summarize-chapter',
+    async (event, bookId: string, tocItemId: string, label: string, range: ChapterRange, refresh?: boolean) => {
+      try {
+        const summary = await summarizeChapter(bookId, { tocItemId, label, range }, {
+          refresh,
+          onProgress: (progress) => {
+            if (!event.sender.isDestroyed()) {
+              event.sender.send('chapter-summary-progress', progress)
+            }
+          }
+        })
+        return { success: true, summary }
+      } catch (error) {
+        console.error('Chapter summary error:', error)
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : '챕터를 요약하지 못했습니다.'
+        }
+      }
+    }
+  )
+
+  ipcMain.handle('delete-chapter-summary', (_, bookId: string, tocItemId: string) => {
+    return deleteChapterSummary(bookId, tocItemId)
+  })
+
+  ipcMain.handle('export-chapter-summaries', async (_, bookId: string, tocItemIds: string[]) => {
+    try {
+      const filePath = await exportChapterSummaries(bookId, tocItemIds)
+      return { success: true, filePath: filePath ?? undefined }
+    } catch (error) {
+      console.error('Chapter summary export error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : '요약을 내보내지 못했습니다.'
+      }
+    }
+  })
+
+  // LLM chat (provider chosen in settings). Chunks are pushed on 'llm-stream-chunk' tagged with the request id
+  // `messageId` is the saved question being answered; it and other questions still waiting to be sent
+  // are left out of the history
+  ipcMain.handle('stream-llm', async (
+    event,
+    requestId: string,
+    sessionId: string,
+    userMessage: string,
+    messageId?: string
+  ) => {
+    const controller = new AbortController()
+    activeStreams.set(requestId, controller)
+
     try {
-      // Get session and its base context
       const session = getChatSession(sessionId)
       if (!session) {
         throw new Error('세션을 찾을 수 없습니다.')
       }
 
-      // Validate baseContext
-      if (!session.baseContext || session.baseContext.trim().length === 0) {
+      if (session.type === 'passage' && (!session.baseContext || session.baseContext.trim().length === 0)) {
         console.error('baseContext is empty for session:', sessionId)
         throw new Error('선택된 텍스트가 없습니다. 텍스트를 선택한 후 다시 시도해주세요.')
       }
 
-      // Get chat history
-      const messages = getChatMessages(sessionId)
-      const chatHistory = messages.map(m => ({
-        role: m.role,
-        message: m.message
-      }))
-
-      console.log('Calling Gemini API with baseContext length:', session.baseContext.length)
-      console.log('User message:', userMessage)
-      console.log('Chat history length:', chatHistory.length)
-
-      // Call Gemini API
-      const response = await callGeminiAPI(session.baseContext, userMessage, chatHistory)
-      
-      return { success: true, response }
+      const chatHistory = getChatMessages(sessionId)
+        .filter(m => !m.pending && m.id !== messageId)
+        .map(m => ({
+          role: m.role,
+          message: m.message
+        }))
+
+      const result = await streamLLM(session, userMessage, chatHistory, {
+        signal: controller.signal,
+        onChunk: (text) => {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send('llm-stream-chunk', { requestId, text })
+          }
+        }
+      })
+
+      return {
+        success: true,
+        response: result.text,
+        citations: result.citations,
+        quotes: result.quotes,
+        summary: result.summary,
+        usage: result.usage,
+        aborted: result.aborted
+      }
     } catch (error) {
-      console.error('Gemini API error:', error)
+      console.error('LLM error:', error)
       return { 
         success: false, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorCategory: getErrorCategory(error)
       }
+    } finally {
+      activeStreams.delete(requestId)
     }
   })
 
+  // Usage
+  ipcMain.handle('get-usage-report', (_, query: UsageQuery) => {
+    return getUsageReport(query)
+  })
+
+  ipcMain.handle('cancel-llm-stream', (_, requestId: string) => {
+    const controller = activeStreams.get(requestId)
+    if (!controller) return false
+    controller.abort()
+    return true
+  })
+
   createWindow()
 
   app.on('activate', function () {
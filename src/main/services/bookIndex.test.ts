@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { BookChunk } from './database'
+import type { BookPassage } from './bookText'
+import { indexBook, searchBook } from './bookIndex'
+
+// The index is kept in memory; passages stand in for the extracted book text
+const store = vi.hoisted(() => ({
+  passages: [] as BookPassage[],
+  chunks: [] as BookChunk[],
+  indexedAt: undefined as string | undefined
+}))
+
+vi.mock('electron', () => ({ net: { isOnline: () => true } }))
+
+vi.mock('./bookText', () => ({
+  extractBookPassages: async () => store.passages
+}))
+
+vi.mock('./database', () => ({
+  getBook: (id: string) => ({ id, title: 'Test', filePath: '/books/test.pdf', fileType: 'pdf' }),
+  getSettings: () => ({ embedding: { provider: 'local', model: 'local' } }),
+  getProviderConfig: () => ({ baseUrl: '', model: '' }),
+  getBookIndex: (bookId: string) => store.indexedAt
+    ? { bookId, embeddingProvider: 'local', embeddingModel: 'local', chunkCount: store.chunks.length, indexedAt: store.indexedAt }
+    : null,
+  getBookChunks: () => store.chunks,
+  replaceBookIndex: (_bookId: string, _embedding: unknown, chunks: BookChunk[]) => {
+    store.chunks = chunks
+    store.indexedAt = new Date().toISOString()
+    return true
+  }
+}))
+
+const page = (pageNumber: number, text: string, chapter?: string): BookPassage => ({
+  text,
+  location: { type: 'pdf', pageNumber },
+  section: pageNumber,
+  chapter
+})
+
+beforeEach(() => {
+  store.passages = []
+  store.chunks = []
+  store.indexedAt = undefined
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('indexBook', () => {
+  it('merges passages of a section into chunks that keep the first location', async () => {
+    store.passages = [
+      page(1, 'The lighthouse keeper lit the lamp.', 'Chapter 1'),
+      { ...page(1, 'Ships passed safely all night.', 'Chapter 1'), location: { type: 'pdf', pageNumber: 1 } },
+      page(2, 'In the morning the storm arrived.', 'Chapter 2')
+    ]
+
+    const status = await indexBook('book-1', () => {})
+
+    expect(status).toMatchObject({ state: 'ready', chunkCount: 2 })
+    expect(store.chunks.map(({ text, location, chapter }) => ({ text, location, chapter }))).toEqual([
+      {
+        text: 'The lighthouse keeper lit the lamp.\nShips passed safely all night.',
+        location: { type: 'pdf', pageNumber: 1 },
+        chapter: 'Chapter 1'
+      },
+      { text: 'In the morning the storm arrived.', location: { type: 'pdf', pageNumber: 2 }, chapter: 'Chapter 2' }
+    ])
+    expect(store.chunks[0].embedding).toBeInstanceOf(Float32Array)
+  })
+
+  it('splits a long passage at sentence ends', async () => {
+    const sentence = 'This sentence is repeated to make a page far longer than one chunk.'
+    store.passages = [page(1, Array(40).fill(sentence).join(' '))]
+
+    await indexBook('book-1', () => {})
+
+    expect(store.chunks.length).toBeGreaterThan(1)
+    for (const chunk of store.chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(1000)
+      expect(chunk.text.endsWith('chunk.')).toBe(true)
+    }
+  })
+
+  it('reports progress and fails on a book without text', async () => {
+    const progress = vi.fn()
+    const status = await indexBook('book-1', progress)
+
+    expect(status.state).toBe('failed')
+    expect(status.error).toContain('텍스트를 찾지 못했습니다')
+    expect(progress).toHaveBeenLastCalledWith(status)
+    expect(store.indexedAt).toBeUndefined()
+  })
+})
+
+describe('searchBook', () => {
+  beforeEach(async () => {
+    store.passages = [
+      page(1, 'The lighthouse keeper climbed the tower and lit the lamp every evening.'),
+      page(2, 'Fishermen mended their nets on the harbour wall.'),
+      page(3, '등대지기는 매일 저녁 등불을 밝혔다.'),
+      page(4, '어부들은 항구 방파제에서 그물을 손질했다.')
+    ]
+    await indexBook('book-1', () => {})
+  })
+
+  it('ranks the chunks sharing the query words first', async () => {
+    const [first] = await searchBook('book-1', 'Who lit the lamp in the lighthouse?', 1)
+    expect(first.location).toEqual({ type: 'pdf', pageNumber: 1 })
+
+    const [net] = await searchBook('book-1', 'nets fishermen', 1)
+    expect(net.location).toEqual({ type: 'pdf', pageNumber: 2 })
+  })
+
+  it('matches Korean text by character pairs', async () => {
+    const results = await searchBook('book-1', '그물 손질', 2)
+    expect(results[0].location).toEqual({ type: 'pdf', pageNumber: 4 })
+  })
+
+  it('asks for an index when there is none', async () => {
+    store.indexedAt = undefined
+    await expect(searchBook('book-1', 'lamp', 1)).rejects.toThrow('색인')
+  })
+})
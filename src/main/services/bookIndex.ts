@@ -0,0 +1,202 @@
+import { getBook, getSettings, getProviderConfig, getBookIndex, getBookChunks, replaceBookIndex } from './database'
+import type { BookChunk } from './database'
+import { extractBookPassages } from './bookText'
+import type { BookPassage } from './bookText'
+import { createProvider, embedLocally } from './llm'
+import { describeRequestError, isLlmError } from './llm/http'
+import type { BookIndexStatus, EmbeddingSettings } from '@shared/types'
+
+// Target chunk size; passages are merged up to it and longer ones split at sentence ends
+const CHUNK_CHARS = 1000
+const EMBEDDING_BATCH_SIZE = 32
+
+interface IndexingJob {
+  controller: AbortController
+  processed: number
+  total: number
+}
+
+// Running indexing jobs and the last failure, by book id
+const activeJobs = new Map<string, IndexingJob>()
+const lastErrors = new Map<string, string>()
+
+// Chunks of the most recently searched book, so follow-up questions don't reload them
+let chunkCache: { bookId: string; indexedAt: string; chunks: BookChunk[] } | null = null
+
+const splitLongText = (text: string): string[] => {
+  if (text.length <= CHUNK_CHARS) return [text]
+
+  const parts: string[] = []
+  let current = ''
+  for (const sentence of text.split(/(?<=[.!?。！？])\s+/)) {
+    if (current && current.length + sentence.length + 1 > CHUNK_CHARS) {
+      parts.push(current)
+      current = ''
+    }
+    current = current ? `${current} ${sentence}` : sentence
+    // A sentence that alone exceeds the limit is cut at the limit
+    while (current.length > CHUNK_CHARS * 1.5) {
+      parts.push(current.slice(0, CHUNK_CHARS))
+      current = current.slice(CHUNK_CHARS)
+    }
+  }
+  if (current) parts.push(current)
+  return parts
+}
+
+// Merge consecutive passages of the same section; each chunk keeps the location of its first passage
+const chunkPassages = (passages: BookPassage[]): Omit<BookChunk, 'embedding'>[] => {
+  const chunks: (Omit<BookChunk, 'embedding'> & { section: number })[] = []
+
+  for (const passage of passages) {
+    for (const text of splitLongText(passage.text)) {
+      const last = chunks[chunks.length - 1]
+      if (last && last.section === passage.section && last.text.length + text.length < CHUNK_CHARS) {
+        last.text += `\n${text}`
+      } else {
+        chunks.push({ text, location: passage.location, chapter: passage.chapter, section: passage.section })
+      }
+    }
+  }
+
+  return chunks.map(({ section: _section, ...chunk }) => chunk)
+}
+
+const embedTexts = async (settings: EmbeddingSettings, texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+  if (settings.provider === 'local') {
+    return embedLocally(texts)
+  }
+
+  const config = { ...getProviderConfig(settings.provider), model: settings.model }
+  try {
+    const vectors = await createProvider(settings.provider, config).embed(texts, signal)
+    if (vectors.length !== texts.length) {
+      throw new Error('임베딩 결과의 개수가 요청과 다릅니다. 임베딩 모델을 확인해주세요.')
+    }
+    return vectors
+  } catch (error) {
+    // Categorized errors pass through so an offline question can still be queued
+    if (signal?.aborted || isLlmError(error)) throw error
+    throw new Error(describeRequestError(error, config.baseUrl))
+  }
+}
+
+const cosineSimilarity = (a: number[], b: Float32Array): number => {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+export const getBookIndexStatus = (bookId: string): BookIndexStatus => {
+  const job = activeJobs.get(bookId)
+  if (job) {
+    return { bookId, state: 'indexing', processed: job.processed, total: job.total }
+  }
+
+  // A failed run keeps the previous index, if any, usable
+  const index = getBookIndex(bookId)
+  const error = lastErrors.get(bookId)
+  if (error) return { ...index, bookId, state: 'failed', error }
+  return index ? { ...index, state: 'ready' } : { bookId, state: 'none' }
+}
+
+// Extract, chunk and embed a book with the current embedding settings. Progress is reported
+// after each batch; resolves with the final status once the index is saved, failed or cancelled.
+export const indexBook = async (
+  bookId: string,
+  onProgress: (status: BookIndexStatus) => void
+): Promise<BookIndexStatus> => {
+  if (activeJobs.has(bookId)) return getBookIndexStatus(bookId)
+
+  const job: IndexingJob = { controller: new AbortController(), processed: 0, total: 0 }
+  activeJobs.set(bookId, job)
+  lastErrors.delete(bookId)
+  const report = () => onProgress(getBookIndexStatus(bookId))
+
+  try {
+    const book = getBook(bookId)
+    if (!book) {
+      throw new Error('책을 찾을 수 없습니다.')
+    }
+
+    const { embedding } = getSettings()
+    report()
+
+    const chunks = chunkPassages(await extractBookPassages(book))
+    if (chunks.length === 0) {
+      throw new Error('책에서 텍스트를 찾지 못했습니다. 스캔한 이미지로만 된 PDF는 색인할 수 없습니다.')
+    }
+    job.total = chunks.length
+    report()
+
+    const indexed: BookChunk[] = []
+    for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+      job.controller.signal.throwIfAborted()
+
+      const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE)
+      const vectors = await embedTexts(embedding, batch.map(chunk => chunk.text), job.controller.signal)
+      batch.forEach((chunk, i) => indexed.push({ ...chunk, embedding: new Float32Array(vectors[i]) }))
+      job.processed = indexed.length
+      report()
+    }
+
+    if (!replaceBookIndex(bookId, embedding, indexed)) {
+      throw new Error('색인을 저장하지 못했습니다.')
+    }
+  } catch (error) {
+    if (!job.controller.signal.aborted) {
+      console.error('Book indexing failed:', error)
+      lastErrors.set(bookId, error instanceof Error ? error.message : String(error))
+    }
+  } finally {
+    activeJobs.delete(bookId)
+  }
+
+  const status = getBookIndexStatus(bookId)
+  onProgress(status)
+  return status
+}
+
+// Stops after the batch in flight; the previous index stays in place
+export const cancelBookIndex = (bookId: string): boolean => {
+  const job = activeJobs.get(bookId)
+  if (!job) return false
+  job.controller.abort()
+  return true
+}
+
+// Chunks most similar to the query. The query is embedded with the model the index was built
+// with, so changing the embedding settings only takes effect after re-indexing.
+export const searchBook = async (
+  bookId: string,
+  query: string,
+  limit: number,
+  signal?: AbortSignal
+): Promise<BookChunk[]> => {
+  const index = getBookIndex(bookId)
+  if (!index?.embeddingProvider || !index.embeddingModel || !index.indexedAt) {
+    throw new Error('이 책의 색인이 아직 없습니다. 채팅 패널에서 색인을 만든 뒤 다시 질문해주세요.')
+  }
+
+  const [queryVector] = await embedTexts(
+    { provider: index.embeddingProvider, model: index.embeddingModel },
+    [query],
+    signal
+  )
+
+  if (chunkCache?.bookId !== bookId || chunkCache.indexedAt !== index.indexedAt) {
+    chunkCache = { bookId, indexedAt: index.indexedAt, chunks: getBookChunks(bookId) }
+  }
+
+  return chunkCache.chunks
+    .map(chunk => ({ chunk, score: cosineSimilarity(queryVector, chunk.embedding) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ chunk }) => chunk)
+}
@@ -0,0 +1,195 @@
+import { promises as fs } from 'fs'
+import JSZip from 'jszip'
+import type { Element as XmlElement, Node as XmlNode } from '@xmldom/xmldom'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { openPdfDocument } from './fileService'
+import { parseXml, getElements, resolveHref, findOpfPath } from './epubMetadata'
+import type { Book, BookLocation, ChapterRange } from '@shared/types'
+
+// A run of book text with the place it can be found again
+export interface BookPassage {
+  text: string
+  location: BookLocation
+  section: number  // PDF 페이지 또는 EPUB spine 순서; 조각은 섹션을 넘지 않음
+  chapter?: string
+}
+
+// Elements read as paragraphs in EPUB content documents
+const BLOCK_NAMES = new Set(['p', 'li', 'blockquote', 'pre', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'dt', 'dd', 'figcaption', 'td', 'th'])
+const HEADING_NAMES = ['h1', 'h2', 'h3']
+
+const normalizeText = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim()
+
+// Outline entries resolved to page numbers, in page order
+const getPdfOutlinePages = async (pdf: PDFDocumentProxy): Promise<{ title: string; pageNumber: number }[]> => {
+  const entries: { title: string; pageNumber: number }[] = []
+
+  const visit = async (items: Awaited<ReturnType<PDFDocumentProxy['getOutline']>>) => {
+    for (const item of items ?? []) {
+      try {
+        const dest = typeof item.dest === 'string' ? await pdf.getDestination(item.dest) : item.dest
+        if (Array.isArray(dest) && dest[0]) {
+          entries.push({ title: item.title, pageNumber: await pdf.getPageIndex(dest[0]) + 1 })
+        }
+      } catch {
+        // Broken destinations only lose their chapter label
+      }
+      await visit(item.items)
+    }
+  }
+
+  await visit(await pdf.getOutline())
+  return entries.sort((a, b) => a.pageNumber - b.pageNumber)
+}
+
+// One passage per page; chapters come from the outline
+const extractPdfPassages = async (
+  filePath: string,
+  range?: Extract<ChapterRange, { type: 'pdf' }>
+): Promise<BookPassage[]> => {
+  const pdf = await openPdfDocument(filePath)
+
+  try {
+    const outline = await getPdfOutlinePages(pdf)
+    const passages: BookPassage[] = []
+    const firstPage = Math.max(range?.startPage ?? 1, 1)
+    // A chapter whose successor starts on the same page still gets that page
+    const lastPage = Math.min(range?.endPage ? Math.max(range.endPage - 1, firstPage) : pdf.numPages, pdf.numPages)
+
+    for (let pageNumber = firstPage; pageNumber <= lastPage; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const content = await page.getTextContent()
+      const text = content.items
+        .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+        .join('')
+      page.cleanup()
+
+      if (!text.trim()) continue
+      passages.push({
+        text: text.trim(),
+        location: { type: 'pdf', pageNumber },
+        section: pageNumber,
+        chapter: outline.filter(entry => entry.pageNumber <= pageNumber).pop()?.title
+      })
+    }
+
+    return passages
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+const getElementChildren = (node: XmlNode): XmlElement[] => {
+  return Array.from(node.childNodes).filter((child): child is XmlElement => child.nodeType === 1)
+}
+
+// EPUB CFI step for an element: even numbers count element children, starting at 2
+const getCfiStep = (element: XmlElement): string => {
+  const index = element.parentNode ? getElementChildren(element.parentNode).indexOf(element) : 0
+  const id = element.getAttribute('id')
+  return `/${(index + 1) * 2}${id ? `[${id}]` : ''}`
+}
+
+// Path from the document element down to an element, e.g. '/4/2[intro]/6'
+const getCfiPath = (element: XmlElement): string => {
+  const steps: string[] = []
+  let current: XmlElement | null = element
+  while (current && current.parentNode && current.parentNode.nodeType === 1) {
+    steps.unshift(getCfiStep(current))
+    current = current.parentNode as XmlElement
+  }
+  return steps.join('')
+}
+
+const decodeHref = (href: string): string => {
+  try {
+    return decodeURIComponent(href)
+  } catch {
+    return href
+  }
+}
+
+// Spine position of the document a TOC href points into. TOC hrefs are relative to the
+// navigation document and manifest hrefs to the package, so paths are matched by suffix.
+const findSpineIndex = (spineHrefs: (string | undefined)[], tocHref: string): number => {
+  const target = decodeHref(tocHref.split('#')[0]).replace(/^(\.\.?\/)+/, '')
+  return spineHrefs.findIndex(href => {
+    if (!href) return false
+    const path = decodeHref(href)
+    return path === target || path.endsWith(`/${target}`) || target.endsWith(`/${path}`)
+  })
+}
+
+// One passage per paragraph, located by an element CFI the reader can display
+const extractEpubPassages = async (
+  filePath: string,
+  range?: Extract<ChapterRange, { type: 'epub' }>
+): Promise<BookPassage[]> => {
+  const zip = await JSZip.loadAsync(await fs.readFile(filePath))
+  const opfPath = await findOpfPath(zip)
+  const opf = opfPath && await zip.file(opfPath)?.async('string')
+  if (!opfPath || !opf) return []
+
+  const doc = parseXml(opf)
+  const spine = getElements(doc, 'spine')[0]
+  if (!spine) return []
+
+  const manifest = new Map(getElements(doc, 'item').map(item => [item.getAttribute('id'), item.getAttribute('href')]))
+  const spineStep = getCfiStep(spine).replace(/\[.*\]$/, '')
+  const itemrefs = getElementChildren(spine)
+  const spineHrefs = itemrefs.map(itemref => manifest.get(itemref.getAttribute('idref')) ?? undefined)
+  const passages: BookPassage[] = []
+
+  let first = 0
+  let last = itemrefs.length
+  if (range) {
+    first = findSpineIndex(spineHrefs, range.startHref)
+    if (first < 0) return []
+    const end = range.endHref ? findSpineIndex(spineHrefs, range.endHref) : last
+    last = end > first ? end : first + 1
+  }
+
+  for (const [index, itemref] of itemrefs.entries()) {
+    if (index < first || index >= last) continue
+
+    const idref = itemref.getAttribute('idref')
+    const href = spineHrefs[index]
+    const content = href && await zip.file(resolveHref(opfPath, href))?.async('string')
+    if (!content) continue
+
+    const body = getElements(parseXml(content, 'application/xhtml+xml'), 'body')[0]
+    if (!body) continue
+
+    // Innermost blocks only, so a list item and the paragraphs inside it aren't read twice
+    const blocks = getElements(body, '*').filter(element =>
+      BLOCK_NAMES.has(element.localName ?? '') &&
+      !getElements(element, '*').some(child => BLOCK_NAMES.has(child.localName ?? ''))
+    )
+    const heading = getElements(body, '*').find(element => HEADING_NAMES.includes(element.localName ?? ''))
+    const chapter = normalizeText(heading?.textContent) || undefined
+    const base = `${spineStep}/${(index + 1) * 2}[${idref}]`
+
+    for (const block of blocks) {
+      const text = normalizeText(block.textContent)
+      if (!text) continue
+      passages.push({
+        text,
+        location: { type: 'epub', cfi: `epubcfi(${base}!${getCfiPath(block)})` },
+        section: index,
+        chapter
+      })
+    }
+  }
+
+  return passages
+}
+
+// Text of a book in reading order, optionally limited to one chapter
+export const extractBookPassages = (
+  book: Pick<Book, 'filePath' | 'fileType'>,
+  range?: ChapterRange
+): Promise<BookPassage[]> => {
+  return book.fileType === 'pdf'
+    ? extractPdfPassages(book.filePath, range?.type === 'pdf' ? range : undefined)
+    : extractEpubPassages(book.filePath, range?.type === 'epub' ? range : undefined)
+}
@@ -0,0 +1,226 @@
+import { dialog } from 'electron'
+import { promises as fs } from 'fs'
+import { getBook, getChapterSummary, getChapterSummaries, saveChapterSummary } from './database'
+import { extractBookPassages } from './bookText'
+import { getAnswerLanguage, getDefaultSessionConfig, getSessionProvider } from './chatService'
+import { estimateTokens } from './chatContext'
+import type { ChapterRange, ChapterSummary, ChapterSummaryProgress, TokenUsage } from '@shared/types'
+
+// Text per request; longer chapters are summarized in parts and the parts merged (map-reduce)
+const SUMMARY_INPUT_CHARS = 12000
+
+interface ChapterTarget {
+  tocItemId: string
+  label: string
+  range: ChapterRange
+}
+
+// Requests in flight by book and TOC entry, so a double click doesn't summarize twice
+const pendingSummaries = new Map<string, Promise<ChapterSummary>>()
+
+// Pack paragraphs into pieces of at most SUMMARY_INPUT_CHARS, cutting paragraphs that alone exceed it
+const splitForSummary = (paragraphs: string[]): string[] => {
+  const pieces: string[] = []
+  let current = ''
+
+  for (const paragraph of paragraphs) {
+    for (let start = 0; start < paragraph.length; start += SUMMARY_INPUT_CHARS) {
+      const part = paragraph.slice(start, start + SUMMARY_INPUT_CHARS)
+      if (current && current.length + part.length + 2 > SUMMARY_INPUT_CHARS) {
+        pieces.push(current)
+        current = ''
+      }
+      current = current ? `${current}\n\n${part}` : part
+    }
+  }
+  if (current) pieces.push(current)
+  return pieces
+}
+
+// Consecutive summaries grouped so each group fits one merge request
+const groupForMerge = (summaries: string[]): string[][] => {
+  const groups: string[][] = []
+  let length = 0
+
+  for (const summary of summaries) {
+    const last = groups[groups.length - 1]
+    if (last && length + summary.length <= SUMMARY_INPUT_CHARS) {
+      last.push(summary)
+      length += summary.length
+    } else {
+      groups.push([summary])
+      length = summary.length
+    }
+  }
+  return groups
+}
+
+const buildChapterPrompt = (bookTitle: string, label: string, text: string, answerLanguage: string): string => {
+  return `[본문]
+${text}
+
+위 본문은 "${bookTitle}"의 "${label}" 챕터입니다. 챕터의 흐름과 핵심 내용을 빠짐없이 요약해주세요. 주요 개념, 주장, 사건은 목록으로 정리하고, 요약은 ${answerLanguage}로 작성해주세요.`
+}
+
+const buildPartPrompt = (
+  bookTitle: string,
+  label: string,
+  text: string,
+  part: number,
+  parts: number,
+  answerLanguage: string
+): string => {
+  return `[본문 ${part}/${parts}]
+${text}
+
+위 본문은 "${bookTitle}"의 "${label}" 챕터를 ${parts}부분으로 나눈 것 중 ${part}번째입니다. 나중에 다른 부분의 요약과 합칠 수 있도록 이 부분의 내용을 순서대로 빠짐없이 요약해주세요. 요약은 ${answerLanguage}로 작성해주세요.`
+}
+
+const buildMergePrompt = (
+  bookTitle: string,
+  label: string,
+  summaries: string[],
+  final: boolean,
+  answerLanguage: string
+): string => {
+  const instruction = final
+    ? '하나의 챕터 요약으로 합쳐주세요. 챕터의 흐름과 핵심 내용을 빠짐없이 담고, 주요 개념, 주장, 사건은 목록으로 정리해주세요.'
+    : '순서를 유지하며 하나의 요약으로 합쳐주세요. 이후 다른 요약과 다시 합쳐지므로 세부 내용을 너무 줄이지 마세요.'
+
+  return `${summaries.map((summary, i) => `[부분 요약 ${i + 1}]\n${summary}`).join('\n\n')}
+
+위는 "${bookTitle}"의 "${label}" 챕터를 나눠 순서대로 요약한 것입니다. ${instruction} 요약은 ${answerLanguage}로 작성해주세요.`
+}
+
+const summarizeChapterText = async (
+  bookId: string,
+  target: ChapterTarget,
+  onProgress: (progress: ChapterSummaryProgress) => void
+): Promise<ChapterSummary> => {
+  const book = getBook(bookId)
+  if (!book) {
+    throw new Error('책을 찾을 수 없습니다.')
+  }
+
+  const passages = await extractBookPassages(book, target.range)
+  const pieces = splitForSummary(passages.map(passage => passage.text))
+  if (pieces.length === 0) {
+    throw new Error('이 챕터에서 텍스트를 찾지 못했습니다. 스캔한 이미지로만 된 PDF는 요약할 수 없습니다.')
+  }
+
+  const config = getDefaultSessionConfig()
+  const provider = getSessionProvider(config)
+  const answerLanguage = getAnswerLanguage(bookId)
+
+  const progress = { bookId, tocItemId: target.tocItemId, processed: 0, total: pieces.length > 1 ? pieces.length + 1 : 1 }
+  onProgress({ ...progress })
+
+  // Summed over every part and merge request
+  const usage: TokenUsage = { promptTokens: 0, responseTokens: 0 }
+
+  const ask = async (prompt: string): Promise<string> => {
+    const response = await provider.generate({
+      messages: [{ role: 'user', content: prompt }],
+      generation: config.generation
+    })
+    const text = response.text
+    if (!text) {
+      throw new Error('요약을 생성할 수 없습니다.')
+    }
+    usage.promptTokens += response.usage?.promptTokens ?? estimateTokens(prompt)
+    usage.responseTokens += response.usage?.responseTokens ?? estimateTokens(text)
+    progress.processed++
+    onProgress({ ...progress })
+    return text.trim()
+  }
+
+  // Merge part summaries, in rounds when they don't fit one request together
+  const merge = async (summaries: string[]): Promise<string> => {
+    const groups = groupForMerge(summaries)
+    if (groups.length === 1 || groups.length === summaries.length) {
+      return ask(buildMergePrompt(book.title, target.label, summaries, true, answerLanguage))
+    }
+
+    progress.total += groups.filter(group => group.length > 1).length
+    const merged: string[] = []
+    for (const group of groups) {
+      merged.push(group.length > 1
+        ? await ask(buildMergePrompt(book.title, target.label, group, false, answerLanguage))
+        : group[0])
+    }
+    return merge(merged)
+  }
+
+  let summary: string
+  if (pieces.length === 1) {
+    summary = await ask(buildChapterPrompt(book.title, target.label, pieces[0], answerLanguage))
+  } else {
+    const partSummaries: string[] = []
+    for (const [i, piece] of pieces.entries()) {
+      partSummaries.push(await ask(buildPartPrompt(book.title, target.label, piece, i + 1, pieces.length, answerLanguage)))
+    }
+    summary = await merge(partSummaries)
+  }
+
+  const chapterSummary: ChapterSummary = {
+    bookId,
+    tocItemId: target.tocItemId,
+    label: target.label,
+    summary,
+    provider: config.provider,
+    model: config.model,
+    usage,
+    createdAt: new Date().toISOString()
+  }
+  saveChapterSummary(chapterSummary)
+  return chapterSummary
+}
+
+// Summary of a TOC entry, from the cache unless `refresh` is set
+export const summarizeChapter = (
+  bookId: string,
+  target: ChapterTarget,
+  options: { refresh?: boolean; onProgress: (progress: ChapterSummaryProgress) => void }
+): Promise<ChapterSummary> => {
+  const key = `${bookId}:${target.tocItemId}`
+  const pending = pendingSummaries.get(key)
+  if (pending) return pending
+
+  const cached = !options.refresh && getChapterSummary(bookId, target.tocItemId)
+  if (cached) return Promise.resolve(cached)
+
+  const request = summarizeChapterText(bookId, target, options.onProgress)
+    .finally(() => pendingSummaries.delete(key))
+  pendingSummaries.set(key, request)
+  return request
+}
+
+// Save the book's summaries as a Markdown file, in the given TOC order.
+// Resolves with the saved path, or null when the dialog was cancelled.
+export const exportChapterSummaries = async (bookId: string, tocItemIds: string[]): Promise<string | null> => {
+  const book = getBook(bookId)
+  if (!book) {
+    throw new Error('책을 찾을 수 없습니다.')
+  }
+
+  const summaries = getChapterSummaries(bookId)
+  const ordered = tocItemIds
+    .map(id => summaries.find(summary => summary.tocItemId === id))
+    .filter((summary): summary is ChapterSummary => !!summary)
+  if (ordered.length === 0) {
+    throw new Error('내보낼 요약이 없습니다.')
+  }
+
+  const result = await dialog.showSaveDialog({
+    defaultPath: `${book.title.replace(/[\\/:*?"<>|]/g, '_')} - 챕터 요약.md`,
+    filters: [{ name: 'Markdown', extensions: ['md'] }]
+  })
+  if (result.canceled || !result.filePath) {
+    return null
+  }
+
+  const header = [`# ${book.title}`, book.author].filter(Boolean).join('\n\n')
+  const sections = ordered.map(summary => `## ${summary.label}\n\n${summary.summary}`)
+  await fs.writeFile(result.filePath, `${[header, ...sections].join('\n\n')}\n`, 'utf-8')
+  return result.filePath
+}
@@ -0,0 +1,102 @@
+import { getSettings, updateChatSessionSummary } from './database'
+import type { LlmMessage, LlmProvider } from './llm'
+import type { ChatSession, ChatSessionConfig, SessionSummary, TokenUsage } from '@shared/types'
+
+export type ChatHistory = { role: 'user' | 'assistant'; message: string }[]
+
+// Role markers and separators the provider adds around each message
+const MESSAGE_OVERHEAD_TOKENS = 4
+// Providers tile images differently; this is about what a captured figure costs on each
+const IMAGE_TOKENS = 800
+
+const CJK_CHARS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu
+
+// Rough token count without the model's tokenizer: CJK characters are about one token each,
+// other text about four characters per token
+export const estimateTokens = (text: string): number => {
+  const cjk = text.match(CJK_CHARS)?.length ?? 0
+  return Math.ceil(cjk + (text.length - cjk) / 4)
+}
+
+export const estimateMessageTokens = (messages: LlmMessage[]): number => {
+  return messages.reduce((total, message) =>
+    total + estimateTokens(message.content) + (message.images?.length ?? 0) * IMAGE_TOKENS + MESSAGE_OVERHEAD_TOKENS, 0)
+}
+
+export const getContextBudget = (model: string): number => {
+  const { contextBudget } = getSettings()
+  return contextBudget.modelBudgets.find(entry => entry.model === model)?.budget ?? contextBudget.defaultBudget
+}
+
+// Index where the last `count` exchanges start, i.e. the count-th user message from the end
+const findRecentStart = (history: ChatHistory, count: number): number => {
+  if (count <= 0) return history.length
+  let seen = 0
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].role === 'user' && ++seen === count) return i
+  }
+  return 0
+}
+
+const buildSummaryPrompt = (previous: string | undefined, turns: ChatHistory, answerLanguage: string): string => {
+  const transcript = turns
+    .map(turn => `${turn.role === 'user' ? '사용자' : 'AI'}: ${turn.message}`)
+    .join('\n\n')
+
+  return `${previous ? `[이전 요약]\n${previous}\n\n` : ''}[대화]
+${transcript}
+
+위 대화를 이어지는 대화에서 참고할 수 있도록 간결하게 요약해주세요.${previous ? ' "이전 요약"의 내용도 포함해 하나의 요약으로 갱신해주세요.' : ''} 사용자가 물은 것, 답변의 핵심, 정리된 결론과 남은 질문을 빠짐없이 담고, 요약은 ${answerLanguage}로 작성해주세요.`
+}
+
+// Messages for the next request within the model's context budget. When the full conversation
+// doesn't fit, turns before the last few exchanges are folded into the session's rolling summary,
+// which is saved so later requests start from it. `build` must always include the base context.
+// `usage` is what the summary request cost, when one was made.
+export const fitHistory = async (
+  session: ChatSession,
+  history: ChatHistory,
+  build: (recent: ChatHistory, summary?: string) => LlmMessage[],
+  options: { provider: LlmProvider; config: ChatSessionConfig; answerLanguage: string; signal?: AbortSignal }
+): Promise<{ messages: LlmMessage[]; summary?: SessionSummary; compacted: boolean; usage?: TokenUsage }> => {
+  const previous = session.summary
+  // The summary covers a prefix of the history; everything after it is sent verbatim
+  const recent = history.slice(previous?.messageCount ?? 0)
+  const messages = build(recent, previous?.text)
+
+  if (estimateMessageTokens(messages) <= getContextBudget(options.config.model)) {
+    return { messages, summary: previous, compacted: false }
+  }
+
+  // Only the kept exchanges are left to send; the request goes out as is
+  const keepFrom = findRecentStart(recent, getSettings().contextBudget.keepExchanges)
+  if (keepFrom === 0) {
+    return { messages, summary: previous, compacted: false }
+  }
+
+  const request: LlmMessage[] = [
+    { role: 'user', content: buildSummaryPrompt(previous?.text, recent.slice(0, keepFrom), options.answerLanguage) }
+  ]
+  const { text, usage } = await options.provider.generate({
+    messages: request,
+    generation: options.config.generation,
+    signal: options.signal
+  })
+  if (!text) {
+    throw new Error('이전 대화를 요약하지 못했습니다.')
+  }
+
+  const summary: SessionSummary = {
+    text: text.trim(),
+    messageCount: (previous?.messageCount ?? 0) + keepFrom,
+    updatedAt: new Date().toISOString()
+  }
+  updateChatSessionSummary(session.id, summary)
+
+  return {
+    messages: build(recent.slice(keepFrom), summary.text),
+    summary,
+    compacted: true,
+    usage: usage ?? { promptTokens: estimateMessageTokens(request), responseTokens: estimateTokens(text) }
+  }
+}
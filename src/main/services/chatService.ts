@@ -0,0 +1,344 @@
+import { promises as fs } from 'fs'
+import { getSettings, getBook, getProviderConfig } from './database'
+import { searchBook } from './bookIndex'
+import { fitHistory, estimateMessageTokens, estimateTokens } from './chatContext'
+import { checkQuotes } from './quoteCheck'
+import type { ChatHistory } from './chatContext'
+import { createProvider } from './llm'
+import type { LlmImage, LlmMessage, LlmProvider, LlmResponse } from './llm'
+import { LANGUAGE_NAMES } from '@shared/types'
+import type {
+  ChatSession,
+  ChatSessionConfig,
+  SessionContext,
+  SessionImage,
+  SessionSummary,
+  Citation,
+  QuoteCheck,
+  MessageUsage,
+  TokenUsage
+} from '@shared/types'
+
+// Passages retrieved from the book index for each question in a book session
+const BOOK_PASSAGE_LIMIT = 6
+
+// Quotes marked this way are checked against the book and linked to where they were found
+const QUOTE_INSTRUCTION = '원문을 인용할 때는 <quote>인용문</quote>처럼 감싸고, 인용문은 원문 언어 그대로 한 글자도 바꾸지 말고 옮겨주세요.'
+
+// Language answers should be written in; a book's override wins over the global setting
+export const getAnswerLanguage = (bookId: string): string => {
+  const code = getBook(bookId)?.languageOverrides?.answerLanguage || getSettings().answerLanguage
+  return LANGUAGE_NAMES[code] ?? code
+}
+
+// Book and chapter lines, plus the paragraphs around the selection when they were captured
+const buildContextSections = (context?: SessionContext): { source: string; before: string; after: string } => {
+  if (!context) return { source: '', before: '', after: '' }
+
+  const sourceLines = [
+    `제목: ${context.bookTitle}`,
+    context.bookAuthor && `저자: ${context.bookAuthor}`,
+    context.chapter && `챕터: ${context.chapter}`
+  ].filter(Boolean)
+
+  return {
+    source: `[출처]\n${sourceLines.join('\n')}\n\n`,
+    before: context.before ? `[앞 문맥]\n${context.before}\n\n` : '',
+    after: context.after ? `[뒤 문맥]\n${context.after}\n\n` : ''
+  }
+}
+
+const buildSummarySection = (summary?: string): string => {
+  return summary ? `[이전 대화 요약]\n${summary}\n\n` : ''
+}
+
+// Build first message with baseContext included; a rolling summary stands in for compacted turns
+const buildFirstMessage = (
+  baseContext: string,
+  userMessage: string,
+  answerLanguage: string,
+  context?: SessionContext,
+  summary?: string
+): string => {
+  if (!baseContext || baseContext.trim().length === 0) {
+    console.warn('baseContext is empty!')
+    return userMessage
+  }
+
+  const sections = buildContextSections(context)
+  const contextNote = sections.before || sections.after
+    ? ' "앞 문맥"과 "뒤 문맥"은 이해를 돕기 위한 주변 내용일 뿐, 요청의 대상이 아닙니다.'
+    : ''
+
+  return `${sections.source}${sections.before}[참고할 텍스트]
+${baseContext}
+
+${sections.after}${buildSummarySection(summary)}[질문]
+${userMessage}
+
+위의 "참고할 텍스트"를 반드시 참고하여 질문에 답변해주세요. 모든 요청(요약, 번역, 질문 등)은 위의 텍스트를 대상으로 합니다.${contextNote}${summary ? ' "이전 대화 요약"은 앞서 나눈 대화를 줄인 것입니다.' : ''} ${QUOTE_INSTRUCTION} 번역을 요청받은 경우가 아니라면 답변은 ${answerLanguage}로 제공해주세요.`
+}
+
+// Snapshot of the current settings, stored on new sessions so they replay with the same configuration
+export const getDefaultSessionConfig = (): ChatSessionConfig => {
+  const settings = getSettings()
+  return {
+    provider: settings.provider,
+    model: settings.providers[settings.provider].model,
+    generation: settings.generation
+  }
+}
+
+// Provider for a session; the base URL and key always come from the current settings
+export const getSessionProvider = (config: ChatSessionConfig): LlmProvider => {
+  return createProvider(config.provider, { ...getProviderConfig(config.provider), model: config.model })
+}
+
+// Build the conversation sent to the model, with baseContext folded into the first user message.
+// `images` go with that message too.
+const buildMessages = (
+  baseContext: string,
+  userMessage: string,
+  chatHistory: ChatHistory,
+  answerLanguage: string,
+  context?: SessionContext,
+  summary?: string,
+  images?: LlmImage[]
+): LlmMessage[] => {
+  // Validate baseContext
+  if (!baseContext || baseContext.trim().length === 0) {
+    console.error('baseContext is empty in buildMessages!')
+    throw new Error('선택된 텍스트가 없습니다.')
+  }
+
+  // Build conversation history
+  const messages: LlmMessage[] = []
+
+  if (chatHistory.length === 0) {
+    // First message: include baseContext directly in the message
+    const firstPrompt = buildFirstMessage(baseContext, userMessage, answerLanguage, context, summary)
+    messages.push({ role: 'user', content: firstPrompt, images })
+  } else {
+    // Subsequent messages: reconstruct conversation with baseContext in first message
+    const firstUserMsg = chatHistory[0]
+    if (firstUserMsg && firstUserMsg.role === 'user') {
+      // First message with baseContext
+      messages.push({
+        role: 'user',
+        content: buildFirstMessage(baseContext, firstUserMsg.message, answerLanguage, context, summary),
+        images
+      })
+
+      // Add all subsequent messages from history
+      for (let i = 1; i < chatHistory.length; i++) {
+        messages.push({ role: chatHistory[i].role, content: chatHistory[i].message })
+      }
+
+      // Add current user message
+      messages.push({ role: 'user', content: userMessage })
+    } else {
+      // Fallback: if first message is not user, add all history and carry baseContext with the question
+      for (const msg of chatHistory) {
+        messages.push({ role: msg.role, content: msg.message })
+      }
+      messages.push({
+        role: 'user',
+        content: buildFirstMessage(baseContext, userMessage, answerLanguage, context, summary),
+        images
+      })
+    }
+  }
+
+  return messages
+}
+
+// Region sessions have no selected text; the image is attached and the text block names it
+const loadRegionImage = async (image: SessionImage): Promise<{ baseContext: string; images: LlmImage[] }> => {
+  let data: Buffer
+  try {
+    data = await fs.readFile(image.path)
+  } catch (err) {
+    console.error('Failed to read captured image:', err)
+    throw new Error('캡처한 이미지를 찾을 수 없습니다.')
+  }
+
+  return {
+    baseContext: `첨부한 이미지 (${image.pageNumber}쪽의 일부를 캡처한 그림, 표 또는 수식)`,
+    images: [{ mimeType: 'image/png', data: data.toString('base64') }]
+  }
+}
+
+const formatCitationSource = (citation: Citation): string => {
+  return [
+    citation.location.type === 'pdf' ? `p. ${citation.location.pageNumber}` : undefined,
+    citation.chapter
+  ].filter(Boolean).join(' · ')
+}
+
+// Book sessions: earlier turns as plain text, the current question with the passages found for it
+const buildBookMessages = (
+  bookTitle: string,
+  userMessage: string,
+  chatHistory: ChatHistory,
+  answerLanguage: string,
+  citations: Citation[],
+  summary?: string
+): LlmMessage[] => {
+  const passages = citations
+    .map(citation => `[${citation.index}] (${formatCitationSource(citation) || '위치 정보 없음'})\n${citation.text}`)
+    .join('\n\n')
+
+  const prompt = `${buildSummarySection(summary)}[책에서 찾은 구절]
+${passages}
+
+[질문]
+${userMessage}
+
+위 구절은 "${bookTitle}"에서 질문과 관련해 찾은 부분입니다. 구절에 근거해 답변하고, 근거로 삼은 구절은 [1]처럼 번호로 표시해주세요. 구절에서 답을 찾을 수 없으면 추측하지 말고 그렇다고 말해주세요. ${QUOTE_INSTRUCTION} 답변은 ${answerLanguage}로 제공해주세요.`
+
+  return [
+    ...chatHistory.map((msg): LlmMessage => ({ role: msg.role, content: msg.message })),
+    { role: 'user', content: prompt }
+  ]
+}
+
+interface PreparedMessages {
+  messages: LlmMessage[]
+  citations?: Citation[]
+  summary?: SessionSummary
+  compactionUsage?: TokenUsage
+}
+
+// Messages for either session type, fitted to the context budget; book sessions also return
+// the passages they cite, and `summary` is set when older turns were compacted for this request
+const prepareMessages = async (
+  session: ChatSession,
+  userMessage: string,
+  chatHistory: ChatHistory,
+  provider: LlmProvider,
+  config: ChatSessionConfig,
+  signal?: AbortSignal
+): Promise<PreparedMessages> => {
+  const answerLanguage = getAnswerLanguage(session.bookId)
+  const options = { provider, config, answerLanguage, signal }
+
+  // The renderer saves the question before asking, so it usually ends the stored history
+  const last = chatHistory[chatHistory.length - 1]
+  const history = last?.role === 'user' && last.message === userMessage ? chatHistory.slice(0, -1) : chatHistory
+
+  if (session.type !== 'book') {
+    const region = session.image ? await loadRegionImage(session.image) : undefined
+    const baseContext = region?.baseContext ?? session.baseContext
+    const fitted = await fitHistory(session, history, (recent, summary) =>
+      buildMessages(baseContext, userMessage, recent, answerLanguage, session.context, summary, region?.images), options)
+    return {
+      messages: fitted.messages,
+      summary: fitted.compacted ? fitted.summary : undefined,
+      compactionUsage: fitted.usage
+    }
+  }
+
+  const chunks = await searchBook(session.bookId, userMessage, BOOK_PASSAGE_LIMIT, signal)
+  const citations = chunks.map((chunk, i): Citation => ({
+    index: i + 1,
+    location: chunk.location,
+    chapter: chunk.chapter,
+    text: chunk.text
+  }))
+  const bookTitle = getBook(session.bookId)?.title ?? ''
+
+  const fitted = await fitHistory(session, history, (recent, summary) =>
+    buildBookMessages(bookTitle, userMessage, recent, answerLanguage, citations, summary), options)
+  return {
+    messages: fitted.messages,
+    citations,
+    summary: fitted.compacted ? fitted.summary : undefined,
+    compactionUsage: fitted.usage
+  }
+}
+
+// Tokens and latency of an answer, including the compaction request that preceded it. Counts the
+// provider didn't report are estimated from the text.
+const measureUsage = (
+  config: ChatSessionConfig,
+  prepared: PreparedMessages,
+  response: LlmResponse,
+  startedAt: number
+): MessageUsage => {
+  const compaction = prepared.compactionUsage ?? { promptTokens: 0, responseTokens: 0 }
+  return {
+    provider: config.provider,
+    model: config.model,
+    promptTokens: (response.usage?.promptTokens ?? estimateMessageTokens(prepared.messages)) + compaction.promptTokens,
+    responseTokens: (response.usage?.responseTokens ?? estimateTokens(response.text)) + compaction.responseTokens,
+    latencyMs: Date.now() - startedAt,
+    estimated: response.usage ? undefined : true
+  }
+}
+
+// Stream an answer from the configured provider. Text received before an abort is returned
+// with `aborted: true` so the caller can keep the partial answer.
+export const streamLLM = async (
+  session: ChatSession,
+  userMessage: string,
+  chatHistory: ChatHistory,
+  options: { signal: AbortSignal; onChunk: (text: string) => void }
+): Promise<{
+  text: string
+  citations?: Citation[]
+  quotes?: QuoteCheck[]
+  summary?: SessionSummary
+  usage?: MessageUsage
+  aborted: boolean
+}> => {
+  const config = session.config ?? getDefaultSessionConfig()
+  const provider = getSessionProvider(config)
+
+  let text = ''
+  let prepared: PreparedMessages | undefined
+  let startedAt = 0
+
+  try {
+    prepared = await prepareMessages(session, userMessage, chatHistory, provider, config, options.signal)
+    startedAt = Date.now()
+
+    const response = await provider.stream(
+      { messages: prepared.messages, generation: config.generation, signal: options.signal },
+      (chunk) => {
+        text += chunk
+        options.onChunk(chunk)
+      }
+    )
+
+    if (!text) {
+      throw new Error('응답을 생성할 수 없습니다.')
+    }
+
+    const usage = measureUsage(config, prepared, { ...response, text }, startedAt)
+    return {
+      text,
+      citations: prepared.citations,
+      quotes: await checkQuotes(session, text),
+      summary: prepared.summary,
+      usage,
+      aborted: false
+    }
+  } catch (error) {
+    if (options.signal.aborted) {
+      // A stopped stream never reports its counts; the partial answer is estimated
+      const usage = prepared && text ? measureUsage(config, prepared, { text }, startedAt) : undefined
+      return {
+        text,
+        citations: prepared?.citations,
+        quotes: text ? await checkQuotes(session, text) : undefined,
+        summary: prepared?.summary,
+        usage,
+        aborted: true
+      }
+    }
+    if (error instanceof Error) {
+      throw error
+    }
+    throw new Error('AI 응답 요청 중 오류가 발생했습니다.')
+  }
+}
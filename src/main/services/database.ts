@@ -1,120 +1,233 @@
 import Database from 'better-sqlite3'
 import { app } from 'electron'
+import fs from 'fs'
 import path from 'path'
-import type { Book, ChatSession, ChatMessage, Settings } from '@shared/types'
+import { migrations, LATEST_SCHEMA_VERSION } from './migrations'
+import { encryptSecret, decryptSecret } from './secrets'
+import {
+  DEFAULT_PROVIDER_CONFIGS,
+  DEFAULT_GENERATION_CONFIG,
+  DEFAULT_CONTEXT_BUDGET,
+  DEFAULT_EMBEDDING_MODELS,
+  DEFAULT_USAGE_SETTINGS
+} from '@shared/types'
+import type {
+  Book,
+  BookCreator,
+  ChatSession,
+  ChatSessionConfig,
+  SessionContext,
+  SessionSummary,
+  SessionImage,
+  ChatMessage,
+  Citation,
+  QuoteCheck,
+  MessageUsage,
+  UsageQuery,
+  UsageRow,
+  UsageSettings,
+  Settings,
+  LlmProviderId,
+  ProviderConfig,
+  ProviderSettings,
+  DatabaseStatus,
+  TextAnchor,
+  Highlight,
+  HighlightColor,
+  Bookmark,
+  PromptAction,
+  PromptActionInput,
+  BookLocation,
+  BookProgress,
+  LanguageSettings,
+  GenerationConfig,
+  ModelInfo,
+  ModelList,
+  EmbeddingSettings,
+  ContextBudgetSettings,
+  BookIndexStatus,
+  ChapterSummary
+} from '@shared/types'
 
 let db: Database.Database | null = null
+let dbStatus: DatabaseStatus = { ok: true, schemaVersion: 0 }
+
+// Error thrown by the migration runner, carrying where the schema stopped
+type MigrationFailure = Error & { schemaVersion?: number; backupPath?: string }
 
 // Initialize database
-export const initDatabase = (): Database.Database => {
+export const initDatabase = (): Database.Database | null => {
   if (db) return db
 
   const dbPath = path.join(app.getPath('userData'), 'flow-reader.db')
-  db = new Database(dbPath)
+  const isExistingFile = fs.existsSync(dbPath)
+  const connection = new Database(dbPath)
   
   // Enable WAL mode for better performance
-  db.pragma('journal_mode = WAL')
-  
-  // Create tables
-  createTables()
+  connection.pragma('journal_mode = WAL')
   
+  // Bring the schema up to date
+  try {
+    const { schemaVersion, backupPath } = runMigrations(connection, dbPath, isExistingFile)
+    dbStatus = { ok: true, schemaVersion, backupPath }
+  } catch (err) {
+    console.error('Database migration failed:', err)
+    connection.close()
+    dbStatus = {
+      ok: false,
+      schemaVersion: (err as MigrationFailure).schemaVersion ?? 0,
+      backupPath: (err as MigrationFailure).backupPath,
+      error: err instanceof Error ? err.message : String(err)
+    }
+    return null
+  }
+
+  db = connection
+  migrateLegacyApiKeys()
   return db
 }
 
-// Create tables
-const createTables = () => {
-  if (!db) return
+export const getDatabaseStatus = (): DatabaseStatus => dbStatus
 
-  // Books table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS books (
-      id TEXT PRIMARY KEY,
-      title TEXT NOT NULL,
-      author TEXT,
-      file_path TEXT NOT NULL,
-      cover_path TEXT,
-      file_type TEXT NOT NULL CHECK(file_type IN ('pdf', 'epub')),
-      last_page INTEGER DEFAULT 1,
-      total_pages INTEGER,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
-    )
-  `)
+// Pre-migration copies kept in userData/backups; older ones are deleted
+const MAX_BACKUPS = 5
+const BACKUP_FILE_PATTERN = /^flow-reader\.v\d+\..*\.db$/
 
-  // Chat sessions table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS chat_sessions (
-      id TEXT PRIMARY KEY,
-      book_id TEXT NOT NULL,
-      base_context TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL,
-      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
-    )
-  `)
+// Delete all but the newest MAX_BACKUPS copies
+const pruneBackups = (backupDir: string) => {
+  try {
+    const backups = fs.readdirSync(backupDir)
+      .filter(name => BACKUP_FILE_PATTERN.test(name))
+      .map(name => path.join(backupDir, name))
+      .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs)
+    for (const backup of backups.slice(MAX_BACKUPS)) {
+      fs.rmSync(backup, { force: true })
+    }
+  } catch (err) {
+    console.error('Failed to prune database backups:', err)
+  }
+}
 
-  // Chat messages table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS chat_messages (
-      id TEXT PRIMARY KEY,
-      session_id TEXT NOT NULL,
-      role TEXT NOT NULL CHECK(role IN ('user', 'assistant')),
-      message TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE
-    )
-  `)
+// Copy the database file aside before touching its schema
+const backupDatabase = (connection: Database.Database, dbPath: string, fromVersion: number): string => {
+  // Flush the WAL so the main file contains every committed transaction
+  connection.pragma('wal_checkpoint(TRUNCATE)')
+
+  const backupDir = path.join(path.dirname(dbPath), 'backups')
+  fs.mkdirSync(backupDir, { recursive: true })
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+  const backupPath = path.join(backupDir, `flow-reader.v${fromVersion}.${timestamp}.db`)
+  fs.copyFileSync(dbPath, backupPath)
+  pruneBackups(backupDir)
 
-  // Settings table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS settings (
-      key TEXT PRIMARY KEY,
-      value TEXT
+  return backupPath
+}
+
+// Apply pending migrations in order, each in its own transaction
+const runMigrations = (
+  connection: Database.Database,
+  dbPath: string,
+  isExistingFile: boolean
+): { schemaVersion: number; backupPath?: string } => {
+  let currentVersion = connection.pragma('user_version', { simple: true }) as number
+
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    const error: MigrationFailure = new Error(
+      `데이터베이스 버전(${currentVersion})이 앱이 지원하는 버전(${LATEST_SCHEMA_VERSION})보다 높습니다. 앱을 최신 버전으로 업데이트해주세요.`
     )
-  `)
+    error.schemaVersion = currentVersion
+    throw error
+  }
 
-  // Create indexes
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_chat_sessions_book_id ON chat_sessions(book_id);
-    CREATE INDEX IF NOT EXISTS idx_chat_messages_session_id ON chat_messages(session_id);
-  `)
+  const pending = migrations.filter(m => m.version > currentVersion)
+  if (pending.length === 0) {
+    return { schemaVersion: currentVersion }
+  }
+
+  const backupPath = isExistingFile ? backupDatabase(connection, dbPath, currentVersion) : undefined
+
+  for (const migration of pending) {
+    const step = connection.transaction(() => {
+      migration.up(connection)
+      connection.pragma(`user_version = ${migration.version}`)
+    })
+
+    try {
+      step()
+      currentVersion = migration.version
+      console.log(`Applied migration ${migration.version}: ${migration.description}`)
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err)
+      const error: MigrationFailure = new Error(
+        `마이그레이션 ${migration.version} (${migration.description}) 적용에 실패했습니다: ${reason}`
+      )
+      error.schemaVersion = currentVersion
+      error.backupPath = backupPath
+      throw error
+    }
+  }
+
+  return { schemaVersion: currentVersion, backupPath }
 }
 
 // Book operations
+type BookRow = Omit<Book, 'creators' | 'languageOverrides'> & {
+  creators: string | null
+  languageOverrides: string | null
+}
+
+const BOOK_COLUMNS = `
+  id, title, author, file_path as filePath, cover_path as coverPath,
+  file_type as fileType, last_page as lastPage, total_pages as totalPages,
+  last_location as lastLocation, progress, creators, language, publisher,
+  identifier, isbn, series, series_index as seriesIndex, file_hash as fileHash,
+  language_overrides as languageOverrides, created_at as createdAt, updated_at as updatedAt
+`
+
+const toBook = (row: BookRow): Book => ({
+  ...row,
+  creators: row.creators ? (JSON.parse(row.creators) as BookCreator[]) : undefined,
+  languageOverrides: row.languageOverrides
+    ? (JSON.parse(row.languageOverrides) as Partial<LanguageSettings>)
+    : undefined
+})
+
 export const getBooks = (): Book[] => {
   if (!db) return []
   
   const stmt = db.prepare(`
-    SELECT id, title, author, file_path as filePath, cover_path as coverPath,
-           file_type as fileType, last_page as lastPage, total_pages as totalPages,
-           created_at as createdAt, updated_at as updatedAt
+    SELECT ${BOOK_COLUMNS}
     FROM books
     ORDER BY updated_at DESC
   `)
   
-  return stmt.all() as Book[]
+  return (stmt.all() as BookRow[]).map(toBook)
 }
 
 export const getBook = (id: string): Book | null => {
   if (!db) return null
   
   const stmt = db.prepare(`
-    SELECT id, title, author, file_path as filePath, cover_path as coverPath,
-           file_type as fileType, last_page as lastPage, total_pages as totalPages,
-           created_at as createdAt, updated_at as updatedAt
+    SELECT ${BOOK_COLUMNS}
     FROM books
     WHERE id = ?
   `)
   
-  return stmt.get(id) as Book | null
+  const row = stmt.get(id) as BookRow | undefined
+  return row ? toBook(row) : null
 }
 
 export const insertBook = (book: Book): void => {
   if (!db) return
   
   const stmt = db.prepare(`
-    INSERT INTO books (id, title, author, file_path, cover_path, file_type, last_page, total_pages, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO books (
+      id, title, author, file_path, cover_path, file_type, last_page, total_pages,
+      creators, language, publisher, identifier, isbn, series, series_index,
+      file_hash, created_at, updated_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `)
   
   stmt.run(
@@ -126,19 +239,107 @@ export const insertBook = (book: Book): void => {
     book.fileType,
     book.lastPage || 1,
     book.totalPages || null,
+    book.creators ? JSON.stringify(book.creators) : null,
+    book.language || null,
+    book.publisher || null,
+    book.identifier || null,
+    book.isbn || null,
+    book.series || null,
+    book.seriesIndex ?? null,
+    book.fileHash || null,
     book.createdAt,
     book.updatedAt
   )
 }
 
-export const updateBookProgress = (id: string, lastPage: number): boolean => {
+export const updateBookProgress = (id: string, progress: BookProgress): boolean => {
   if (!db) return false
   
   const stmt = db.prepare(`
-    UPDATE books SET last_page = ?, updated_at = ? WHERE id = ?
+    UPDATE books
+    SET last_page = ?,
+        last_location = COALESCE(?, last_location),
+        progress = COALESCE(?, progress),
+        updated_at = ?
+    WHERE id = ?
   `)
   
-  const result = stmt.run(lastPage, new Date().toISOString(), id)
+  const result = stmt.run(
+    progress.page,
+    progress.location ?? null,
+    progress.percentage ?? null,
+    new Date().toISOString(),
+    id
+  )
+  return result.changes > 0
+}
+
+// Empty overrides are stored as NULL so the book follows the global settings again
+export const updateBookLanguageOverrides = (id: string, overrides: Partial<LanguageSettings>): boolean => {
+  if (!db) return false
+
+  const entries = Object.entries(overrides).filter(([, value]) => value)
+  const stmt = db.prepare(`
+    UPDATE books SET language_overrides = ?, updated_at = ? WHERE id = ?
+  `)
+
+  const result = stmt.run(
+    entries.length > 0 ? JSON.stringify(Object.fromEntries(entries)) : null,
+    new Date().toISOString(),
+    id
+  )
+  return result.changes > 0
+}
+
+export const getBookByHash = (fileHash: string): Book | null => {
+  if (!db) return null
+
+  const stmt = db.prepare(`
+    SELECT ${BOOK_COLUMNS}
+    FROM books
+    WHERE file_hash = ?
+    ORDER BY created_at ASC
+    LIMIT 1
+  `)
+
+  const row = stmt.get(fileHash) as BookRow | undefined
+  return row ? toBook(row) : null
+}
+
+export const updateBookHash = (id: string, fileHash: string): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare('UPDATE books SET file_hash = ? WHERE id = ?')
+  const result = stmt.run(fileHash, id)
+  return result.changes > 0
+}
+
+// Point a book at a new file, keeping its id (and so its sessions, highlights and bookmarks)
+export const updateBookFile = (
+  id: string,
+  file: { filePath: string; fileHash: string; coverPath?: string; totalPages?: number }
+): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare(`
+    UPDATE books
+    SET file_path = ?, file_hash = ?, cover_path = COALESCE(?, cover_path),
+      total_pages = COALESCE(?, total_pages), updated_at = ?
+    WHERE id = ?
+  `)
+
+  // Metadata the new file didn't yield (e.g. extraction failed) keeps the old values
+  const result = stmt.run(
+    file.filePath,
+    file.fileHash,
+    file.coverPath || null,
+    file.totalPages || null,
+    new Date().toISOString(),
+    id
+  )
+
+  // Cached EPUB locations belong to the old file
+  db.prepare('DELETE FROM epub_locations WHERE book_id = ?').run(id)
   return result.changes > 0
 }
 
@@ -151,53 +352,150 @@ export const deleteBookFromDb = (id: string): boolean => {
 }
 
 // Chat session operations
+type ChatSessionRow = Omit<ChatSession, 'anchor' | 'image' | 'config' | 'context' | 'summary'> & {
+  anchor: string | null
+  image: string | null
+  config: string | null
+  context: string | null
+  summary: string | null
+}
+
+const CHAT_SESSION_COLUMNS = `
+  id, book_id as bookId, type, base_context as baseContext, anchor, image, config, context, summary,
+  created_at as createdAt, updated_at as updatedAt
+`
+
+// JSON columns are decoded here so callers always get plain objects
+const toChatSession = (row: ChatSessionRow): ChatSession => ({
+  ...row,
+  anchor: row.anchor ? JSON.parse(row.anchor) as TextAnchor : undefined,
+  image: row.image ? JSON.parse(row.image) as SessionImage : undefined,
+  config: row.config ? JSON.parse(row.config) as ChatSessionConfig : undefined,
+  context: row.context ? JSON.parse(row.context) as SessionContext : undefined,
+  summary: row.summary ? JSON.parse(row.summary) as SessionSummary : undefined
+})
+
 export const getChatSessions = (bookId: string): ChatSession[] => {
   if (!db) return []
   
   const stmt = db.prepare(`
-    SELECT id, book_id as bookId, base_context as baseContext,
-           created_at as createdAt, updated_at as updatedAt
+    SELECT ${CHAT_SESSION_COLUMNS}
     FROM chat_sessions
     WHERE book_id = ?
     ORDER BY updated_at DESC
   `)
   
-  return stmt.all(bookId) as ChatSession[]
+  return (stmt.all(bookId) as ChatSessionRow[]).map(toChatSession)
 }
 
 export const getChatSession = (id: string): ChatSession | null => {
   if (!db) return null
   
   const stmt = db.prepare(`
-    SELECT id, book_id as bookId, base_context as baseContext,
-           created_at as createdAt, updated_at as updatedAt
+    SELECT ${CHAT_SESSION_COLUMNS}
     FROM chat_sessions
     WHERE id = ?
   `)
   
-  return stmt.get(id) as ChatSession | null
+  const row = stmt.get(id) as ChatSessionRow | undefined
+  return row ? toChatSession(row) : null
 }
 
-export const createChatSession = (bookId: string, baseContext: string): ChatSession => {
+const insertChatSession = (session: ChatSession): ChatSession => {
   if (!db) throw new Error('Database not initialized')
   
-  const id = crypto.randomUUID()
-  const now = new Date().toISOString()
-  
   const stmt = db.prepare(`
-    INSERT INTO chat_sessions (id, book_id, base_context, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO chat_sessions (id, book_id, type, base_context, anchor, image, config, context, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `)
   
-  stmt.run(id, bookId, baseContext, now, now)
+  stmt.run(
+    session.id,
+    session.bookId,
+    session.type,
+    session.baseContext,
+    session.anchor ? JSON.stringify(session.anchor) : null,
+    session.image ? JSON.stringify(session.image) : null,
+    session.config ? JSON.stringify(session.config) : null,
+    session.context ? JSON.stringify(session.context) : null,
+    session.createdAt,
+    session.updatedAt
+  )
   
-  return {
-    id,
+  return session
+}
+
+export const createChatSession = (
+  bookId: string,
+  baseContext: string,
+  anchor?: TextAnchor,
+  config?: ChatSessionConfig,
+  context?: SessionContext
+): ChatSession => {
+  const now = new Date().toISOString()
+  return insertChatSession({
+    id: crypto.randomUUID(),
     bookId,
+    type: 'passage',
     baseContext,
+    anchor,
+    config,
+    context,
     createdAt: now,
     updatedAt: now
-  }
+  })
+}
+
+// Whole-book sessions have no selection; passages are looked up per question
+export const createBookChatSession = (bookId: string, config?: ChatSessionConfig): ChatSession => {
+  const now = new Date().toISOString()
+  return insertChatSession({
+    id: crypto.randomUUID(),
+    bookId,
+    type: 'book',
+    baseContext: '',
+    config,
+    createdAt: now,
+    updatedAt: now
+  })
+}
+
+// Sessions about a captured PDF region; the image is sent instead of selected text
+export const createRegionChatSession = (
+  bookId: string,
+  image: SessionImage,
+  config?: ChatSessionConfig,
+  context?: SessionContext
+): ChatSession => {
+  const now = new Date().toISOString()
+  return insertChatSession({
+    id: crypto.randomUUID(),
+    bookId,
+    type: 'region',
+    baseContext: '',
+    image,
+    config,
+    context,
+    createdAt: now,
+    updatedAt: now
+  })
+}
+
+// Doesn't touch updated_at, which orders the session list by conversation activity
+export const updateChatSessionConfig = (id: string, config: ChatSessionConfig): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare('UPDATE chat_sessions SET config = ? WHERE id = ?')
+  const result = stmt.run(JSON.stringify(config), id)
+  return result.changes > 0
+}
+
+export const updateChatSessionSummary = (id: string, summary: SessionSummary): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare('UPDATE chat_sessions SET summary = ? WHERE id = ?')
+  const result = stmt.run(JSON.stringify(summary), id)
+  return result.changes > 0
 }
 
 export const deleteChatSession = (id: string): boolean => {
@@ -209,23 +507,93 @@ export const deleteChatSession = (id: string): boolean => {
 }
 
 // Chat message operations
+type ChatMessageRow = Omit<ChatMessage, 'citations' | 'quotes' | 'usage' | 'pending'> & {
+  citations: string | null
+  quotes: string | null
+  provider: LlmProviderId | null
+  model: string | null
+  promptTokens: number | null
+  responseTokens: number | null
+  latencyMs: number | null
+  usageEstimated: number
+  pending: number
+}
+
+const CHAT_MESSAGE_COLUMNS = `
+  id, session_id as sessionId, role, message, citations, quotes, created_at as createdAt,
+  provider, model, prompt_tokens as promptTokens, response_tokens as responseTokens,
+  latency_ms as latencyMs, usage_estimated as usageEstimated, pending
+`
+
+const toChatMessage = ({
+  citations,
+  quotes,
+  provider,
+  model,
+  promptTokens,
+  responseTokens,
+  latencyMs,
+  usageEstimated,
+  pending,
+  ...row
+}: ChatMessageRow): ChatMessage => ({
+  ...row,
+  pending: pending ? true : undefined,
+  citations: citations ? JSON.parse(citations) as Citation[] : undefined,
+  quotes: quotes ? JSON.parse(quotes) as QuoteCheck[] : undefined,
+  // Only assistant answers recorded since usage tracking have a model
+  usage: provider && model ? {
+    provider,
+    model,
+    promptTokens: promptTokens ?? 0,
+    responseTokens: responseTokens ?? 0,
+    latencyMs: latencyMs ?? 0,
+    estimated: usageEstimated ? true : undefined
+  } : undefined
+})
+
 export const getChatMessages = (sessionId: string): ChatMessage[] => {
   if (!db) return []
   
   const stmt = db.prepare(`
-    SELECT id, session_id as sessionId, role, message, created_at as createdAt
+    SELECT ${CHAT_MESSAGE_COLUMNS}
     FROM chat_messages
     WHERE session_id = ?
     ORDER BY created_at ASC
   `)
   
-  return stmt.all(sessionId) as ChatMessage[]
+  return (stmt.all(sessionId) as ChatMessageRow[]).map(toChatMessage)
+}
+
+// Questions of a book still waiting to be sent, oldest first
+export const getPendingChatMessages = (bookId: string): ChatMessage[] => {
+  if (!db) return []
+
+  const stmt = db.prepare(`
+    SELECT ${CHAT_MESSAGE_COLUMNS}
+    FROM chat_messages
+    WHERE pending = 1 AND session_id IN (SELECT id FROM chat_sessions WHERE book_id = ?)
+    ORDER BY created_at ASC
+  `)
+
+  return (stmt.all(bookId) as ChatMessageRow[]).map(toChatMessage)
+}
+
+export const setChatMessagePending = (messageId: string, pending: boolean): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare('UPDATE chat_messages SET pending = ? WHERE id = ?')
+  const result = stmt.run(pending ? 1 : 0, messageId)
+  return result.changes > 0
 }
 
 export const addChatMessage = (
   sessionId: string, 
   role: 'user' | 'assistant', 
-  message: string
+  message: string,
+  citations?: Citation[],
+  usage?: MessageUsage,
+  quotes?: QuoteCheck[]
 ): ChatMessage => {
   if (!db) throw new Error('Database not initialized')
   
@@ -233,11 +601,29 @@ export const addChatMessage = (
   const now = new Date().toISOString()
   
   const stmt = db.prepare(`
-    INSERT INTO chat_messages (id, session_id, role, message, created_at)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO chat_messages (
+      id, session_id, role, message, citations, quotes, created_at,
+      provider, model, prompt_tokens, response_tokens, latency_ms, usage_estimated
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `)
   
-  stmt.run(id, sessionId, role, message, now)
+  stmt.run(
+    id,
+    sessionId,
+    role,
+    message,
+    citations?.length ? JSON.stringify(citations) : null,
+    quotes?.length ? JSON.stringify(quotes) : null,
+    now,
+    usage?.provider ?? null,
+    usage?.model ?? null,
+    usage?.promptTokens ?? null,
+    usage?.responseTokens ?? null,
+    usage?.latencyMs ?? null,
+    usage?.estimated ? 1 : 0
+  )
+  if (usage) recordMessageUsage(sessionId, now, usage)
   
   // Update session's updated_at
   const updateSessionStmt = db.prepare(`
@@ -250,26 +636,627 @@ export const addChatMessage = (
     sessionId,
     role,
     message,
+    citations: citations?.length ? citations : undefined,
+    quotes: quotes?.length ? quotes : undefined,
+    usage,
     createdAt: now
   }
 }
 
+// Highlight operations
+type HighlightRow = Omit<Highlight, 'anchor' | 'note'> & { anchor: string; note: string | null }
+
+const toHighlight = (row: HighlightRow): Highlight => ({
+  ...row,
+  anchor: JSON.parse(row.anchor) as TextAnchor,
+  note: row.note ?? undefined
+})
+
+export const getHighlights = (bookId: string): Highlight[] => {
+  if (!db) return []
+
+  const stmt = db.prepare(`
+    SELECT id, book_id as bookId, color, anchor, text, note,
+           created_at as createdAt, updated_at as updatedAt
+    FROM highlights
+    WHERE book_id = ?
+    ORDER BY created_at ASC
+  `)
+
+  return (stmt.all(bookId) as HighlightRow[]).map(toHighlight)
+}
+
+export const createHighlight = (
+  bookId: string,
+  highlight: { color: HighlightColor; anchor: TextAnchor; text: string; note?: string }
+): Highlight => {
+  if (!db) throw new Error('Database not initialized')
+
+  const id = crypto.randomUUID()
+  const now = new Date().toISOString()
+
+  const stmt = db.prepare(`
+    INSERT INTO highlights (id, book_id, color, anchor, text, note, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+
+  stmt.run(
+    id,
+    bookId,
+    highlight.color,
+    JSON.stringify(highlight.anchor),
+    highlight.text,
+    highlight.note || null,
+    now,
+    now
+  )
+
+  return {
+    id,
+    bookId,
+    ...highlight,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+export const updateHighlight = (
+  id: string,
+  changes: { color?: HighlightColor; note?: string }
+): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare(`
+    UPDATE highlights
+    SET color = COALESCE(?, color), note = COALESCE(?, note), updated_at = ?
+    WHERE id = ?
+  `)
+
+  const result = stmt.run(changes.color ?? null, changes.note ?? null, new Date().toISOString(), id)
+  return result.changes > 0
+}
+
+export const deleteHighlight = (id: string): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare('DELETE FROM highlights WHERE id = ?')
+  const result = stmt.run(id)
+  return result.changes > 0
+}
+
+// Bookmark operations
+type BookmarkRow = Omit<Bookmark, 'location' | 'label' | 'chapter'> & {
+  location: string
+  label: string | null
+  chapter: string | null
+}
+
+const toBookmark = (row: BookmarkRow): Bookmark => ({
+  ...row,
+  location: JSON.parse(row.location) as BookLocation,
+  label: row.label ?? undefined,
+  chapter: row.chapter ?? undefined
+})
+
+export const getBookmarks = (bookId: string): Bookmark[] => {
+  if (!db) return []
+
+  const stmt = db.prepare(`
+    SELECT id, book_id as bookId, location, label, chapter,
+           created_at as createdAt, updated_at as updatedAt
+    FROM bookmarks
+    WHERE book_id = ?
+    ORDER BY created_at ASC
+  `)
+
+  return (stmt.all(bookId) as BookmarkRow[]).map(toBookmark)
+}
+
+export const createBookmark = (
+  bookId: string,
+  bookmark: { location: BookLocation; label?: string; chapter?: string }
+): Bookmark => {
+  if (!db) throw new Error('Database not initialized')
+
+  const id = crypto.randomUUID()
+  const now = new Date().toISOString()
+
+  const stmt = db.prepare(`
+    INSERT INTO bookmarks (id, book_id, location, label, chapter, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `)
+
+  stmt.run(
+    id,
+    bookId,
+    JSON.stringify(bookmark.location),
+    bookmark.label || null,
+    bookmark.chapter || null,
+    now,
+    now
+  )
+
+  return {
+    id,
+    bookId,
+    ...bookmark,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+export const updateBookmarkLabel = (id: string, label: string): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare(`
+    UPDATE bookmarks SET label = ?, updated_at = ? WHERE id = ?
+  `)
+
+  const result = stmt.run(label || null, new Date().toISOString(), id)
+  return result.changes > 0
+}
+
+export const deleteBookmark = (id: string): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare('DELETE FROM bookmarks WHERE id = ?')
+  const result = stmt.run(id)
+  return result.changes > 0
+}
+
+// Prompt action operations
+type PromptActionRow = Omit<PromptAction, 'targetLanguage' | 'autoSend' | 'shortcut'> & {
+  targetLanguage: string | null
+  autoSend: number
+  shortcut: string | null
+}
+
+const toPromptAction = (row: PromptActionRow): PromptAction => ({
+  ...row,
+  targetLanguage: row.targetLanguage ?? undefined,
+  autoSend: row.autoSend === 1,
+  shortcut: row.shortcut ?? undefined
+})
+
+export const getPromptActions = (): PromptAction[] => {
+  if (!db) return []
+
+  const stmt = db.prepare(`
+    SELECT id, name, icon, template, target_language as targetLanguage, auto_send as autoSend,
+           shortcut, sort_order as sortOrder, created_at as createdAt, updated_at as updatedAt
+    FROM prompt_actions
+    ORDER BY sort_order ASC
+  `)
+
+  return (stmt.all() as PromptActionRow[]).map(toPromptAction)
+}
+
+export const createPromptAction = (action: PromptActionInput): PromptAction => {
+  if (!db) throw new Error('Database not initialized')
+
+  const id = crypto.randomUUID()
+  const now = new Date().toISOString()
+  const { sortOrder } = db.prepare(`
+    SELECT COALESCE(MAX(sort_order) + 1, 0) as sortOrder FROM prompt_actions
+  `).get() as { sortOrder: number }
+
+  const stmt = db.prepare(`
+    INSERT INTO prompt_actions (id, name, icon, template, target_language, auto_send, shortcut, sort_order, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+
+  stmt.run(
+    id,
+    action.name,
+    action.icon,
+    action.template,
+    action.targetLanguage || null,
+    action.autoSend ? 1 : 0,
+    action.shortcut || null,
+    sortOrder,
+    now,
+    now
+  )
+
+  return {
+    id,
+    ...action,
+    sortOrder,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+export const updatePromptAction = (id: string, action: PromptActionInput): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare(`
+    UPDATE prompt_actions
+    SET name = ?, icon = ?, template = ?, target_language = ?, auto_send = ?, shortcut = ?, updated_at = ?
+    WHERE id = ?
+  `)
+
+  const result = stmt.run(
+    action.name,
+    action.icon,
+    action.template,
+    action.targetLanguage || null,
+    action.autoSend ? 1 : 0,
+    action.shortcut || null,
+    new Date().toISOString(),
+    id
+  )
+  return result.changes > 0
+}
+
+export const deletePromptAction = (id: string): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare('DELETE FROM prompt_actions WHERE id = ?')
+  const result = stmt.run(id)
+  return result.changes > 0
+}
+
+// Persist a new order; ids are listed in the order they should appear
+export const reorderPromptActions = (ids: string[]): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare('UPDATE prompt_actions SET sort_order = ? WHERE id = ?')
+  db.transaction(() => {
+    ids.forEach((id, index) => stmt.run(index, id))
+  })()
+  return true
+}
+
+// EPUB location cache, one entry per book
+export const getEpubLocations = (bookId: string): string | null => {
+  if (!db) return null
+
+  const stmt = db.prepare(`
+    SELECT locations FROM epub_locations WHERE book_id = ?
+  `)
+
+  const row = stmt.get(bookId) as { locations: string } | undefined
+  return row?.locations ?? null
+}
+
+export const saveEpubLocations = (bookId: string, locations: string): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO epub_locations (book_id, locations, updated_at)
+    VALUES (?, ?, ?)
+  `)
+
+  const result = stmt.run(bookId, locations, new Date().toISOString())
+  return result.changes > 0
+}
+
+// Model lists from provider model endpoints, kept for offline use
+export const getCachedModels = (provider: LlmProviderId, baseUrl: string): ModelList | null => {
+  if (!db) return null
+
+  const stmt = db.prepare(`
+    SELECT models, fetched_at as fetchedAt FROM provider_models WHERE provider = ? AND base_url = ?
+  `)
+
+  const row = stmt.get(provider, baseUrl) as { models: string; fetchedAt: string } | undefined
+  return row ? { models: JSON.parse(row.models) as ModelInfo[], fetchedAt: row.fetchedAt } : null
+}
+
+export const saveCachedModels = (provider: LlmProviderId, baseUrl: string, models: ModelInfo[]): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO provider_models (provider, base_url, models, fetched_at)
+    VALUES (?, ?, ?, ?)
+  `)
+
+  const result = stmt.run(provider, baseUrl, JSON.stringify(models), new Date().toISOString())
+  return result.changes > 0
+}
+
+// Book search index
+export interface BookChunk {
+  text: string
+  location: BookLocation
+  chapter?: string
+  embedding: Float32Array
+}
+
+export const getBookIndex = (bookId: string): Omit<BookIndexStatus, 'state'> | null => {
+  if (!db) return null
+
+  const stmt = db.prepare(`
+    SELECT book_id as bookId, embedding_provider as embeddingProvider, embedding_model as embeddingModel,
+      chunk_count as chunkCount, indexed_at as indexedAt
+    FROM book_indexes
+    WHERE book_id = ?
+  `)
+
+  return (stmt.get(bookId) as Omit<BookIndexStatus, 'state'> | undefined) ?? null
+}
+
+export const getBookChunks = (bookId: string): BookChunk[] => {
+  if (!db) return []
+
+  const stmt = db.prepare(`
+    SELECT text, location, chapter, embedding
+    FROM book_chunks
+    WHERE book_id = ?
+    ORDER BY chunk_index ASC
+  `)
+
+  const rows = stmt.all(bookId) as { text: string; location: string; chapter: string | null; embedding: Buffer }[]
+  return rows.map(row => ({
+    text: row.text,
+    location: JSON.parse(row.location) as BookLocation,
+    chapter: row.chapter ?? undefined,
+    // Copied so the float view starts on an aligned offset
+    embedding: new Float32Array(new Uint8Array(row.embedding).buffer)
+  }))
+}
+
+// Chunk text without the embeddings, for matching quotes against the book
+export const getBookChunkTexts = (bookId: string): Omit<BookChunk, 'embedding'>[] => {
+  if (!db) return []
+
+  const stmt = db.prepare(`
+    SELECT text, location, chapter
+    FROM book_chunks
+    WHERE book_id = ?
+    ORDER BY chunk_index ASC
+  `)
+
+  const rows = stmt.all(bookId) as { text: string; location: string; chapter: string | null }[]
+  return rows.map(row => ({
+    text: row.text,
+    location: JSON.parse(row.location) as BookLocation,
+    chapter: row.chapter ?? undefined
+  }))
+}
+
+// Replaces the whole index at once, so a failed or cancelled run leaves the previous one usable
+export const replaceBookIndex = (bookId: string, embedding: EmbeddingSettings, chunks: BookChunk[]): boolean => {
+  if (!db) return false
+
+  const insertChunk = db.prepare(`
+    INSERT INTO book_chunks (book_id, chunk_index, text, location, chapter, embedding)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `)
+
+  const transaction = db.transaction(() => {
+    db!.prepare('DELETE FROM book_chunks WHERE book_id = ?').run(bookId)
+    chunks.forEach((chunk, index) => {
+      insertChunk.run(
+        bookId,
+        index,
+        chunk.text,
+        JSON.stringify(chunk.location),
+        chunk.chapter ?? null,
+        Buffer.from(chunk.embedding.buffer, chunk.embedding.byteOffset, chunk.embedding.byteLength)
+      )
+    })
+    db!.prepare(`
+      INSERT OR REPLACE INTO book_indexes (book_id, embedding_provider, embedding_model, chunk_count, indexed_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(bookId, embedding.provider, embedding.model, chunks.length, new Date().toISOString())
+  })
+
+  try {
+    transaction()
+    return true
+  } catch (err) {
+    console.error('Failed to save book index:', err)
+    return false
+  }
+}
+
+// Chapter summary operations
+const CHAPTER_SUMMARY_COLUMNS = `
+  book_id as bookId, toc_item_id as tocItemId, label, summary, provider, model, created_at as createdAt,
+  prompt_tokens as promptTokens, response_tokens as responseTokens
+`
+
+type ChapterSummaryRow = Omit<ChapterSummary, 'usage'> & {
+  promptTokens: number | null
+  responseTokens: number | null
+}
+
+const toChapterSummary = ({ promptTokens, responseTokens, ...row }: ChapterSummaryRow): ChapterSummary => ({
+  ...row,
+  usage: promptTokens !== null && responseTokens !== null ? { promptTokens, responseTokens } : undefined
+})
+
+export const getChapterSummaries = (bookId: string): ChapterSummary[] => {
+  if (!db) return []
+
+  const stmt = db.prepare(`
+    SELECT ${CHAPTER_SUMMARY_COLUMNS} FROM chapter_summaries WHERE book_id = ? ORDER BY created_at
+  `)
+
+  return (stmt.all(bookId) as ChapterSummaryRow[]).map(toChapterSummary)
+}
+
+export const getChapterSummary = (bookId: string, tocItemId: string): ChapterSummary | null => {
+  if (!db) return null
+
+  const stmt = db.prepare(`
+    SELECT ${CHAPTER_SUMMARY_COLUMNS} FROM chapter_summaries WHERE book_id = ? AND toc_item_id = ?
+  `)
+
+  const row = stmt.get(bookId, tocItemId) as ChapterSummaryRow | undefined
+  return row ? toChapterSummary(row) : null
+}
+
+export const saveChapterSummary = (summary: ChapterSummary): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO chapter_summaries (
+      book_id, toc_item_id, label, summary, provider, model, created_at, prompt_tokens, response_tokens
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+
+  const result = stmt.run(
+    summary.bookId,
+    summary.tocItemId,
+    summary.label,
+    summary.summary,
+    summary.provider,
+    summary.model,
+    summary.createdAt,
+    summary.usage?.promptTokens ?? null,
+    summary.usage?.responseTokens ?? null
+  )
+  recordChapterSummaryUsage(summary)
+  return result.changes > 0
+}
+
+export const deleteChapterSummary = (bookId: string, tocItemId: string): boolean => {
+  if (!db) return false
+
+  const stmt = db.prepare('DELETE FROM chapter_summaries WHERE book_id = ? AND toc_item_id = ?')
+  const result = stmt.run(bookId, tocItemId)
+  return result.changes > 0
+}
+
+// Usage operations
+
+// Model requests are logged with the book title and session label of the time, so the totals
+// keep them after the session or book is deleted
+const USAGE_RECORD_INSERT = `
+  INSERT INTO usage_records (
+    created_at, provider, model, prompt_tokens, response_tokens, book_id, book_title, session_id, session_label
+  )
+`
+
+const recordMessageUsage = (sessionId: string, createdAt: string, usage: MessageUsage) => {
+  db?.prepare(`
+    ${USAGE_RECORD_INSERT}
+    SELECT ?, ?, ?, ?, ?, s.book_id, b.title, s.id,
+      CASE WHEN s.type = 'book' THEN '책 전체 대화' ELSE substr(s.base_context, 1, 60) END
+    FROM chat_sessions s
+    JOIN books b ON b.id = s.book_id
+    WHERE s.id = ?
+  `).run(createdAt, usage.provider, usage.model, usage.promptTokens, usage.responseTokens, sessionId)
+}
+
+const recordChapterSummaryUsage = (summary: ChapterSummary) => {
+  if (!summary.usage) return
+  db?.prepare(`
+    ${USAGE_RECORD_INSERT}
+    SELECT ?, ?, ?, ?, ?, b.id, b.title, 'chapter-summaries:' || b.id, '챕터 요약'
+    FROM books b
+    WHERE b.id = ?
+  `).run(
+    summary.createdAt,
+    summary.provider,
+    summary.model,
+    summary.usage.promptTokens,
+    summary.usage.responseTokens,
+    summary.bookId
+  )
+}
+
+const USAGE_GROUP_COLUMNS: Record<UsageQuery['group'], { key: string; label: string }> = {
+  book: { key: 'book_id', label: 'book_title' },
+  session: { key: 'session_id', label: "book_title || ' · ' || session_label" },
+  day: { key: "date(created_at, 'localtime')", label: "date(created_at, 'localtime')" },
+  model: { key: "provider || ':' || model", label: 'model' }
+}
+
+// Token totals per group and model
+export const getUsageReport = (query: UsageQuery): UsageRow[] => {
+  if (!db) return []
+
+  const { key, label } = USAGE_GROUP_COLUMNS[query.group]
+  const stmt = db.prepare(`
+    SELECT ${key} as key, ${label} as label, provider, model,
+      count(*) as requests,
+      coalesce(sum(prompt_tokens), 0) as promptTokens,
+      coalesce(sum(response_tokens), 0) as responseTokens
+    FROM usage_records
+    WHERE created_at >= ?
+    GROUP BY 1, 2, provider, model
+    ORDER BY 1
+  `)
+
+  return stmt.all(query.from ?? '') as UsageRow[]
+}
+
 // Settings operations
+const getDefaultSettings = (): Settings => ({
+  theme: 'light',
+  answerLanguage: 'ko',
+  translationSource: 'auto',
+  translationTarget: 'ko',
+  provider: 'gemini',
+  providers: {
+    gemini: { ...DEFAULT_PROVIDER_CONFIGS.gemini },
+    openai: { ...DEFAULT_PROVIDER_CONFIGS.openai },
+    ollama: { ...DEFAULT_PROVIDER_CONFIGS.ollama }
+  },
+  generation: { ...DEFAULT_GENERATION_CONFIG, safety: { ...DEFAULT_GENERATION_CONFIG.safety } },
+  surroundingParagraphs: 2,
+  contextBudget: { ...DEFAULT_CONTEXT_BUDGET, modelBudgets: [] },
+  embedding: { provider: 'gemini', model: DEFAULT_EMBEDDING_MODELS.gemini },
+  usage: { ...DEFAULT_USAGE_SETTINGS, prices: [] }
+})
+
 export const getSettings = (): Settings => {
-  if (!db) return { theme: 'light', model: 'gemini-2.5-flash' }
+  if (!db) return getDefaultSettings()
   
   const stmt = db.prepare('SELECT key, value FROM settings')
   const rows = stmt.all() as { key: string; value: string }[]
+  const values = new Map(rows.map(row => [row.key, row.value]))
   
-  const settings: Settings = {
-    theme: 'light',
-    model: 'gemini-2.5-flash'
-  }
+  const settings = getDefaultSettings()
   
-  for (const row of rows) {
-    if (row.key === 'geminiApiKey') settings.geminiApiKey = row.value
-    if (row.key === 'theme') settings.theme = row.value as 'light' | 'dark'
-    if (row.key === 'model') settings.model = row.value
+  if (values.has('theme')) settings.theme = values.get('theme') as 'light' | 'dark'
+  if (values.has('provider')) settings.provider = values.get('provider') as LlmProviderId
+  if (values.has('answerLanguage')) settings.answerLanguage = values.get('answerLanguage')!
+  if (values.has('translationSource')) settings.translationSource = values.get('translationSource')!
+  if (values.has('translationTarget')) settings.translationTarget = values.get('translationTarget')!
+  if (values.has('surroundingParagraphs')) settings.surroundingParagraphs = Number(values.get('surroundingParagraphs'))
+
+  // Settings from before provider support only stored a Gemini model
+  if (values.has('model')) settings.providers.gemini.model = values.get('model')!
+
+  if (values.has('providers')) {
+    const stored = JSON.parse(values.get('providers')!) as Partial<Record<LlmProviderId, Partial<ProviderSettings>>>
+    for (const id of Object.keys(settings.providers) as LlmProviderId[]) {
+      settings.providers[id] = { ...settings.providers[id], ...stored[id] }
+    }
+  }
+
+  for (const id of Object.keys(settings.providers) as LlmProviderId[]) {
+    settings.providers[id].hasApiKey = values.has(getApiKeySettingKey(id))
+  }
+
+  if (values.has('contextBudget')) {
+    settings.contextBudget = {
+      ...settings.contextBudget,
+      ...JSON.parse(values.get('contextBudget')!) as Partial<ContextBudgetSettings>
+    }
+  }
+
+  if (values.has('embedding')) {
+    settings.embedding = { ...settings.embedding, ...JSON.parse(values.get('embedding')!) as Partial<EmbeddingSettings> }
+  }
+
+  if (values.has('usage')) {
+    settings.usage = { ...settings.usage, ...JSON.parse(values.get('usage')!) as Partial<UsageSettings> }
+  }
+
+  if (values.has('generation')) {
+    const stored = JSON.parse(values.get('generation')!) as Partial<GenerationConfig>
+    settings.generation = {
+      ...settings.generation,
+      ...stored,
+      safety: { ...settings.generation.safety, ...stored.safety }
+    }
   }
   
   return settings
@@ -286,18 +1273,48 @@ export const saveSetting = (key: string, value: string): boolean => {
   return result.changes > 0
 }
 
+const deleteSetting = (key: string): void => {
+  db?.prepare('DELETE FROM settings WHERE key = ?').run(key)
+}
+
 export const saveSettings = (settings: Partial<Settings>): boolean => {
   if (!db) return false
   
   const transaction = db.transaction(() => {
-    if (settings.geminiApiKey !== undefined) {
-      saveSetting('geminiApiKey', settings.geminiApiKey)
-    }
     if (settings.theme !== undefined) {
       saveSetting('theme', settings.theme)
     }
-    if (settings.model !== undefined) {
-      saveSetting('model', settings.model)
+    if (settings.provider !== undefined) {
+      saveSetting('provider', settings.provider)
+    }
+    for (const key of ['answerLanguage', 'translationSource', 'translationTarget'] as const) {
+      if (settings[key] !== undefined) {
+        saveSetting(key, settings[key])
+      }
+    }
+    if (settings.surroundingParagraphs !== undefined) {
+      saveSetting('surroundingParagraphs', String(settings.surroundingParagraphs))
+    }
+    if (settings.contextBudget !== undefined) {
+      saveSetting('contextBudget', JSON.stringify(settings.contextBudget))
+    }
+    if (settings.embedding !== undefined) {
+      saveSetting('embedding', JSON.stringify(settings.embedding))
+    }
+    if (settings.usage !== undefined) {
+      saveSetting('usage', JSON.stringify(settings.usage))
+    }
+    if (settings.generation !== undefined) {
+      saveSetting('generation', JSON.stringify(settings.generation))
+    }
+    if (settings.providers !== undefined) {
+      // Keys are only written through setApiKey
+      const providers = Object.fromEntries(
+        Object.entries(settings.providers).map(([id, { baseUrl, model }]) => [id, { baseUrl, model }])
+      )
+      saveSetting('providers', JSON.stringify(providers))
+      // Superseded by the Gemini entry in `providers`
+      deleteSetting('model')
     }
   })
   
@@ -309,6 +1326,125 @@ export const saveSettings = (settings: Partial<Settings>): boolean => {
   }
 }
 
+// API keys live in their own settings rows, encrypted, and are never sent to the renderer
+const getApiKeySettingKey = (provider: LlmProviderId) => `apiKey:${provider}`
+
+export const getApiKey = (provider: LlmProviderId): string | undefined => {
+  if (!db) return undefined
+
+  const row = db.prepare('SELECT value FROM settings WHERE key = ?')
+    .get(getApiKeySettingKey(provider)) as { value: string } | undefined
+  return row ? decryptSecret(row.value) : undefined
+}
+
+// An empty key removes the stored one
+export const setApiKey = (provider: LlmProviderId, apiKey: string | null): boolean => {
+  if (!db) return false
+
+  const trimmed = apiKey?.trim()
+  if (!trimmed) {
+    deleteSetting(getApiKeySettingKey(provider))
+    return true
+  }
+  return saveSetting(getApiKeySettingKey(provider), encryptSecret(trimmed))
+}
+
+// The stored key, if the base URL is the one it was saved with or the provider's default.
+// Other addresses never receive it, whatever the renderer asks for.
+export const getApiKeyForBaseUrl = (provider: LlmProviderId, baseUrl: string): string | undefined => {
+  const normalize = (url: string) => url.trim().replace(/\/+$/, '')
+  const savedUrls = [getSettings().providers[provider].baseUrl, DEFAULT_PROVIDER_CONFIGS[provider].baseUrl]
+  return savedUrls.some(url => normalize(url) === normalize(baseUrl)) ? getApiKey(provider) : undefined
+}
+
+// Full provider config for the main process, including the decrypted key
+export const getProviderConfig = (provider: LlmProviderId): ProviderConfig => {
+  const { baseUrl, model } = getSettings().providers[provider]
+  return { baseUrl, model, apiKey: getApiKey(provider) }
+}
+
+// Remove plain-text keys: `geminiApiKey` and `apiKey` entries in the `providers` JSON
+const removePlaintextApiKeys = (connection: Database.Database) => {
+  connection.prepare("DELETE FROM settings WHERE key = 'geminiApiKey'").run()
+
+  const providersRow = connection.prepare("SELECT value FROM settings WHERE key = 'providers'")
+    .get() as { value: string } | undefined
+  if (!providersRow) return
+
+  const stored = JSON.parse(providersRow.value) as Partial<Record<LlmProviderId, Partial<ProviderConfig>>>
+  for (const config of Object.values(stored)) {
+    delete config?.apiKey
+  }
+  connection.prepare("UPDATE settings SET value = ? WHERE key = 'providers'").run(JSON.stringify(stored))
+}
+
+// Backups taken before the keys were encrypted still hold them in plain text. The keys are
+// removed from each copy (restoring one means entering the keys again); a copy that can't be
+// cleaned is deleted.
+const scrubBackupApiKeys = () => {
+  const backupDir = path.join(app.getPath('userData'), 'backups')
+  if (!fs.existsSync(backupDir)) return
+
+  for (const name of fs.readdirSync(backupDir).filter(name => BACKUP_FILE_PATTERN.test(name))) {
+    const backupPath = path.join(backupDir, name)
+    try {
+      const backup = new Database(backupPath)
+      try {
+        // Rewrite the file in place instead of leaving a WAL next to it
+        backup.pragma('journal_mode = DELETE')
+        backup.pragma('secure_delete = ON')
+        removePlaintextApiKeys(backup)
+        backup.exec('VACUUM')
+      } finally {
+        backup.close()
+      }
+    } catch (err) {
+      console.error(`Failed to remove API keys from ${backupPath}, deleting it:`, err)
+      fs.rmSync(backupPath, { force: true })
+    }
+  }
+}
+
+// Older versions kept keys in plain text: `geminiApiKey`, then inside the `providers` JSON
+const migrateLegacyApiKeys = () => {
+  if (!db) return
+
+  const legacyKey = db.prepare("SELECT value FROM settings WHERE key = 'geminiApiKey'")
+    .get() as { value: string } | undefined
+  const providersRow = db.prepare("SELECT value FROM settings WHERE key = 'providers'")
+    .get() as { value: string } | undefined
+  if (!legacyKey && !providersRow?.value.includes('"apiKey"')) return
+
+  const transaction = db.transaction(() => {
+    if (legacyKey?.value) setApiKey('gemini', legacyKey.value)
+
+    if (providersRow) {
+      const stored = JSON.parse(providersRow.value) as Partial<Record<LlmProviderId, Partial<ProviderConfig>>>
+      for (const [id, config] of Object.entries(stored) as [LlmProviderId, Partial<ProviderConfig>][]) {
+        if (config.apiKey) setApiKey(id, config.apiKey)
+      }
+    }
+
+    removePlaintextApiKeys(db!)
+  })
+
+  // Deleted rows are overwritten, then free pages and the WAL are cleared, so the plain-text
+  // keys don't linger in the file
+  db.pragma('secure_delete = ON')
+  try {
+    transaction()
+    db.exec('VACUUM')
+    db.pragma('wal_checkpoint(TRUNCATE)')
+  } catch (err) {
+    console.error('Failed to migrate API keys:', err)
+    return
+  } finally {
+    db.pragma('secure_delete = OFF')
+  }
+
+  scrubBackupApiKeys()
+}
+
 // Close database
 export const closeDatabase = () => {
   if (db) {
@@ -0,0 +1,182 @@
+import JSZip from 'jszip'
+import { DOMParser } from '@xmldom/xmldom'
+import type { Element as XmlElement, Document as XmlDocument } from '@xmldom/xmldom'
+import path from 'path'
+import type { BookCreator } from '@shared/types'
+
+export interface EpubMetadata {
+  title?: string
+  author?: string
+  creators?: BookCreator[]
+  language?: string
+  publisher?: string
+  identifier?: string
+  isbn?: string
+  series?: string
+  seriesIndex?: number
+  cover?: {
+    data: Buffer
+    extension: string
+  }
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg'
+}
+
+export const parseXml = (xml: string, mimeType = 'application/xml'): XmlDocument => {
+  return new DOMParser().parseFromString(xml, mimeType)
+}
+
+// Elements by local name, regardless of namespace prefix (dc:, opf: or none)
+export const getElements = (parent: XmlDocument | XmlElement, localName: string): XmlElement[] => {
+  return Array.from(parent.getElementsByTagNameNS('*', localName))
+}
+
+const getText = (element?: XmlElement): string | undefined => {
+  const text = element?.textContent?.replace(/\s+/g, ' ').trim()
+  return text || undefined
+}
+
+// Attribute by local name, so both `opf:role` and `role` match
+const getAttribute = (element: XmlElement, localName: string): string | undefined => {
+  const attribute = Array.from(element.attributes).find(attr => (attr.localName || attr.name) === localName)
+  return attribute?.value || undefined
+}
+
+// EPUB3 refinements: <meta refines="#id" property="...">value</meta>
+const getRefinement = (metas: XmlElement[], id: string | undefined, property: string): string | undefined => {
+  if (!id) return undefined
+  const meta = metas.find(m => m.getAttribute('refines') === `#${id}` && m.getAttribute('property') === property)
+  return getText(meta)
+}
+
+const normalizeIsbn = (value: string): string | undefined => {
+  const digits = value.replace(/^urn:isbn:/i, '').replace(/^isbn:?/i, '').replace(/[\s-]/g, '')
+  return /^(\d{9}[\dXx]|\d{13})$/.test(digits) ? digits.toUpperCase() : undefined
+}
+
+// Resolve a manifest href against the OPF location inside the archive
+export const resolveHref = (opfPath: string, href: string): string => {
+  return path.posix.normalize(path.posix.join(path.posix.dirname(opfPath), decodeURIComponent(href)))
+}
+
+export const findOpfPath = async (zip: JSZip): Promise<string | undefined> => {
+  const container = await zip.file('META-INF/container.xml')?.async('string')
+  if (container) {
+    const rootfile = getElements(parseXml(container), 'rootfile')
+      .find(el => el.getAttribute('media-type') === 'application/oebps-package+xml') ??
+      getElements(parseXml(container), 'rootfile')[0]
+    const fullPath = rootfile?.getAttribute('full-path')
+    if (fullPath && zip.file(fullPath)) return fullPath
+  }
+
+  // Some archives ship without a usable container.xml
+  return Object.keys(zip.files).find(name => name.toLowerCase().endsWith('.opf'))
+}
+
+const parseCreators = (metadata: XmlElement, metas: XmlElement[]): BookCreator[] => {
+  return getElements(metadata, 'creator')
+    .map(element => {
+      const name = getText(element)
+      if (!name) return null
+      const role = getAttribute(element, 'role') ?? getRefinement(metas, element.getAttribute('id') ?? undefined, 'role')
+      return role ? { name, role } : { name }
+    })
+    .filter((creator): creator is BookCreator => creator !== null)
+}
+
+const parseSeries = (metas: XmlElement[]): { series?: string; seriesIndex?: number } => {
+  // EPUB3 collections
+  const collection = metas.find(m => m.getAttribute('property') === 'belongs-to-collection')
+  if (collection) {
+    const position = getRefinement(metas, collection.getAttribute('id') ?? undefined, 'group-position')
+    return {
+      series: getText(collection),
+      seriesIndex: position ? Number(position) || undefined : undefined
+    }
+  }
+
+  // Calibre's EPUB2 convention
+  const series = metas.find(m => m.getAttribute('name') === 'calibre:series')?.getAttribute('content')
+  const index = metas.find(m => m.getAttribute('name') === 'calibre:series_index')?.getAttribute('content')
+  return {
+    series: series || undefined,
+    seriesIndex: index ? Number(index) || undefined : undefined
+  }
+}
+
+const findCoverItem = (manifestItems: XmlElement[], metas: XmlElement[]): XmlElement | undefined => {
+  // EPUB3: properties="cover-image"
+  const epub3Cover = manifestItems.find(item => item.getAttribute('properties')?.split(/\s+/).includes('cover-image'))
+  if (epub3Cover) return epub3Cover
+
+  // EPUB2: <meta name="cover" content="item-id"/>
+  const coverId = metas.find(m => m.getAttribute('name') === 'cover')?.getAttribute('content')
+  const epub2Cover = coverId ? manifestItems.find(item => item.getAttribute('id') === coverId) : undefined
+  if (epub2Cover) return epub2Cover
+
+  // Last resort: an image whose id or href mentions "cover"
+  return manifestItems.find(item =>
+    item.getAttribute('media-type')?.startsWith('image/') &&
+    /cover/i.test(`${item.getAttribute('id')} ${item.getAttribute('href')}`)
+  )
+}
+
+// Parse the OPF package document of an EPUB archive
+export const parseEpubMetadata = async (data: Buffer): Promise<EpubMetadata> => {
+  const zip = await JSZip.loadAsync(data)
+  const opfPath = await findOpfPath(zip)
+  if (!opfPath) return {}
+
+  const opf = await zip.file(opfPath)?.async('string')
+  if (!opf) return {}
+
+  const doc = parseXml(opf)
+  const metadata = getElements(doc, 'metadata')[0]
+  if (!metadata) return {}
+
+  const metas = getElements(metadata, 'meta')
+  const creators = parseCreators(metadata, metas)
+  const authors = creators.filter(creator => !creator.role || creator.role === 'aut')
+
+  // The package's unique-identifier points at the primary dc:identifier
+  const identifiers = getElements(metadata, 'identifier')
+  const uniqueId = getElements(doc, 'package')[0]?.getAttribute('unique-identifier')
+  const primaryIdentifier = identifiers.find(el => el.getAttribute('id') === uniqueId) ?? identifiers[0]
+  const isbn = identifiers
+    .filter(el => getAttribute(el, 'scheme')?.toUpperCase() === 'ISBN' || /isbn/i.test(getText(el) ?? ''))
+    .concat(identifiers)
+    .map(el => normalizeIsbn(getText(el) ?? ''))
+    .find(Boolean)
+
+  const manifestItems = getElements(doc, 'item')
+  const coverItem = findCoverItem(manifestItems, metas)
+  let cover: EpubMetadata['cover']
+  if (coverItem?.getAttribute('href')) {
+    const coverFile = zip.file(resolveHref(opfPath, coverItem.getAttribute('href')!))
+    const mediaType = coverItem.getAttribute('media-type') ?? ''
+    if (coverFile) {
+      cover = {
+        data: await coverFile.async('nodebuffer'),
+        extension: IMAGE_EXTENSIONS[mediaType] ?? (path.extname(coverFile.name) || '.jpg')
+      }
+    }
+  }
+
+  return {
+    title: getText(getElements(metadata, 'title')[0]),
+    author: authors.length > 0 ? authors.map(creator => creator.name).join(', ') : undefined,
+    creators: creators.length > 0 ? creators : undefined,
+    language: getText(getElements(metadata, 'language')[0]),
+    publisher: getText(getElements(metadata, 'publisher')[0]),
+    identifier: getText(primaryIdentifier),
+    isbn,
+    ...parseSeries(metas),
+    cover
+  }
+}
@@ -1,7 +1,22 @@
 import { app, dialog } from 'electron'
-import { promises as fs } from 'fs'
+import { promises as fs, createReadStream } from 'fs'
+import crypto from 'crypto'
 import path from 'path'
 import { v4 as uuidv4 } from 'uuid'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { parseEpubMetadata } from './epubMetadata'
+import type { BookCreator } from '@shared/types'
+
+// Width of generated cover thumbnails, in pixels
+const COVER_WIDTH = 400
+
+// Canvas factory pdf.js sets up in Node (backed by the native `canvas` module)
+interface PdfCanvasFactory {
+  create: (width: number, height: number) => {
+    canvas: { toBuffer: (mimeType: 'image/png') => Buffer }
+    context: CanvasRenderingContext2D
+  }
+}
 
 // Get app data directory
 const getAppDataPath = () => {
@@ -27,12 +42,37 @@ export interface ImportedBook {
   coverPath?: string
   fileType: 'pdf' | 'epub'
   totalPages?: number
+  creators?: BookCreator[]
+  language?: string
+  publisher?: string
+  identifier?: string
+  isbn?: string
+  series?: string
+  seriesIndex?: number
+  fileHash: string
   createdAt: string
   updatedAt: string
 }
 
+type BookMetadata = Partial<Pick<
+  ImportedBook,
+  | 'title'
+  | 'author'
+  | 'coverPath'
+  | 'totalPages'
+  | 'creators'
+  | 'language'
+  | 'publisher'
+  | 'identifier'
+  | 'isbn'
+  | 'series'
+  | 'seriesIndex'
+>>
+
+const BOOK_EXTENSIONS = ['.pdf', '.epub']
+
 // Open file dialog
-export const openFileDialog = async (): Promise<string | null> => {
+export const openFileDialog = async (): Promise<string[] | null> => {
   const result = await dialog.showOpenDialog({
     properties: ['openFile', 'multiSelections'],
     filters: [
@@ -46,11 +86,58 @@ export const openFileDialog = async (): Promise<string | null> => {
     return null
   }
 
-  return result.filePaths[0]
+  return result.filePaths
+}
+
+// Open folder dialog (folders are scanned for books on import)
+export const openFolderDialog = async (): Promise<string[] | null> => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openDirectory', 'multiSelections']
+  })
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return null
+  }
+
+  return result.filePaths
+}
+
+// Expand folders into the PDF/EPUB files they contain, recursively
+export const collectBookFiles = async (paths: string[]): Promise<string[]> => {
+  const files: string[] = []
+
+  for (const entryPath of paths) {
+    const stat = await fs.stat(entryPath).catch(() => null)
+    if (!stat) continue
+
+    if (stat.isDirectory()) {
+      const entries = await fs.readdir(entryPath)
+      const children = entries
+        .filter(name => !name.startsWith('.'))
+        .sort((a, b) => a.localeCompare(b))
+        .map(name => path.join(entryPath, name))
+      files.push(...await collectBookFiles(children))
+    } else if (BOOK_EXTENSIONS.includes(path.extname(entryPath).toLowerCase())) {
+      files.push(entryPath)
+    }
+  }
+
+  return [...new Set(files)]
+}
+
+// SHA-256 of a file's content, streamed so large books are not read into memory at once
+export const hashFile = (filePath: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256')
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject)
+  })
 }
 
 // Import a file
-export const importFile = async (sourcePath: string): Promise<ImportedBook> => {
+export const importFile = async (sourcePath: string, fileHash?: string): Promise<ImportedBook> => {
   const booksPath = await ensureBooksDirectory()
   const bookId = uuidv4()
   const bookDir = path.join(booksPath, bookId)
@@ -72,33 +159,62 @@ export const importFile = async (sourcePath: string): Promise<ImportedBook> => {
   const now = new Date().toISOString()
 
   return {
+    ...metadata,
     id: bookId,
+    fileHash: fileHash ?? await hashFile(destPath),
     title: metadata.title || path.basename(sourcePath, path.extname(sourcePath)),
     author: metadata.author || 'Unknown Author',
     filePath: destPath,
-    coverPath: metadata.coverPath,
     fileType: ext,
-    totalPages: metadata.totalPages,
     createdAt: now,
     updatedAt: now
   }
 }
 
+// Replace a book's file in its existing directory; the book keeps its id
+export const replaceBookFile = async (
+  currentPath: string,
+  sourcePath: string,
+  fileHash?: string
+): Promise<{ filePath: string; fileHash: string; coverPath?: string; totalPages?: number }> => {
+  const ext = path.extname(sourcePath).toLowerCase().slice(1) as 'pdf' | 'epub'
+  const destPath = path.join(path.dirname(currentPath), path.basename(sourcePath))
+
+  await fs.copyFile(sourcePath, destPath)
+  if (destPath !== currentPath) {
+    await fs.rm(currentPath, { force: true })
+  }
+
+  const metadata = await extractMetadata(destPath, ext)
+
+  return {
+    filePath: destPath,
+    fileHash: fileHash ?? await hashFile(destPath),
+    coverPath: metadata.coverPath,
+    totalPages: metadata.totalPages
+  }
+}
+
+// Save a captured page region as a PNG in the book's directory, so it goes with the book on delete
+export const saveRegionImage = async (bookFilePath: string, png: Uint8Array): Promise<string> => {
+  const capturesDir = path.join(path.dirname(bookFilePath), 'captures')
+  await fs.mkdir(capturesDir, { recursive: true })
+
+  const imagePath = path.join(capturesDir, `${uuidv4()}.png`)
+  await fs.writeFile(imagePath, png)
+  return imagePath
+}
+
 // Extract metadata from PDF or EPUB
 const extractMetadata = async (
   filePath: string, 
   fileType: 'pdf' | 'epub'
-): Promise<{
-  title?: string
-  author?: string
-  coverPath?: string
-  totalPages?: number
-}> => {
+): Promise<BookMetadata> => {
   try {
     if (fileType === 'pdf') {
-      return extractPdfMetadata(filePath)
+      return await extractPdfMetadata(filePath)
     } else {
-      return extractEpubMetadata(filePath)
+      return await extractEpubMetadata(filePath)
     }
   } catch (err) {
     console.error('Failed to extract metadata:', err)
@@ -106,36 +222,84 @@ const extractMetadata = async (
   }
 }
 
-// Extract PDF metadata (basic implementation)
-const extractPdfMetadata = async (filePath: string): Promise<{
-  title?: string
-  author?: string
-  totalPages?: number
-}> => {
-  // For now, return basic info
-  // Full implementation would use pdf-parse or similar
-  const fileName = path.basename(filePath, '.pdf')
-  return {
-    title: fileName,
-    author: undefined,
-    totalPages: undefined
+// pdf.js is ESM-only, so it is loaded lazily from the CommonJS main bundle
+const loadPdfjs = () => import('pdfjs-dist/legacy/build/pdf.mjs')
+
+const getStandardFontDataUrl = () => {
+  return path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep
+}
+
+// Metadata values can be strings or lists (e.g. several dc:creator entries)
+const toMetadataText = (value: unknown): string | undefined => {
+  const text = Array.isArray(value) ? value.filter(Boolean).join(', ') : value
+  return typeof text === 'string' && text.trim() ? text.trim() : undefined
+}
+
+// Render the first page to a PNG next to the book file
+const renderPdfCover = async (pdf: PDFDocumentProxy, outputPath: string): Promise<string | undefined> => {
+  try {
+    const page = await pdf.getPage(1)
+    const viewport = page.getViewport({ scale: COVER_WIDTH / page.getViewport({ scale: 1 }).width })
+    const canvasFactory = pdf.canvasFactory as PdfCanvasFactory
+    const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height))
+
+    await page.render({ canvasContext: context, viewport }).promise
+    await fs.writeFile(outputPath, canvas.toBuffer('image/png'))
+    page.cleanup()
+    return outputPath
+  } catch (err) {
+    // Rendering needs the native canvas module; the book still imports without a cover
+    console.error('Failed to render PDF cover:', err)
+    return undefined
   }
 }
 
-// Extract EPUB metadata (basic implementation)
-const extractEpubMetadata = async (filePath: string): Promise<{
-  title?: string
-  author?: string
-  coverPath?: string
-}> => {
-  // For now, return basic info
-  // Full implementation would parse the EPUB's OPF file
-  const fileName = path.basename(filePath, '.epub')
-  return {
-    title: fileName,
-    author: undefined,
-    coverPath: undefined
+// Open a PDF with pdf.js; callers must destroy() it when done
+export const openPdfDocument = async (filePath: string): Promise<PDFDocumentProxy> => {
+  const pdfjs = await loadPdfjs()
+  const data = new Uint8Array(await fs.readFile(filePath))
+  return pdfjs.getDocument({
+    data,
+    standardFontDataUrl: getStandardFontDataUrl(),
+    isEvalSupported: false
+  }).promise
+}
+
+// Extract PDF metadata from the info dictionary / XMP and render a cover
+const extractPdfMetadata = async (filePath: string): Promise<BookMetadata> => {
+  const pdf = await openPdfDocument(filePath)
+
+  try {
+    const { info, metadata } = await pdf.getMetadata()
+    const documentInfo = info as { Title?: unknown; Author?: unknown }
+
+    // XMP is preferred when present; many producers leave the info dictionary stale
+    const title = toMetadataText(metadata?.get('dc:title')) ?? toMetadataText(documentInfo.Title)
+    const author = toMetadataText(metadata?.get('dc:creator')) ?? toMetadataText(documentInfo.Author)
+    const coverPath = await renderPdfCover(pdf, path.join(path.dirname(filePath), 'cover.png'))
+
+    return {
+      title,
+      author,
+      coverPath,
+      totalPages: pdf.numPages
+    }
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+// Extract EPUB metadata from the OPF package document and save the cover
+const extractEpubMetadata = async (filePath: string): Promise<BookMetadata> => {
+  const { cover, ...metadata } = await parseEpubMetadata(await fs.readFile(filePath))
+
+  let coverPath: string | undefined
+  if (cover) {
+    coverPath = path.join(path.dirname(filePath), `cover${cover.extension}`)
+    await fs.writeFile(coverPath, cover.data)
   }
+
+  return { ...metadata, coverPath }
 }
 
 // Delete a book
@@ -0,0 +1,113 @@
+import { importFile, collectBookFiles, hashFile, replaceBookFile } from './fileService'
+import { getBooks, getBook, getBookByHash, insertBook, updateBookHash, updateBookFile } from './database'
+import type { Book, DuplicateResolution, ImportProgress, ImportSummary } from '@shared/types'
+
+// Running batch imports, by import id
+const activeImports = new Map<string, AbortController>()
+
+// Hashing of books imported before hashes were stored; runs once per app start
+let hashingExistingBooks: Promise<void> | undefined
+
+export const hashExistingBooks = (): Promise<void> => {
+  hashingExistingBooks ??= (async () => {
+    for (const book of getBooks()) {
+      if (book.fileHash) continue
+      try {
+        updateBookHash(book.id, await hashFile(book.filePath))
+      } catch (err) {
+        console.error(`Failed to hash ${book.filePath}:`, err)
+      }
+    }
+  })()
+  return hashingExistingBooks
+}
+
+// Import files and folders one at a time, reporting each file as it is processed
+export const importBooks = async (
+  importId: string,
+  paths: string[],
+  onProgress: (progress: ImportProgress) => void
+): Promise<ImportSummary> => {
+  const controller = new AbortController()
+  activeImports.set(importId, controller)
+
+  const summary: ImportSummary = {
+    importId,
+    imported: [],
+    failed: [],
+    duplicates: [],
+    cancelled: false
+  }
+
+  try {
+    const files = await collectBookFiles(paths)
+    await hashExistingBooks()
+
+    for (const [index, filePath] of files.entries()) {
+      // Cancelling lets the current file finish and stops before the next one
+      if (controller.signal.aborted) {
+        summary.cancelled = true
+        break
+      }
+
+      const report = (update: Omit<ImportProgress, 'importId' | 'filePath' | 'index' | 'total'>) => {
+        onProgress({ importId, filePath, index, total: files.length, ...update })
+      }
+
+      report({ status: 'importing' })
+
+      try {
+        // Identical content is left to the user to resolve from the summary
+        const fileHash = await hashFile(filePath)
+        const existing = getBookByHash(fileHash)
+        if (existing) {
+          summary.duplicates.push({ filePath, book: existing })
+          report({ status: 'duplicate', book: existing })
+          continue
+        }
+
+        const imported = await importFile(filePath, fileHash)
+        const book = { ...imported, lastPage: 1 }
+        insertBook(book)
+        summary.imported.push(book)
+        report({ status: 'imported', book })
+      } catch (error) {
+        console.error('Import error:', error)
+        summary.failed.push({ filePath, error: String(error) })
+        report({ status: 'failed', error: String(error) })
+      }
+    }
+  } finally {
+    activeImports.delete(importId)
+  }
+
+  return summary
+}
+
+export const cancelImport = (importId: string): boolean => {
+  const controller = activeImports.get(importId)
+  if (!controller) return false
+  controller.abort()
+  return true
+}
+
+// Apply the user's choice for a duplicate: replace the existing book's file or import a separate copy
+export const resolveDuplicate = async (
+  filePath: string,
+  bookId: string,
+  resolution: DuplicateResolution
+): Promise<Book | null> => {
+  if (resolution === 'copy') {
+    const imported = await importFile(filePath)
+    const book = { ...imported, lastPage: 1 }
+    insertBook(book)
+    return book
+  }
+
+  const book = getBook(bookId)
+  if (!book) return null
+
+  const file = await replaceBookFile(book.filePath, filePath)
+  updateBookFile(book.id, file)
+  return getBook(book.id)
+}
@@ -0,0 +1,214 @@
+import type { ProviderConfig, ModelInfo, TokenUsage } from '@shared/types'
+import type { LlmProvider, LlmRequest } from './types'
+import { joinUrl, getResponseError, readLines, getSseData, createLlmError } from './http'
+
+interface GeminiMessage {
+  role: 'user' | 'model'
+  parts: ({ text: string } | { inlineData: { mimeType: string; data: string } })[]
+}
+
+interface GeminiResponse {
+  candidates?: {
+    content?: {
+      parts?: { text?: string }[]
+    }
+    finishReason?: string
+  }[]
+  promptFeedback?: { blockReason?: string }
+  usageMetadata?: {
+    promptTokenCount?: number
+    candidatesTokenCount?: number
+    thoughtsTokenCount?: number
+  }
+}
+
+interface GeminiModelsResponse {
+  models?: {
+    name: string
+    displayName?: string
+    inputTokenLimit?: number
+    outputTokenLimit?: number
+    supportedGenerationMethods?: string[]
+  }[]
+  nextPageToken?: string
+}
+
+interface GeminiEmbedResponse {
+  embeddings?: { values: number[] }[]
+}
+
+const buildRequestBody = (request: LlmRequest): string => {
+  const contents: GeminiMessage[] = request.messages.map(message => ({
+    role: message.role === 'user' ? 'user' : 'model',
+    parts: [
+      ...(message.images ?? []).map(image => ({ inlineData: image })),
+      { text: message.content }
+    ]
+  }))
+
+  return JSON.stringify({
+    contents,
+    generationConfig: {
+      temperature: request.generation.temperature,
+      topK: request.generation.topK,
+      topP: request.generation.topP,
+      maxOutputTokens: request.generation.maxOutputTokens
+    },
+    safetySettings: Object.entries(request.generation.safety).map(([category, threshold]) => ({
+      category,
+      threshold
+    }))
+  })
+}
+
+const getCandidateText = (data: GeminiResponse): string => {
+  return data.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('') ?? ''
+}
+
+// Finish reasons that mean the answer was withheld rather than completed
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION']
+
+const SAFETY_HINT = '설정의 안전 필터 수준을 조정하거나 질문을 바꿔보세요.'
+
+// A blocked prompt comes back without candidates; a blocked answer as a candidate without content
+const checkBlocked = (data: GeminiResponse): void => {
+  const blockReason = data.promptFeedback?.blockReason
+  if (blockReason) {
+    throw createLlmError('safety', `질문이 Gemini 안전 필터에 의해 차단되었습니다. (${blockReason}) ${SAFETY_HINT}`)
+  }
+  const finishReason = data.candidates?.[0]?.finishReason
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw createLlmError('safety', `답변이 Gemini 안전 필터에 의해 차단되었습니다. (${finishReason}) ${SAFETY_HINT}`)
+  }
+}
+
+// Thinking tokens are billed as output
+const getUsage = (data: GeminiResponse): TokenUsage | undefined => {
+  const usage = data.usageMetadata
+  if (usage?.promptTokenCount === undefined) return undefined
+  return {
+    promptTokens: usage.promptTokenCount,
+    responseTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0)
+  }
+}
+
+// Google Gemini (generateContent / streamGenerateContent)
+export const createGeminiProvider = (config: ProviderConfig): LlmProvider => {
+  // The key goes in a header rather than the query string so it never shows up in logged URLs
+  const getHeaders = (): Record<string, string> => {
+    if (!config.apiKey) {
+      throw new Error('Gemini API 키가 설정되지 않았습니다. 설정에서 API 키를 입력해주세요.')
+    }
+    return { 'Content-Type': 'application/json', 'x-goog-api-key': config.apiKey }
+  }
+
+  const getUrl = (method: string, query = '') => {
+    return joinUrl(config.baseUrl, `models/${config.model}:${method}${query ? `?${query}` : ''}`)
+  }
+
+  return {
+    id: 'gemini',
+    config,
+
+    generate: async (request) => {
+      const response = await fetch(getUrl('generateContent'), {
+        method: 'POST',
+        headers: getHeaders(),
+        body: buildRequestBody(request),
+        signal: request.signal
+      })
+
+      if (!response.ok) {
+        throw await getResponseError(response, 'Gemini')
+      }
+
+      const data = await response.json() as GeminiResponse
+      checkBlocked(data)
+      if (!data.candidates || data.candidates.length === 0) {
+        throw new Error('응답을 생성할 수 없습니다.')
+      }
+
+      return { text: getCandidateText(data), usage: getUsage(data) }
+    },
+
+    stream: async (request, onChunk) => {
+      const response = await fetch(getUrl('streamGenerateContent', 'alt=sse'), {
+        method: 'POST',
+        headers: getHeaders(),
+        body: buildRequestBody(request),
+        signal: request.signal
+      })
+
+      if (!response.ok) {
+        throw await getResponseError(response, 'Gemini')
+      }
+
+      let text = ''
+      let usage: TokenUsage | undefined
+      await readLines(response, (line) => {
+        request.onActivity?.()
+        const data = getSseData(line)
+        if (!data) return
+        const parsed = JSON.parse(data) as GeminiResponse
+        checkBlocked(parsed)
+        // Every chunk carries the running totals; the last one has the final counts
+        usage = getUsage(parsed) ?? usage
+        const chunk = getCandidateText(parsed)
+        if (chunk) {
+          text += chunk
+          onChunk(chunk)
+        }
+      })
+
+      return { text, usage }
+    },
+
+    listModels: async (signal) => {
+      const models: ModelInfo[] = []
+      let pageToken = ''
+
+      do {
+        const query = `pageSize=1000${pageToken ? `&pageToken=${pageToken}` : ''}`
+        const response = await fetch(joinUrl(config.baseUrl, `models?${query}`), { headers: getHeaders(), signal })
+        if (!response.ok) {
+          throw await getResponseError(response, 'Gemini')
+        }
+
+        const data = await response.json() as GeminiModelsResponse
+        for (const model of data.models ?? []) {
+          // Embedding and other non-chat models can't answer questions
+          if (!model.supportedGenerationMethods?.includes('generateContent')) continue
+          models.push({
+            id: model.name.replace(/^models\//, ''),
+            displayName: model.displayName,
+            contextWindow: model.inputTokenLimit,
+            outputTokenLimit: model.outputTokenLimit
+          })
+        }
+        pageToken = data.nextPageToken ?? ''
+      } while (pageToken)
+
+      return models
+    },
+
+    embed: async (texts, signal) => {
+      const response = await fetch(getUrl('batchEmbedContents'), {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({
+          requests: texts.map(text => ({
+            model: `models/${config.model}`,
+            content: { parts: [{ text }] }
+          }))
+        }),
+        signal
+      })
+      if (!response.ok) {
+        throw await getResponseError(response, 'Gemini')
+      }
+
+      const data = await response.json() as GeminiEmbedResponse
+      return (data.embeddings ?? []).map(embedding => embedding.values)
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getResponseError, getSseData, readLines } from './http'
+
+// A response whose body arrives in the given pieces, as a network read would split it
+const streamedResponse = (pieces: string[]): Response => {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start: (controller) => {
+      for (const piece of pieces) controller.enqueue(encoder.encode(piece))
+      controller.close()
+    }
+  })
+  return new Response(body)
+}
+
+const collectLines = async (pieces: string[]): Promise<string[]> => {
+  const lines: string[] = []
+  await readLines(streamedResponse(pieces), line => lines.push(line))
+  return lines
+}
+
+describe('readLines', () => {
+  it('joins lines split across reads and skips blank ones', async () => {
+    expect(await collectLines(['data: {"a"', ':1}\n\ndata: ', '{"b":2}\n\n'])).toEqual([
+      'data: {"a":1}',
+      'data: {"b":2}'
+    ])
+  })
+
+  it('accepts CRLF line ends and a last line without one', async () => {
+    expect(await collectLines(['{"x":1}\r\n{"y"', ':2}'])).toEqual(['{"x":1}', '{"y":2}'])
+  })
+
+  it('decodes multi-byte characters split between reads', async () => {
+    const bytes = new TextEncoder().encode('data: 한글\n')
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        controller.enqueue(bytes.slice(0, 8))
+        controller.enqueue(bytes.slice(8))
+        controller.close()
+      }
+    })
+    const lines: string[] = []
+    await readLines(new Response(body), line => lines.push(line))
+    expect(lines).toEqual(['data: 한글'])
+  })
+})
+
+describe('getSseData', () => {
+  it('returns the payload of data lines', () => {
+    expect(getSseData('data: {"a":1}')).toBe('{"a":1}')
+    expect(getSseData('data:{"a":1}')).toBe('{"a":1}')
+  })
+
+  it('ignores comments, other fields and the [DONE] marker', () => {
+    expect(getSseData(': keep-alive')).toBeNull()
+    expect(getSseData('event: ping')).toBeNull()
+    expect(getSseData('data: [DONE]')).toBeNull()
+    expect(getSseData('data:')).toBeNull()
+  })
+})
+
+describe('getResponseError', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  const errorResponse = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+    return new Response(JSON.stringify(body), { status, headers })
+  }
+
+  it('marks rate limits retryable with the Retry-After wait', async () => {
+    const error = await getResponseError(
+      errorResponse(429, { error: { message: 'Too many requests' } }, { 'retry-after': '7' }),
+      'OpenAI'
+    )
+    expect(error.category).toBe('rate-limit')
+    expect(error.retryable).toBe(true)
+    expect(error.retryAfterMs).toBe(7000)
+  })
+
+  it('reads the wait from Gemini RetryInfo details', async () => {
+    const error = await getResponseError(
+      errorResponse(503, { error: { message: 'Overloaded', details: [{ retryDelay: '2.5s' }] } }),
+      'Gemini'
+    )
+    expect(error.category).toBe('server')
+    expect(error.retryAfterMs).toBe(2500)
+  })
+
+  it('does not retry exhausted quotas or invalid keys', async () => {
+    const quota = await getResponseError(errorResponse(429, { error: { code: 'insufficient_quota' } }), 'OpenAI')
+    expect(quota.category).toBe('quota')
+    expect(quota.retryable).toBe(false)
+
+    const key = await getResponseError(errorResponse(400, { error: { message: 'API key not valid' } }), 'Gemini')
+    expect(key.category).toBe('invalid-key')
+    expect(key.retryable).toBe(false)
+  })
+})
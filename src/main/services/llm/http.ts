@@ -0,0 +1,154 @@
+import type { LlmErrorCategory } from '@shared/types'
+
+// Helpers shared by the HTTP-based providers
+
+export const joinUrl = (baseUrl: string, path: string): string => {
+  return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`
+}
+
+// An Error tagged with why it happened. `retryable` failures may succeed when sent again,
+// after `retryAfterMs` when the server said how long to wait.
+export type LlmError = Error & {
+  category: LlmErrorCategory
+  retryable?: boolean
+  retryAfterMs?: number
+}
+
+export const createLlmError = (
+  category: LlmErrorCategory,
+  message: string,
+  options: { retryable?: boolean; retryAfterMs?: number } = {}
+): LlmError => {
+  return Object.assign(new Error(message), { category, ...options })
+}
+
+export const isLlmError = (error: unknown): error is LlmError => {
+  return error instanceof Error && 'category' in error
+}
+
+export const getErrorCategory = (error: unknown): LlmErrorCategory => {
+  return isLlmError(error) ? error.category : 'other'
+}
+
+const STATUS_MESSAGES: Record<number, string> = {
+  401: 'API 키가 올바르지 않습니다.',
+  403: 'API 키에 이 요청에 대한 권한이 없습니다.',
+  404: '요청한 주소나 모델을 찾을 수 없습니다. Base URL과 모델 이름을 확인해주세요.'
+}
+
+const CATEGORY_MESSAGES: Partial<Record<LlmErrorCategory, string>> = {
+  'invalid-key': 'API 키가 올바르지 않습니다. 설정에서 API 키를 확인해주세요.',
+  quota: 'API 사용 한도를 모두 썼습니다. 요금제나 할당량을 확인해주세요.',
+  'rate-limit': '요청이 너무 많아 제공자가 요청을 제한하고 있습니다. 잠시 후 다시 시도해주세요.',
+  'context-too-long': '보낸 내용이 모델의 입력 한도를 넘었습니다. 설정에서 입력 토큰 한도를 줄이거나 새 대화를 시작해주세요.',
+  server: '제공자 서버에 일시적인 문제가 있습니다. 잠시 후 다시 시도해주세요.'
+}
+
+// Gemini reports an invalid key as a 400; context overflows come back as 400s worded differently everywhere
+const INVALID_KEY_PATTERN = /api[ _]?key (not valid|invalid)|invalid api[ _]?key|API_KEY_INVALID/i
+const CONTEXT_TOO_LONG_PATTERN = /context[ _]length|maximum context|too many tokens|exceeds the maximum number of tokens|prompt is too long/i
+// Daily and billing quotas won't clear by waiting a few seconds, unlike per-minute rate limits.
+// Gemini names the exhausted quota (…PerDay…) in the error details; OpenAI uses a code.
+const QUOTA_PATTERN = /insufficient_quota|PerDay|per day/i
+
+const classifyResponse = (status: number, message: string, body: string): LlmErrorCategory => {
+  if (status === 401 || status === 403 || INVALID_KEY_PATTERN.test(body)) return 'invalid-key'
+  if (status === 429) return QUOTA_PATTERN.test(body) ? 'quota' : 'rate-limit'
+  if (CONTEXT_TOO_LONG_PATTERN.test(message)) return 'context-too-long'
+  if (status === 408) return 'timeout'
+  if (status >= 500) return 'server'
+  return 'other'
+}
+
+// Retry-After in seconds or as an HTTP date, or Gemini's RetryInfo detail ('37s')
+const getRetryAfterMs = (response: Response, data: unknown): number | undefined => {
+  const header = response.headers.get('retry-after')
+  if (header) {
+    const seconds = Number(header)
+    if (!Number.isNaN(seconds)) return seconds * 1000
+    const date = Date.parse(header)
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+  }
+
+  const details = (data as { error?: { details?: { retryDelay?: unknown }[] } } | null)?.error?.details
+  const delay = details?.find(detail => typeof detail?.retryDelay === 'string')?.retryDelay as string | undefined
+  const seconds = delay ? parseFloat(delay) : NaN
+  return Number.isNaN(seconds) ? undefined : seconds * 1000
+}
+
+// Pull a readable message out of an error response; providers disagree on the shape
+export const getResponseError = async (response: Response, providerName: string): Promise<LlmError> => {
+  const body = await response.text().catch(() => '')
+  let message = ''
+  let data: unknown = null
+
+  try {
+    data = JSON.parse(body)
+    const error = (data as { error?: string | { message?: string } }).error
+    message = typeof error === 'string' ? error : error?.message ?? ''
+  } catch {
+    message = body.slice(0, 200)
+  }
+
+  console.error(`${providerName} API error:`, response.status, body)
+  const category = classifyResponse(response.status, message, body)
+  const retryable = category === 'rate-limit' || category === 'server' || category === 'timeout'
+  const options = { retryable, retryAfterMs: retryable ? getRetryAfterMs(response, data) : undefined }
+
+  const reason = STATUS_MESSAGES[response.status] ?? CATEGORY_MESSAGES[category]
+  if (reason) {
+    return createLlmError(category, message ? `${reason} (${message})` : reason, options)
+  }
+  return createLlmError(category, message || `${providerName} API 요청에 실패했습니다. (HTTP ${response.status})`, options)
+}
+
+// Explain failures that happen before any HTTP response (refused connection, bad host, timeout)
+export const describeRequestError = (error: unknown, baseUrl: string): string => {
+  if (!(error instanceof Error)) return '알 수 없는 오류가 발생했습니다.'
+
+  if (error.name === 'TimeoutError') {
+    return `서버가 응답하지 않습니다. (${baseUrl})`
+  }
+  // undici reports network failures as a TypeError('fetch failed') with the system error as cause
+  if (error instanceof TypeError && error.message === 'fetch failed') {
+    const code = (error as { cause?: { code?: string } }).cause?.code
+    if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') {
+      return `서버 주소를 찾을 수 없습니다. Base URL을 확인해주세요. (${baseUrl})`
+    }
+    return `서버에 연결할 수 없습니다. 서버가 실행 중인지, Base URL이 맞는지 확인해주세요. (${baseUrl})`
+  }
+  return error.message
+}
+
+// Read a streamed response body line by line (SSE `data:` lines and NDJSON both fit this)
+export const readLines = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+  if (!response.body) {
+    throw new Error('응답을 생성할 수 없습니다.')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split(/\r?\n/)
+    buffer = lines.pop() ?? ''
+
+    for (const line of lines) {
+      if (line.trim()) onLine(line)
+    }
+  }
+
+  if (buffer.trim()) onLine(buffer)
+}
+
+// Payload of an SSE `data:` line, or null for comments, other fields and the OpenAI `[DONE]` marker
+export const getSseData = (line: string): string | null => {
+  if (!line.startsWith('data:')) return null
+  const data = line.slice(5).trim()
+  return data && data !== '[DONE]' ? data : null
+}
@@ -0,0 +1,48 @@
+import type { LlmProviderId, ProviderConfig, ModelInfo } from '@shared/types'
+import type { LlmProvider } from './types'
+import { describeRequestError } from './http'
+import { createGeminiProvider } from './gemini'
+import { createOpenAIProvider } from './openai'
+import { createOllamaProvider } from './ollama'
+import { withRequestPolicy } from './retry'
+
+export type { LlmProvider, LlmMessage, LlmImage, LlmRequest, LlmResponse } from './types'
+export { embedLocally } from './localEmbedding'
+export { getErrorCategory } from './http'
+
+const PROVIDER_FACTORIES: Record<LlmProviderId, (config: ProviderConfig) => LlmProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  ollama: createOllamaProvider
+}
+
+export const createProvider = (id: LlmProviderId, config: ProviderConfig): LlmProvider => {
+  const factory = PROVIDER_FACTORIES[id]
+  if (!factory) {
+    throw new Error(`지원하지 않는 AI 제공자입니다: ${id}`)
+  }
+  if (!config.model) {
+    throw new Error('모델이 설정되지 않았습니다. 설정에서 모델을 입력해주세요.')
+  }
+  return withRequestPolicy(factory(config))
+}
+
+const CONNECTION_TEST_TIMEOUT_MS = 15000
+
+// List the provider's models to check the URL and key; errors carry a user-facing reason
+export const testConnection = async (id: LlmProviderId, config: ProviderConfig): Promise<ModelInfo[]> => {
+  const factory = PROVIDER_FACTORIES[id]
+  if (!factory) {
+    throw new Error(`지원하지 않는 AI 제공자입니다: ${id}`)
+  }
+  if (!/^https?:\/\//i.test(config.baseUrl)) {
+    throw new Error('Base URL은 http:// 또는 https://로 시작해야 합니다.')
+  }
+
+  try {
+    const models = await factory(config).listModels(AbortSignal.timeout(CONNECTION_TEST_TIMEOUT_MS))
+    return models.sort((a, b) => a.id.localeCompare(b.id))
+  } catch (error) {
+    throw new Error(describeRequestError(error, config.baseUrl))
+  }
+}
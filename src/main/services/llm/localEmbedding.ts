@@ -0,0 +1,46 @@
+// Offline stand-in for an embedding model: words are hashed into a fixed number of buckets.
+// It only matches shared vocabulary, but needs no server or key, so indexing and retrieval
+// can be tried (and tested) anywhere.
+
+const DIMENSIONS = 512
+
+// Scripts where words are unreliable as terms (no spaces, or particles glued to nouns)
+const BIGRAM_SCRIPTS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u
+
+// 32-bit FNV-1a
+const hash = (text: string): number => {
+  let value = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i)
+    value = Math.imul(value, 0x01000193)
+  }
+  return value >>> 0
+}
+
+const getTerms = (text: string): string[] => {
+  const terms: string[] = []
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    if (word.length > 1 && BIGRAM_SCRIPTS.test(word)) {
+      for (let i = 0; i < word.length - 1; i++) {
+        terms.push(word.slice(i, i + 2))
+      }
+    } else {
+      terms.push(word)
+    }
+  }
+  return terms
+}
+
+export const embedLocally = (texts: string[]): number[][] => {
+  return texts.map(text => {
+    const vector = new Array<number>(DIMENSIONS).fill(0)
+    for (const term of getTerms(text)) {
+      const value = hash(term)
+      // The sign bit keeps colliding terms from only ever adding up
+      vector[value % DIMENSIONS] += value & 0x80000000 ? -1 : 1
+    }
+
+    const length = Math.hypot(...vector)
+    return length > 0 ? vector.map(x => x / length) : vector
+  })
+}
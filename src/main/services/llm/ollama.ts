@@ -0,0 +1,147 @@
+import type { ProviderConfig, ModelInfo, TokenUsage } from '@shared/types'
+import type { LlmProvider, LlmRequest } from './types'
+import { joinUrl, getResponseError, readLines } from './http'
+
+interface OllamaChatResponse {
+  message?: { content?: string }
+  error?: string
+  // Only on the final message; prompt_eval_count is left out when the prompt was cached
+  prompt_eval_count?: number
+  eval_count?: number
+}
+
+interface OllamaTagsResponse {
+  models?: { name: string }[]
+}
+
+interface OllamaShowResponse {
+  model_info?: Record<string, unknown>
+}
+
+interface OllamaEmbedResponse {
+  embeddings?: number[][]
+}
+
+// The context length key is prefixed with the architecture, e.g. 'llama.context_length'
+const getContextLength = (data: OllamaShowResponse): number | undefined => {
+  const entry = Object.entries(data.model_info ?? {}).find(([key]) => key.endsWith('.context_length'))
+  return typeof entry?.[1] === 'number' ? entry[1] : undefined
+}
+
+const buildRequestBody = (request: LlmRequest, model: string, stream: boolean): string => {
+  return JSON.stringify({
+    model,
+    messages: request.messages.map(message => ({
+      role: message.role,
+      content: message.content,
+      ...(message.images?.length && { images: message.images.map(image => image.data) })
+    })),
+    stream,
+    options: {
+      temperature: request.generation.temperature,
+      top_p: request.generation.topP,
+      top_k: request.generation.topK,
+      num_predict: request.generation.maxOutputTokens
+    }
+  })
+}
+
+const getUsage = (data: OllamaChatResponse): TokenUsage | undefined => {
+  if (data.eval_count === undefined) return undefined
+  return { promptTokens: data.prompt_eval_count ?? 0, responseTokens: data.eval_count }
+}
+
+// Ollama's native /api/chat endpoint (streams newline-delimited JSON)
+export const createOllamaProvider = (config: ProviderConfig): LlmProvider => {
+  const post = (request: LlmRequest, stream: boolean) => {
+    return fetch(joinUrl(config.baseUrl, 'api/chat'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: buildRequestBody(request, config.model, stream),
+      signal: request.signal
+    })
+  }
+
+  return {
+    id: 'ollama',
+    config,
+
+    generate: async (request) => {
+      const response = await post(request, false)
+      if (!response.ok) {
+        throw await getResponseError(response, 'Ollama')
+      }
+
+      const data = await response.json() as OllamaChatResponse
+      const text = data.message?.content
+      if (!text) {
+        throw new Error('응답을 생성할 수 없습니다.')
+      }
+      return { text, usage: getUsage(data) }
+    },
+
+    stream: async (request, onChunk) => {
+      const response = await post(request, true)
+      if (!response.ok) {
+        throw await getResponseError(response, 'Ollama')
+      }
+
+      let text = ''
+      let usage: TokenUsage | undefined
+      await readLines(response, (line) => {
+        request.onActivity?.()
+        const data = JSON.parse(line) as OllamaChatResponse
+        if (data.error) {
+          throw new Error(data.error)
+        }
+        usage = getUsage(data) ?? usage
+        const chunk = data.message?.content
+        if (chunk) {
+          text += chunk
+          onChunk(chunk)
+        }
+      })
+
+      return { text, usage }
+    },
+
+    listModels: async (signal) => {
+      const response = await fetch(joinUrl(config.baseUrl, 'api/tags'), { signal })
+      if (!response.ok) {
+        throw await getResponseError(response, 'Ollama')
+      }
+
+      const data = await response.json() as OllamaTagsResponse
+      // Context sizes need a /api/show call per model; a failure there only loses the size
+      return Promise.all((data.models ?? []).map(async (model): Promise<ModelInfo> => {
+        try {
+          const show = await fetch(joinUrl(config.baseUrl, 'api/show'), {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model: model.name }),
+            signal
+          })
+          const contextWindow = show.ok ? getContextLength(await show.json() as OllamaShowResponse) : undefined
+          return { id: model.name, contextWindow }
+        } catch {
+          return { id: model.name }
+        }
+      }))
+    },
+
+    embed: async (texts, signal) => {
+      const response = await fetch(joinUrl(config.baseUrl, 'api/embed'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: config.model, input: texts }),
+        signal
+      })
+      if (!response.ok) {
+        throw await getResponseError(response, 'Ollama')
+      }
+
+      const data = await response.json() as OllamaEmbedResponse
+      return data.embeddings ?? []
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import type { ProviderConfig, ModelInfo, TokenUsage } from '@shared/types'
+import type { LlmMessage, LlmProvider, LlmRequest } from './types'
+import { joinUrl, getResponseError, readLines, getSseData, createLlmError } from './http'
+
+interface ChatCompletionResponse {
+  choices?: {
+    message?: { content?: string }
+    delta?: { content?: string }
+    finish_reason?: string | null
+  }[]
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null
+}
+
+// Azure OpenAI and others stop with 'content_filter' when their moderation withholds the answer
+const checkFiltered = (data: ChatCompletionResponse): void => {
+  if (data.choices?.[0]?.finish_reason === 'content_filter') {
+    throw createLlmError('safety', '답변이 제공자의 콘텐츠 필터에 의해 차단되었습니다. 질문을 바꿔보세요.')
+  }
+}
+
+const getUsage = (data: ChatCompletionResponse): TokenUsage | undefined => {
+  if (typeof data.usage?.prompt_tokens !== 'number') return undefined
+  return { promptTokens: data.usage.prompt_tokens, responseTokens: data.usage.completion_tokens ?? 0 }
+}
+
+// OpenAI only returns ids; vLLM and some other servers add the context length under varying names
+interface ModelsResponse {
+  data?: {
+    id: string
+    max_model_len?: number
+    context_length?: number
+    context_window?: number
+  }[]
+}
+
+// Messages with images use the content-parts form, images as data URLs
+const toOpenAiMessage = (message: LlmMessage) => {
+  if (!message.images?.length) return { role: message.role, content: message.content }
+  return {
+    role: message.role,
+    content: [
+      { type: 'text', text: message.content },
+      ...message.images.map(image => ({
+        type: 'image_url',
+        image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+      }))
+    ]
+  }
+}
+
+const buildRequestBody = (request: LlmRequest, model: string, stream: boolean): string => {
+  // top_k is not part of the OpenAI API; most compatible servers ignore or reject it, so it is left out
+  return JSON.stringify({
+    model,
+    messages: request.messages.map(toOpenAiMessage),
+    temperature: request.generation.temperature,
+    top_p: request.generation.topP,
+    max_tokens: request.generation.maxOutputTokens,
+    stream,
+    // Without this, streamed responses carry no token counts
+    ...(stream && { stream_options: { include_usage: true } })
+  })
+}
+
+interface EmbeddingsResponse {
+  data?: { index: number; embedding: number[] }[]
+}
+
+// Any server exposing /chat/completions (OpenAI, LM Studio, vLLM, llama.cpp server)
+export const createOpenAIProvider = (config: ProviderConfig): LlmProvider => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  // Local servers usually run without a key
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`
+  }
+
+  const post = (request: LlmRequest, stream: boolean) => {
+    return fetch(joinUrl(config.baseUrl, 'chat/completions'), {
+      method: 'POST',
+      headers,
+      body: buildRequestBody(request, config.model, stream),
+      signal: request.signal
+    })
+  }
+
+  return {
+    id: 'openai',
+    config,
+
+    generate: async (request) => {
+      const response = await post(request, false)
+      if (!response.ok) {
+        throw await getResponseError(response, 'OpenAI')
+      }
+
+      const data = await response.json() as ChatCompletionResponse
+      checkFiltered(data)
+      const text = data.choices?.[0]?.message?.content
+      if (!text) {
+        throw new Error('응답을 생성할 수 없습니다.')
+      }
+      return { text, usage: getUsage(data) }
+    },
+
+    stream: async (request, onChunk) => {
+      const response = await post(request, true)
+      if (!response.ok) {
+        throw await getResponseError(response, 'OpenAI')
+      }
+
+      let text = ''
+      let usage: TokenUsage | undefined
+      await readLines(response, (line) => {
+        request.onActivity?.()
+        const data = getSseData(line)
+        if (!data) return
+        const parsed = JSON.parse(data) as ChatCompletionResponse
+        checkFiltered(parsed)
+        // The usage arrives in a final chunk with no choices
+        usage = getUsage(parsed) ?? usage
+        const chunk = parsed.choices?.[0]?.delta?.content
+        if (chunk) {
+          text += chunk
+          onChunk(chunk)
+        }
+      })
+
+      return { text, usage }
+    },
+
+    listModels: async (signal) => {
+      const response = await fetch(joinUrl(config.baseUrl, 'models'), { headers, signal })
+      if (!response.ok) {
+        throw await getResponseError(response, 'OpenAI')
+      }
+
+      const data = await response.json() as ModelsResponse
+      return (data.data ?? []).map((model): ModelInfo => ({
+        id: model.id,
+        contextWindow: model.max_model_len ?? model.context_length ?? model.context_window
+      }))
+    },
+
+    embed: async (texts, signal) => {
+      const response = await fetch(joinUrl(config.baseUrl, 'embeddings'), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: config.model, input: texts }),
+        signal
+      })
+      if (!response.ok) {
+        throw await getResponseError(response, 'OpenAI')
+      }
+
+      const data = await response.json() as EmbeddingsResponse
+      return (data.data ?? []).sort((a, b) => a.index - b.index).map(item => item.embedding)
+    }
+  }
+}
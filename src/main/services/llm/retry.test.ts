@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { net } from 'electron'
+import { createLlmError } from './http'
+import { withRequestPolicy, withRetries } from './retry'
+import type { LlmProvider, LlmRequest } from './types'
+import { DEFAULT_GENERATION_CONFIG } from '@shared/types'
+
+vi.mock('electron', () => ({ net: { isOnline: vi.fn(() => true) } }))
+
+const BASE_URL = 'http://localhost:1234'
+
+const serverError = () => createLlmError('server', 'Server error', { retryable: true })
+
+// undici's network failure, with the system error code as the cause
+const fetchFailed = (code: string) => Object.assign(new TypeError('fetch failed'), { cause: { code } })
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  // No jitter: each wait is half the backoff ceiling (500ms, 1s, 2s)
+  vi.spyOn(Math, 'random').mockReturnValue(0)
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('withRetries', () => {
+  it('retries transient failures with exponential backoff', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(serverError())
+      .mockRejectedValueOnce(serverError())
+      .mockResolvedValue('ok')
+
+    const result = withRetries(BASE_URL, undefined, run)
+
+    expect(run).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(499)
+    expect(run).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(run).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(run).toHaveBeenCalledTimes(3)
+    await expect(result).resolves.toBe('ok')
+  })
+
+  it('waits as long as Retry-After asks', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(createLlmError('rate-limit', 'Slow down', { retryable: true, retryAfterMs: 5000 }))
+      .mockResolvedValue('ok')
+
+    const result = withRetries(BASE_URL, undefined, run)
+
+    await vi.advanceTimersByTimeAsync(4999)
+    expect(run).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    await expect(result).resolves.toBe('ok')
+  })
+
+  it('gives up after the last attempt with the last error', async () => {
+    const run = vi.fn().mockRejectedValue(serverError())
+
+    const result = expect(withRetries(BASE_URL, undefined, run)).rejects.toMatchObject({ category: 'server' })
+    await vi.advanceTimersByTimeAsync(10000)
+    await result
+    expect(run).toHaveBeenCalledTimes(4)
+  })
+
+  it('reports failures that waiting will not fix right away', async () => {
+    const invalidKey = vi.fn().mockRejectedValue(createLlmError('invalid-key', 'Bad key'))
+    await expect(withRetries(BASE_URL, undefined, invalidKey)).rejects.toMatchObject({ category: 'invalid-key' })
+    expect(invalidKey).toHaveBeenCalledTimes(1)
+
+    // A wait beyond a minute is reported instead of sat through
+    const longWait = vi.fn().mockRejectedValue(
+      createLlmError('rate-limit', 'Slow down', { retryable: true, retryAfterMs: 120000 })
+    )
+    await expect(withRetries(BASE_URL, undefined, longWait)).rejects.toMatchObject({ category: 'rate-limit' })
+    expect(longWait).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not retry once canRetry says no', async () => {
+    const run = vi.fn().mockRejectedValue(serverError())
+    await expect(withRetries(BASE_URL, undefined, run, () => false)).rejects.toMatchObject({ category: 'server' })
+    expect(run).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries dropped connections and reports lost connectivity as offline', async () => {
+    const reset = vi.fn().mockRejectedValueOnce(fetchFailed('ECONNRESET')).mockResolvedValue('ok')
+    const result = withRetries(BASE_URL, undefined, reset)
+    await vi.advanceTimersByTimeAsync(500)
+    await expect(result).resolves.toBe('ok')
+
+    const unreachable = vi.fn().mockRejectedValue(fetchFailed('ENETUNREACH'))
+    await expect(withRetries(BASE_URL, undefined, unreachable)).rejects.toMatchObject({ category: 'offline' })
+    expect(unreachable).toHaveBeenCalledTimes(1)
+
+    vi.mocked(net.isOnline).mockReturnValueOnce(false)
+    const refused = vi.fn().mockRejectedValue(fetchFailed('ECONNREFUSED'))
+    await expect(withRetries(BASE_URL, undefined, refused)).rejects.toMatchObject({ category: 'offline' })
+  })
+
+  it('stops waiting when the caller aborts', async () => {
+    const controller = new AbortController()
+    const run = vi.fn().mockRejectedValue(serverError())
+
+    const result = expect(withRetries(BASE_URL, controller.signal, run)).rejects.toThrow('stopped')
+    await vi.advanceTimersByTimeAsync(100)
+    controller.abort(new Error('stopped'))
+    await result
+    expect(run).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('withRequestPolicy stream', () => {
+  const IDLE_TIMEOUT_MS = 90000
+
+  // A stream that sends `events` lines spaced `intervalMs` apart, then one text delta
+  const createStreamingProvider = (events: number, intervalMs: number): LlmProvider => ({
+    id: 'openai',
+    config: { baseUrl: BASE_URL, model: 'test' },
+    generate: vi.fn(),
+    listModels: vi.fn(),
+    embed: vi.fn(),
+    stream: (request, onChunk) => new Promise((resolve, reject) => {
+      let sent = 0
+      const timer = setInterval(() => {
+        request.onActivity?.()
+        if (++sent < events) return
+        clearInterval(timer)
+        onChunk('answer')
+        resolve({ text: 'answer' })
+      }, intervalMs)
+      request.signal?.addEventListener('abort', () => {
+        clearInterval(timer)
+        reject(request.signal!.reason)
+      }, { once: true })
+    })
+  })
+
+  const request: LlmRequest = { messages: [{ role: 'user', content: 'question' }], generation: DEFAULT_GENERATION_CONFIG }
+
+  it('keeps a stream alive while lines keep arriving without text', async () => {
+    const provider = withRequestPolicy(createStreamingProvider(4, IDLE_TIMEOUT_MS - 30000))
+
+    const result = provider.stream(request, () => {})
+    await vi.advanceTimersByTimeAsync(4 * (IDLE_TIMEOUT_MS - 30000))
+    await expect(result).resolves.toEqual({ text: 'answer' })
+  })
+
+  it('times out a stream that goes quiet', async () => {
+    const provider = withRequestPolicy(createStreamingProvider(1, IDLE_TIMEOUT_MS + 30000))
+
+    const result = expect(provider.stream(request, () => {})).rejects.toMatchObject({ category: 'timeout' })
+    await vi.advanceTimersByTimeAsync(IDLE_TIMEOUT_MS)
+    await result
+  })
+})
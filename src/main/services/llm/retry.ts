@@ -0,0 +1,141 @@
+import { net } from 'electron'
+import type { LlmProvider } from './types'
+import { createLlmError, describeRequestError, isLlmError } from './http'
+import type { LlmError } from './http'
+
+const MAX_ATTEMPTS = 4
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 30000
+// Waits the server asks for beyond this are reported instead of sat through
+const MAX_RETRY_AFTER_MS = 60000
+
+// generate and embed must finish within this; streams may go this long without a line
+const REQUEST_TIMEOUT_MS = 180000
+const STREAM_IDLE_TIMEOUT_MS = 90000
+
+// Socket errors worth another try; anything else from the network is reported right away
+const TRANSIENT_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'UND_ERR_SOCKET']
+const OFFLINE_CODES = ['ENETUNREACH', 'ENETDOWN', 'EAI_AGAIN']
+
+// Failures before any HTTP response, categorized; undici wraps the system error as the cause
+const toLlmError = (error: unknown, baseUrl: string): LlmError => {
+  if (isLlmError(error)) return error
+
+  const message = describeRequestError(error, baseUrl)
+  if (!(error instanceof TypeError && error.message === 'fetch failed')) {
+    return createLlmError('other', message)
+  }
+
+  const code = (error as { cause?: { code?: string } }).cause?.code ?? ''
+  if (!net.isOnline() || OFFLINE_CODES.includes(code)) {
+    return createLlmError('offline', '인터넷에 연결되어 있지 않습니다. 연결되면 다시 보냅니다.')
+  }
+  return createLlmError('other', message, { retryable: TRANSIENT_CODES.includes(code) })
+}
+
+// Exponential backoff with jitter (half fixed, half random) so clients sharing a key don't retry in step
+const getBackoffMs = (attempt: number): number => {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt)
+  return ceiling / 2 + Math.random() * (ceiling / 2)
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Run with a timer that `touch` restarts; when it fires the request is aborted and reported as a
+// timeout, while an abort from the caller's own signal passes through untouched
+const withTimeout = async <T>(
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  run: (signal: AbortSignal, touch: () => void) => Promise<T>
+): Promise<T> => {
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const touch = () => {
+    clearTimeout(timer)
+    timer = setTimeout(() => controller.abort(), timeoutMs)
+  }
+
+  touch()
+  try {
+    return await run(signal ? AbortSignal.any([signal, controller.signal]) : controller.signal, touch)
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) {
+      throw createLlmError('timeout', `AI 서버가 ${timeoutMs / 1000}초 동안 응답하지 않았습니다. 잠시 후 다시 시도해주세요.`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// Retry rate limits, 5xx and dropped connections. `canRetry` vetoes a retry, e.g. once a stream
+// has already handed out text.
+export const withRetries = async <T>(
+  baseUrl: string,
+  signal: AbortSignal | undefined,
+  run: () => Promise<T>,
+  canRetry: () => boolean = () => true
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run()
+    } catch (error) {
+      if (signal?.aborted) throw error
+
+      const llmError = toLlmError(error, baseUrl)
+      const delay = llmError.retryAfterMs ?? getBackoffMs(attempt)
+      if (!llmError.retryable || attempt + 1 >= MAX_ATTEMPTS || delay > MAX_RETRY_AFTER_MS || !canRetry()) {
+        throw llmError
+      }
+
+      console.warn(`AI request failed (${llmError.category}), retrying in ${Math.round(delay)}ms:`, llmError.message)
+      await sleep(delay, signal)
+    }
+  }
+}
+
+// The provider with timeouts on every request, retries for transient failures and categorized errors
+export const withRequestPolicy = (provider: LlmProvider): LlmProvider => {
+  const { baseUrl } = provider.config
+
+  return {
+    ...provider,
+
+    generate: (request) => withRetries(baseUrl, request.signal, () =>
+      withTimeout(REQUEST_TIMEOUT_MS, request.signal, (signal) => provider.generate({ ...request, signal }))),
+
+    stream: (request, onChunk) => {
+      let received = false
+      return withRetries(
+        baseUrl,
+        request.signal,
+        () => withTimeout(STREAM_IDLE_TIMEOUT_MS, request.signal, (signal, touch) =>
+          // Thinking models can send non-text events for a long time, so any line counts
+          provider.stream({ ...request, signal, onActivity: touch }, (text) => {
+            received = true
+            onChunk(text)
+          })),
+        () => !received
+      )
+    },
+
+    embed: (texts, signal) => withRetries(baseUrl, signal, () =>
+      withTimeout(REQUEST_TIMEOUT_MS, signal, (timedSignal) => provider.embed(texts, timedSignal)))
+  }
+}
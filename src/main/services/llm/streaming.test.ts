@@ -0,0 +1,176 @@
+import { createServer } from 'http'
+import type { IncomingMessage, Server } from 'http'
+import type { AddressInfo } from 'net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_GENERATION_CONFIG } from '@shared/types'
+import { createGeminiProvider } from './gemini'
+import { createOpenAIProvider } from './openai'
+import type { LlmRequest } from './types'
+
+// What the mock server sends for a request: SSE lines written one by one, or an error status
+interface MockReply {
+  status?: number
+  headers?: Record<string, string>
+  lines?: string[]
+  body?: string
+}
+
+// Local SSE server; each test sets the reply and reads back the request it received
+let server: Server
+let baseUrl = ''
+let reply: MockReply = {}
+let received: { url: string; headers: IncomingMessage['headers']; body: string } | undefined
+
+const readBody = (request: IncomingMessage): Promise<string> => {
+  return new Promise((resolve) => {
+    let body = ''
+    request.on('data', chunk => { body += chunk })
+    request.on('end', () => resolve(body))
+  })
+}
+
+beforeAll(async () => {
+  server = createServer(async (request, response) => {
+    received = { url: request.url ?? '', headers: request.headers, body: await readBody(request) }
+
+    if (reply.status && reply.status !== 200) {
+      response.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers })
+      response.end(reply.body ?? '')
+      return
+    }
+
+    response.writeHead(200, { 'Content-Type': 'text/event-stream' })
+    // Lines go out in separate writes, with events split mid-way, as a real stream may arrive
+    for (const line of reply.lines ?? []) {
+      const half = Math.floor(line.length / 2)
+      response.write(line.slice(0, half))
+      await new Promise(resolve => setTimeout(resolve, 5))
+      response.write(`${line.slice(half)}\n\n`)
+    }
+    response.end()
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  reply = {}
+  received = undefined
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+const request = (extra: Partial<LlmRequest> = {}): LlmRequest => ({
+  messages: [{ role: 'user', content: '첫 문장을 설명해줘' }],
+  generation: DEFAULT_GENERATION_CONFIG,
+  ...extra
+})
+
+const data = (payload: unknown) => `data: ${JSON.stringify(payload)}`
+
+describe('Gemini streaming', () => {
+  const provider = () => createGeminiProvider({ baseUrl, model: 'gemini-test', apiKey: 'test-key' })
+
+  it('collects text deltas and the final token counts', async () => {
+    reply.lines = [
+      data({ candidates: [{ content: { parts: [{ text: '안녕' }] } }], usageMetadata: { promptTokenCount: 10 } }),
+      data({ candidates: [{ content: { parts: [{ text: '하세요' }] } }] }),
+      data({
+        candidates: [{ content: { parts: [{ text: '.' }] }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 3, thoughtsTokenCount: 5 }
+      })
+    ]
+
+    const chunks: string[] = []
+    const response = await provider().stream(request(), chunk => chunks.push(chunk))
+
+    expect(chunks).toEqual(['안녕', '하세요', '.'])
+    expect(response).toEqual({ text: '안녕하세요.', usage: { promptTokens: 10, responseTokens: 8 } })
+    expect(received?.url).toBe('/models/gemini-test:streamGenerateContent?alt=sse')
+    expect(received?.headers['x-goog-api-key']).toBe('test-key')
+    expect(JSON.parse(received!.body).contents[0]).toEqual({ role: 'user', parts: [{ text: '첫 문장을 설명해줘' }] })
+  })
+
+  it('reports activity for events without text', async () => {
+    reply.lines = [
+      ': keep-alive',
+      data({ candidates: [{ content: { parts: [{ thought: true }] } }] }),
+      data({ candidates: [{ content: { parts: [{ text: '답' }] } }] })
+    ]
+
+    const onActivity = vi.fn()
+    const response = await provider().stream(request({ onActivity }), () => {})
+
+    expect(response.text).toBe('답')
+    expect(onActivity).toHaveBeenCalledTimes(3)
+  })
+
+  it('fails with a safety error when the answer is blocked', async () => {
+    reply.lines = [
+      data({ candidates: [{ content: { parts: [{ text: '부분' }] } }] }),
+      data({ candidates: [{ finishReason: 'SAFETY' }] })
+    ]
+
+    await expect(provider().stream(request(), () => {})).rejects.toMatchObject({ category: 'safety' })
+  })
+
+  it('turns an error status into a categorized error', async () => {
+    reply = { status: 400, body: JSON.stringify({ error: { message: 'API key not valid. Please pass a valid API key.' } }) }
+
+    await expect(provider().stream(request(), () => {})).rejects.toMatchObject({ category: 'invalid-key' })
+  })
+})
+
+describe('OpenAI-compatible streaming', () => {
+  const provider = () => createOpenAIProvider({ baseUrl, model: 'gpt-test', apiKey: 'sk-test' })
+
+  it('collects deltas, reads usage from the last chunk and stops at [DONE]', async () => {
+    reply.lines = [
+      data({ choices: [{ delta: { role: 'assistant' } }] }),
+      data({ choices: [{ delta: { content: 'Hello' } }] }),
+      data({ choices: [{ delta: { content: ' world' }, finish_reason: 'stop' }] }),
+      data({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 2 } }),
+      'data: [DONE]'
+    ]
+
+    const chunks: string[] = []
+    const response = await provider().stream(request(), chunk => chunks.push(chunk))
+
+    expect(chunks).toEqual(['Hello', ' world'])
+    expect(response).toEqual({ text: 'Hello world', usage: { promptTokens: 12, responseTokens: 2 } })
+    expect(received?.url).toBe('/chat/completions')
+    expect(received?.headers.authorization).toBe('Bearer sk-test')
+    expect(JSON.parse(received!.body)).toMatchObject({
+      model: 'gpt-test',
+      stream: true,
+      stream_options: { include_usage: true }
+    })
+  })
+
+  it('fails with a safety error when the content filter stops the answer', async () => {
+    reply.lines = [
+      data({ choices: [{ delta: { content: '부분' } }] }),
+      data({ choices: [{ delta: {}, finish_reason: 'content_filter' }] })
+    ]
+
+    await expect(provider().stream(request(), () => {})).rejects.toMatchObject({ category: 'safety' })
+  })
+
+  it('reports a rate limit with the wait the server asked for', async () => {
+    reply = {
+      status: 429,
+      headers: { 'Retry-After': '3' },
+      body: JSON.stringify({ error: { message: 'Rate limit reached' } })
+    }
+
+    await expect(provider().stream(request(), () => {})).rejects.toMatchObject({
+      category: 'rate-limit',
+      retryable: true,
+      retryAfterMs: 3000
+    })
+  })
+})
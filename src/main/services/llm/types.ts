@@ -0,0 +1,39 @@
+import type { LlmProviderId, ProviderConfig, GenerationConfig, ModelInfo, TokenUsage } from '@shared/types'
+
+// Image attached to a message, base64-encoded
+export interface LlmImage {
+  mimeType: string
+  data: string
+}
+
+export interface LlmMessage {
+  role: 'user' | 'assistant'
+  content: string
+  images?: LlmImage[]  // only models that accept images
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[]
+  generation: GenerationConfig
+  signal?: AbortSignal
+  // Called for every line of a streamed response, text or not, to show the stream is alive
+  onActivity?: () => void
+}
+
+// `usage` is missing when the server doesn't report token counts
+export interface LlmResponse {
+  text: string
+  usage?: TokenUsage
+}
+
+// A chat backend. `stream` calls onChunk with each text delta and resolves with the full text;
+// both methods reject when the signal aborts.
+export interface LlmProvider {
+  id: LlmProviderId
+  config: ProviderConfig
+  generate: (request: LlmRequest) => Promise<LlmResponse>
+  stream: (request: LlmRequest, onChunk: (text: string) => void) => Promise<LlmResponse>
+  listModels: (signal?: AbortSignal) => Promise<ModelInfo[]>
+  // One vector per text, in order; `config.model` must be an embedding model
+  embed: (texts: string[], signal?: AbortSignal) => Promise<number[][]>
+}
@@ -0,0 +1,153 @@
+import Database from 'better-sqlite3'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { LATEST_SCHEMA_VERSION, migrations } from './migrations'
+
+// Each test gets its own userData directory
+const userData = vi.hoisted(() => ({ path: '' }))
+
+vi.mock('electron', () => ({
+  app: { getPath: () => userData.path },
+  safeStorage: { isEncryptionAvailable: () => false }
+}))
+
+// database.ts keeps its connection in module state, so every test loads a fresh copy
+const loadDatabase = async () => {
+  vi.resetModules()
+  return import('./database')
+}
+
+let closeDatabase: (() => void) | undefined
+
+const dbPath = () => path.join(userData.path, 'flow-reader.db')
+const backupDir = () => path.join(userData.path, 'backups')
+
+// A database file left by an older app version, at the given schema version
+const createDatabaseAt = (version: number, seed?: (db: Database.Database) => void) => {
+  const db = new Database(dbPath())
+  for (const migration of migrations.filter(m => m.version <= version)) {
+    migration.up(db)
+  }
+  db.pragma(`user_version = ${version}`)
+  seed?.(db)
+  db.close()
+}
+
+const insertBook = (db: Database.Database) => {
+  db.prepare(`
+    INSERT INTO books (id, title, file_path, file_type, last_page, total_pages, created_at, updated_at)
+    VALUES ('book-1', '오래된 책', '/books/old.pdf', 'pdf', 42, 300, '2024-01-01', '2024-01-01')
+  `).run()
+}
+
+beforeEach(() => {
+  userData.path = fs.mkdtempSync(path.join(os.tmpdir(), 'flow-reader-'))
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  closeDatabase?.()
+  closeDatabase = undefined
+  fs.rmSync(userData.path, { recursive: true, force: true })
+})
+
+describe('migrations', () => {
+  it('are numbered consecutively from 1', () => {
+    expect(migrations.map(m => m.version)).toEqual(migrations.map((_, index) => index + 1))
+  })
+})
+
+describe('initDatabase', () => {
+  it('creates a new database at the latest version without a backup', async () => {
+    const database = await loadDatabase()
+    closeDatabase = database.closeDatabase
+
+    expect(database.initDatabase()).not.toBeNull()
+    expect(database.getDatabaseStatus()).toEqual({ ok: true, schemaVersion: LATEST_SCHEMA_VERSION })
+    expect(fs.existsSync(backupDir())).toBe(false)
+  })
+
+  it('backs up an older database and migrates it keeping its data', async () => {
+    createDatabaseAt(4, insertBook)
+
+    const database = await loadDatabase()
+    closeDatabase = database.closeDatabase
+    database.initDatabase()
+
+    const status = database.getDatabaseStatus()
+    expect(status).toMatchObject({ ok: true, schemaVersion: LATEST_SCHEMA_VERSION })
+    expect(path.dirname(status.backupPath!)).toBe(backupDir())
+    expect(path.basename(status.backupPath!)).toMatch(/^flow-reader\.v4\./)
+    expect(database.getBook('book-1')).toMatchObject({ title: '오래된 책', lastPage: 42, totalPages: 300 })
+
+    const backup = new Database(status.backupPath!, { readonly: true })
+    expect(backup.pragma('user_version', { simple: true })).toBe(4)
+    expect(backup.prepare('SELECT title FROM books').get()).toEqual({ title: '오래된 책' })
+    backup.close()
+  })
+
+  it('does not back up or migrate a database that is already current', async () => {
+    createDatabaseAt(LATEST_SCHEMA_VERSION)
+
+    const database = await loadDatabase()
+    closeDatabase = database.closeDatabase
+    database.initDatabase()
+
+    expect(database.getDatabaseStatus()).toEqual({ ok: true, schemaVersion: LATEST_SCHEMA_VERSION })
+    expect(fs.existsSync(backupDir())).toBe(false)
+  })
+
+  it('stops at the failing migration and keeps the steps before it', async () => {
+    // A table the next migration wants to create is already there
+    createDatabaseAt(5, db => db.exec('CREATE TABLE epub_locations (id TEXT)'))
+
+    const database = await loadDatabase()
+    closeDatabase = database.closeDatabase
+
+    expect(database.initDatabase()).toBeNull()
+    const status = database.getDatabaseStatus()
+    expect(status).toMatchObject({ ok: false, schemaVersion: 5 })
+    expect(status.error).toContain('마이그레이션 6')
+    expect(fs.existsSync(status.backupPath!)).toBe(true)
+
+    const db = new Database(dbPath(), { readonly: true })
+    expect(db.pragma('user_version', { simple: true })).toBe(5)
+    db.close()
+  })
+
+  it('refuses a database from a newer app version', async () => {
+    const db = new Database(dbPath())
+    db.pragma(`user_version = ${LATEST_SCHEMA_VERSION + 1}`)
+    db.close()
+
+    const database = await loadDatabase()
+    closeDatabase = database.closeDatabase
+
+    expect(database.initDatabase()).toBeNull()
+    expect(database.getDatabaseStatus()).toMatchObject({ ok: false, schemaVersion: LATEST_SCHEMA_VERSION + 1 })
+    expect(database.getDatabaseStatus().error).toContain('업데이트')
+  })
+
+  it('keeps only the newest five backups', async () => {
+    fs.mkdirSync(backupDir())
+    for (let i = 0; i < 6; i++) {
+      const oldBackup = path.join(backupDir(), `flow-reader.v1.old-${i}.db`)
+      fs.writeFileSync(oldBackup, '')
+      fs.utimesSync(oldBackup, new Date(2020, 0, i + 1), new Date(2020, 0, i + 1))
+    }
+    createDatabaseAt(1)
+
+    const database = await loadDatabase()
+    closeDatabase = database.closeDatabase
+    database.initDatabase()
+
+    const backups = fs.readdirSync(backupDir()).sort()
+    expect(backups).toHaveLength(5)
+    expect(backups).toContain(path.basename(database.getDatabaseStatus().backupPath!))
+    expect(backups).not.toContain('flow-reader.v1.old-0.db')
+    expect(backups).not.toContain('flow-reader.v1.old-1.db')
+  })
+})
@@ -0,0 +1,397 @@
+import type Database from 'better-sqlite3'
+
+export interface Migration {
+  version: number
+  description: string
+  up: (db: Database.Database) => void
+}
+
+// Ordered schema migrations, keyed on PRAGMA user_version.
+// Append new steps at the end; never edit a migration that has already shipped.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    up: (db) => {
+      // IF NOT EXISTS keeps this safe for databases created before versioning (user_version = 0)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS books (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          author TEXT,
+          file_path TEXT NOT NULL,
+          cover_path TEXT,
+          file_type TEXT NOT NULL CHECK(file_type IN ('pdf', 'epub')),
+          last_page INTEGER DEFAULT 1,
+          total_pages INTEGER,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `)
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS chat_sessions (
+          id TEXT PRIMARY KEY,
+          book_id TEXT NOT NULL,
+          base_context TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+        )
+      `)
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS chat_messages (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          role TEXT NOT NULL CHECK(role IN ('user', 'assistant')),
+          message TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE
+        )
+      `)
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT
+        )
+      `)
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_chat_sessions_book_id ON chat_sessions(book_id);
+        CREATE INDEX IF NOT EXISTS idx_chat_messages_session_id ON chat_messages(session_id);
+      `)
+    }
+  },
+  {
+    version: 2,
+    description: 'Store the source location of chat sessions',
+    up: (db) => {
+      db.exec('ALTER TABLE chat_sessions ADD COLUMN anchor TEXT')
+    }
+  },
+  {
+    version: 3,
+    description: 'Add highlights',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE highlights (
+          id TEXT PRIMARY KEY,
+          book_id TEXT NOT NULL,
+          color TEXT NOT NULL,
+          anchor TEXT NOT NULL,
+          text TEXT NOT NULL,
+          note TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_highlights_book_id ON highlights(book_id);
+      `)
+    }
+  },
+  {
+    version: 4,
+    description: 'Add bookmarks',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE bookmarks (
+          id TEXT PRIMARY KEY,
+          book_id TEXT NOT NULL,
+          location TEXT NOT NULL,
+          label TEXT,
+          chapter TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+        );
+        CREATE INDEX idx_bookmarks_book_id ON bookmarks(book_id);
+      `)
+    }
+  },
+  {
+    version: 5,
+    description: 'Store the EPUB reading position and book-wide progress',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE books ADD COLUMN last_location TEXT;
+        ALTER TABLE books ADD COLUMN progress REAL;
+      `)
+    }
+  },
+  {
+    version: 6,
+    description: 'Cache generated EPUB locations',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE epub_locations (
+          book_id TEXT PRIMARY KEY,
+          layout_key TEXT NOT NULL,
+          locations TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+        )
+      `)
+    }
+  },
+  {
+    version: 7,
+    description: 'Store publication metadata from EPUB package documents',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE books ADD COLUMN creators TEXT;
+        ALTER TABLE books ADD COLUMN language TEXT;
+        ALTER TABLE books ADD COLUMN publisher TEXT;
+        ALTER TABLE books ADD COLUMN identifier TEXT;
+        ALTER TABLE books ADD COLUMN isbn TEXT;
+        ALTER TABLE books ADD COLUMN series TEXT;
+        ALTER TABLE books ADD COLUMN series_index REAL;
+      `)
+    }
+  },
+  {
+    version: 8,
+    description: 'Store content hashes of book files',
+    up: (db) => {
+      // Existing books are hashed in the background at startup (hashExistingBooks)
+      db.exec(`
+        ALTER TABLE books ADD COLUMN file_hash TEXT;
+        CREATE INDEX idx_books_file_hash ON books(file_hash);
+      `)
+    }
+  },
+  {
+    version: 9,
+    description: 'Add prompt actions for the selection bubble',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE prompt_actions (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          icon TEXT NOT NULL,
+          template TEXT NOT NULL,
+          target_language TEXT,
+          auto_send INTEGER NOT NULL DEFAULT 0,
+          shortcut TEXT,
+          sort_order INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `)
+
+      // Seed with the actions that used to be hardcoded in the bubble
+      const now = new Date().toISOString()
+      const insert = db.prepare(`
+        INSERT INTO prompt_actions (id, name, icon, template, target_language, auto_send, shortcut, sort_order, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, 0, ?, ?, ?, ?)
+      `)
+      insert.run(crypto.randomUUID(), '요약', '📝', '선택된 텍스트를 핵심을 알기 쉽게 요약해주세요.', null, 'Alt+S', 0, now, now)
+      insert.run(crypto.randomUUID(), '번역', '🌐', '선택된 텍스트를 {language}로 번역해주세요.', '한국어', 'Alt+T', 1, now, now)
+    }
+  },
+  {
+    version: 10,
+    description: 'Add per-book language overrides',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE books ADD COLUMN language_overrides TEXT;
+      `)
+
+      // Point the seeded translate action at the translation settings instead of a fixed Korean target
+      db.prepare(`
+        UPDATE prompt_actions
+        SET template = '선택된 텍스트를 {source}에서 {language}로 번역해주세요.', target_language = NULL
+        WHERE template = '선택된 텍스트를 {language}로 번역해주세요.' AND target_language = '한국어'
+      `).run()
+    }
+  },
+  {
+    version: 11,
+    description: 'Store model and generation settings on chat sessions',
+    up: (db) => {
+      // Existing sessions keep NULL and follow the current settings
+      db.exec(`
+        ALTER TABLE chat_sessions ADD COLUMN config TEXT;
+      `)
+    }
+  },
+  {
+    version: 12,
+    description: 'Cache model lists fetched from providers',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE provider_models (
+          provider TEXT NOT NULL,
+          base_url TEXT NOT NULL,
+          models TEXT NOT NULL,
+          fetched_at TEXT NOT NULL,
+          PRIMARY KEY (provider, base_url)
+        )
+      `)
+    }
+  },
+  {
+    version: 13,
+    description: 'Store book, chapter and surrounding text on chat sessions',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE chat_sessions ADD COLUMN context TEXT;
+      `)
+    }
+  },
+  {
+    version: 14,
+    description: 'Add whole-book chat sessions and the book search index',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE chat_sessions ADD COLUMN type TEXT NOT NULL DEFAULT 'passage';
+        ALTER TABLE chat_messages ADD COLUMN citations TEXT;
+
+        CREATE TABLE book_indexes (
+          book_id TEXT PRIMARY KEY,
+          embedding_provider TEXT NOT NULL,
+          embedding_model TEXT NOT NULL,
+          chunk_count INTEGER NOT NULL,
+          indexed_at TEXT NOT NULL,
+          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+        );
+
+        -- Embeddings are little-endian float32 arrays
+        CREATE TABLE book_chunks (
+          book_id TEXT NOT NULL,
+          chunk_index INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          location TEXT NOT NULL,
+          chapter TEXT,
+          embedding BLOB NOT NULL,
+          PRIMARY KEY (book_id, chunk_index),
+          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+        );
+      `)
+    }
+  },
+  {
+    version: 15,
+    description: 'Add cached chapter summaries',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE chapter_summaries (
+          book_id TEXT NOT NULL,
+          toc_item_id TEXT NOT NULL,
+          label TEXT NOT NULL,
+          summary TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (book_id, toc_item_id),
+          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+        );
+      `)
+    }
+  },
+  {
+    version: 16,
+    description: 'Add rolling summaries to chat sessions',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE chat_sessions ADD COLUMN summary TEXT;
+      `)
+    }
+  },
+  {
+    version: 17,
+    description: 'Record model, token usage and latency of answers and chapter summaries',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE chat_messages ADD COLUMN provider TEXT;
+        ALTER TABLE chat_messages ADD COLUMN model TEXT;
+        ALTER TABLE chat_messages ADD COLUMN prompt_tokens INTEGER;
+        ALTER TABLE chat_messages ADD COLUMN response_tokens INTEGER;
+        ALTER TABLE chat_messages ADD COLUMN latency_ms INTEGER;
+        ALTER TABLE chat_messages ADD COLUMN usage_estimated INTEGER NOT NULL DEFAULT 0;
+        CREATE INDEX IF NOT EXISTS idx_chat_messages_created_at ON chat_messages(created_at);
+
+        ALTER TABLE chapter_summaries ADD COLUMN prompt_tokens INTEGER;
+        ALTER TABLE chapter_summaries ADD COLUMN response_tokens INTEGER;
+      `)
+    }
+  },
+  {
+    version: 18,
+    description: 'Add captured page images to chat sessions',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE chat_sessions ADD COLUMN image TEXT;
+      `)
+    }
+  },
+  {
+    version: 19,
+    description: 'Add checked quotes to chat messages',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE chat_messages ADD COLUMN quotes TEXT;
+      `)
+    }
+  },
+  {
+    version: 20,
+    description: 'Key cached EPUB locations on the book only',
+    up: (db) => {
+      // Locations are character offsets into the book, so typography never invalidates them
+      db.exec(`
+        ALTER TABLE epub_locations DROP COLUMN layout_key;
+      `)
+    }
+  },
+  {
+    version: 21,
+    description: 'Keep a usage log that outlives deleted sessions and books',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE usage_records (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          prompt_tokens INTEGER NOT NULL,
+          response_tokens INTEGER NOT NULL,
+          book_id TEXT NOT NULL,
+          book_title TEXT NOT NULL,
+          session_id TEXT NOT NULL,
+          session_label TEXT NOT NULL
+        );
+        CREATE INDEX idx_usage_records_created_at ON usage_records(created_at);
+
+        INSERT INTO usage_records (
+          created_at, provider, model, prompt_tokens, response_tokens, book_id, book_title, session_id, session_label
+        )
+        SELECT m.created_at, m.provider, m.model, coalesce(m.prompt_tokens, 0), coalesce(m.response_tokens, 0),
+          s.book_id, b.title, s.id,
+          CASE WHEN s.type = 'book' THEN '책 전체 대화' ELSE substr(s.base_context, 1, 60) END
+        FROM chat_messages m
+        JOIN chat_sessions s ON s.id = m.session_id
+        JOIN books b ON b.id = s.book_id
+        WHERE m.model IS NOT NULL
+        UNION ALL
+        SELECT c.created_at, c.provider, c.model, c.prompt_tokens, coalesce(c.response_tokens, 0),
+          c.book_id, b.title, 'chapter-summaries:' || c.book_id, '챕터 요약'
+        FROM chapter_summaries c
+        JOIN books b ON b.id = c.book_id
+        WHERE c.prompt_tokens IS NOT NULL;
+      `)
+    }
+  },
+  {
+    version: 22,
+    description: 'Mark questions waiting to be sent',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE chat_messages ADD COLUMN pending INTEGER NOT NULL DEFAULT 0;
+      `)
+    }
+  }
+]
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version
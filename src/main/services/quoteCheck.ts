@@ -0,0 +1,93 @@
+import { getBook, getBookIndex, getBookChunkTexts } from './database'
+import type { BookChunk } from './database'
+import { extractBookPassages } from './bookText'
+import { extractQuotes, findFolded, foldText, isCheckableQuote } from '@shared/textMatch'
+import type { BookLocation, ChatSession, QuoteCheck } from '@shared/types'
+
+interface FoldedPassage {
+  folded: string
+  location: BookLocation
+  chapter?: string
+}
+
+// Pages read on either side of a PDF selection when the book has no index
+const ANCHOR_PAGE_RADIUS = 1
+
+// Chunks of the last indexed book checked; follow-up answers almost always quote the same book
+let cachedChunks: { key: string; passages: FoldedPassage[] } | undefined
+
+const foldPassages = (passages: Omit<BookChunk, 'embedding'>[]): FoldedPassage[] => {
+  return passages.map(({ text, location, chapter }) => ({ folded: foldText(text).folded, location, chapter }))
+}
+
+// Text the book's search index was built from, so no file is read while the answer waits
+const getIndexedPassages = (bookId: string): FoldedPassage[] => {
+  const index = getBookIndex(bookId)
+  if (!index?.indexedAt) return []
+
+  const key = `${bookId}:${index.indexedAt}`
+  if (cachedChunks?.key !== key) {
+    cachedChunks = { key, passages: foldPassages(getBookChunkTexts(bookId)) }
+  }
+  return cachedChunks.passages
+}
+
+// Pages around the selection or capture of a PDF session; EPUB sessions without an index only
+// have the selection and its surrounding text
+const getAnchorPages = async (session: ChatSession): Promise<FoldedPassage[]> => {
+  const pageNumber = session.anchor?.type === 'pdf' ? session.anchor.pageNumber : session.image?.pageNumber
+  const book = getBook(session.bookId)
+  if (!pageNumber || book?.fileType !== 'pdf') return []
+
+  const passages = await extractBookPassages(book, {
+    type: 'pdf',
+    startPage: pageNumber - ANCHOR_PAGE_RADIUS,
+    endPage: pageNumber + ANCHOR_PAGE_RADIUS + 1
+  })
+  return foldPassages(passages)
+}
+
+// Where the selected passage of a session is, as a place the reader can open
+const getAnchorLocation = (session: ChatSession): BookLocation | undefined => {
+  if (!session.anchor) return undefined
+  return session.anchor.type === 'pdf'
+    ? { type: 'pdf', pageNumber: session.anchor.pageNumber }
+    : { type: 'epub', cfi: session.anchor.cfiRange }
+}
+
+// First passage containing the quote; a quote running over a page or chunk break is found
+// across two neighbouring passages and located at the first
+const findInPassages = (passages: FoldedPassage[], quote: string): FoldedPassage | undefined => {
+  return passages.find(passage => findFolded(passage.folded, quote)) ??
+    passages.find((passage, i) => i + 1 < passages.length && findFolded(passage.folded + passages[i + 1].folded, quote))
+}
+
+// Check each <quote> in an answer against the session's selection and its surroundings, then the
+// book's indexed text, or the pages around the selection when the book isn't indexed. Failing to
+// read the book leaves quotes unverified rather than failing the answer.
+export const checkQuotes = async (session: ChatSession, answer: string): Promise<QuoteCheck[] | undefined> => {
+  const quotes = extractQuotes(answer)
+  if (quotes.length === 0) return undefined
+
+  const selection = foldText([session.context?.before, session.baseContext, session.context?.after].join('\n')).folded
+  let passages: FoldedPassage[] = []
+  try {
+    passages = getIndexedPassages(session.bookId)
+    if (passages.length === 0) passages = await getAnchorPages(session)
+  } catch (err) {
+    console.error('Failed to read book text for quote checking:', err)
+  }
+
+  return quotes.map((text): QuoteCheck => {
+    if (!isCheckableQuote(text)) {
+      return { text, verified: false, unverifiable: true }
+    }
+    if (selection && findFolded(selection, text)) {
+      return { text, verified: true, location: getAnchorLocation(session), chapter: session.context?.chapter }
+    }
+    const passage = findInPassages(passages, text)
+    return passage
+      ? { text, verified: true, location: passage.location, chapter: passage.chapter }
+      : { text, verified: false }
+  })
+}
@@ -0,0 +1,43 @@
+import { safeStorage } from 'electron'
+import type { SecretStorageStatus } from '@shared/types'
+
+// Secrets are stored as `<scheme>:<payload>`:
+//   safe:  base64 ciphertext from Electron safeStorage (Keychain, DPAPI or the Linux keyring)
+//   plain: the secret itself, only when safeStorage can't encrypt at all
+//
+// Linux fallback: without a running keyring (gnome-keyring/KWallet), safeStorage still encrypts
+// but with a hardcoded password ('basic_text' backend). That keeps keys out of casual view in the
+// database file but is not real protection, so it is reported as 'obfuscated' and the settings
+// screen tells the user to install a keyring.
+
+export const getSecretStorageStatus = (): SecretStorageStatus => {
+  if (!safeStorage.isEncryptionAvailable()) return 'plaintext'
+  if (process.platform === 'linux' && safeStorage.getSelectedStorageBackend() === 'basic_text') {
+    return 'obfuscated'
+  }
+  return 'encrypted'
+}
+
+export const encryptSecret = (value: string): string => {
+  if (!safeStorage.isEncryptionAvailable()) {
+    return `plain:${value}`
+  }
+  return `safe:${safeStorage.encryptString(value).toString('base64')}`
+}
+
+// Undefined when the value can't be read back, e.g. after the OS keyring was reset
+export const decryptSecret = (stored: string): string | undefined => {
+  const separator = stored.indexOf(':')
+  const scheme = stored.slice(0, separator)
+  const payload = stored.slice(separator + 1)
+
+  if (scheme === 'plain') return payload
+  if (scheme !== 'safe') return undefined
+
+  try {
+    return safeStorage.decryptString(Buffer.from(payload, 'base64'))
+  } catch (err) {
+    console.error('Failed to decrypt secret:', err)
+    return undefined
+  }
+}
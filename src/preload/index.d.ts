@@ -1,54 +1,135 @@
 import { ElectronAPI } from '@electron-toolkit/preload'
+import type {
+  Book,
+  ChatSession,
+  ChatMessage,
+  Settings,
+  DatabaseStatus,
+  TextAnchor,
+  Highlight,
+  HighlightColor,
+  Bookmark,
+  BookLocation,
+  BookProgress,
+  ImportProgress,
+  ImportSummary,
+  DuplicateResolution,
+  ChatStreamChunk,
+  ChatStreamResult,
+  PromptAction,
+  PromptActionInput,
+  LanguageSettings,
+  ChatSessionConfig,
+  SessionContext,
+  Citation,
+  QuoteCheck,
+  MessageUsage,
+  UsageQuery,
+  UsageRow,
+  RegionCapture,
+  BookIndexStatus,
+  ChapterRange,
+  ChapterSummary,
+  ChapterSummaryProgress,
+  ChapterSummaryResult,
+  ChapterSummaryExportResult,
+  LlmProviderId,
+  ProviderConfig,
+  ModelList,
+  ConnectionTestResult,
+  SecretStorageStatus
+} from '@shared/types'
 
 interface API {
-  importFile: (filePath: string) => Promise<{ success: boolean; book?: Book; error?: string }>
+  importFiles: (importId: string, paths: string[]) => Promise<ImportSummary>
+  cancelImport: (importId: string) => Promise<boolean>
+  resolveDuplicate: (
+    filePath: string,
+    bookId: string,
+    resolution: DuplicateResolution
+  ) => Promise<{ success: boolean; book?: Book; error?: string }>
+  onImportProgress: (callback: (progress: ImportProgress) => void) => () => void
+  getPathForFile: (file: File) => string
   getBooks: () => Promise<Book[]>
   getBook: (id: string) => Promise<Book | null>
   deleteBook: (id: string) => Promise<boolean>
-  updateBookProgress: (id: string, page: number) => Promise<boolean>
-  createChatSession: (bookId: string, baseContext: string) => Promise<ChatSession>
+  updateBookProgress: (id: string, progress: BookProgress) => Promise<boolean>
+  updateBookLanguageOverrides: (id: string, overrides: Partial<LanguageSettings>) => Promise<boolean>
+  createChatSession: (
+    bookId: string,
+    baseContext: string,
+    anchor?: TextAnchor,
+    context?: SessionContext
+  ) => Promise<ChatSession>
+  createBookChatSession: (bookId: string) => Promise<ChatSession>
+  createRegionChatSession: (bookId: string, capture: RegionCapture, context?: SessionContext) => Promise<ChatSession | null>
+  updateChatSessionConfig: (id: string, config: ChatSessionConfig) => Promise<boolean>
   getChatSessions: (bookId: string) => Promise<ChatSession[]>
   getChatMessages: (sessionId: string) => Promise<ChatMessage[]>
-  addChatMessage: (sessionId: string, role: 'user' | 'assistant', message: string) => Promise<ChatMessage>
+  addChatMessage: (
+    sessionId: string,
+    role: 'user' | 'assistant',
+    message: string,
+    citations?: Citation[],
+    usage?: MessageUsage,
+    quotes?: QuoteCheck[]
+  ) => Promise<ChatMessage>
+  getPendingChatMessages: (bookId: string) => Promise<ChatMessage[]>
+  setChatMessagePending: (messageId: string, pending: boolean) => Promise<boolean>
+  getHighlights: (bookId: string) => Promise<Highlight[]>
+  createHighlight: (
+    bookId: string,
+    highlight: { color: HighlightColor; anchor: TextAnchor; text: string; note?: string }
+  ) => Promise<Highlight>
+  updateHighlight: (id: string, changes: { color?: HighlightColor; note?: string }) => Promise<boolean>
+  deleteHighlight: (id: string) => Promise<boolean>
+  getBookmarks: (bookId: string) => Promise<Bookmark[]>
+  createBookmark: (
+    bookId: string,
+    bookmark: { location: BookLocation; label?: string; chapter?: string }
+  ) => Promise<Bookmark>
+  updateBookmark: (id: string, label: string) => Promise<boolean>
+  deleteBookmark: (id: string) => Promise<boolean>
+  getPromptActions: () => Promise<PromptAction[]>
+  createPromptAction: (action: PromptActionInput) => Promise<PromptAction>
+  updatePromptAction: (id: string, action: PromptActionInput) => Promise<boolean>
+  deletePromptAction: (id: string) => Promise<boolean>
+  reorderPromptActions: (ids: string[]) => Promise<boolean>
+  getEpubLocations: (bookId: string) => Promise<string | null>
+  saveEpubLocations: (bookId: string, locations: string) => Promise<boolean>
   getSettings: () => Promise<Settings>
   saveSettings: (settings: Partial<Settings>) => Promise<boolean>
-  openFileDialog: () => Promise<string | null>
-  callGemini: (sessionId: string, userMessage: string) => Promise<{ success: boolean; response?: string; error?: string }>
-}
-
-interface Book {
-  id: string
-  title: string
-  author: string
-  filePath: string
-  coverPath?: string
-  fileType: 'pdf' | 'epub'
-  lastPage: number
-  totalPages?: number
-  createdAt: string
-  updatedAt: string
-}
-
-interface ChatSession {
-  id: string
-  bookId: string
-  baseContext: string
-  createdAt: string
-  updatedAt: string
-}
-
-interface ChatMessage {
-  id: string
-  sessionId: string
-  role: 'user' | 'assistant'
-  message: string
-  createdAt: string
-}
-
-interface Settings {
-  geminiApiKey?: string
-  theme: 'light' | 'dark'
-  model: string
+  getDatabaseStatus: () => Promise<DatabaseStatus>
+  openFileDialog: () => Promise<string[] | null>
+  openFolderDialog: () => Promise<string[] | null>
+  testProviderConnection: (providerId: LlmProviderId, config: ProviderConfig) => Promise<ConnectionTestResult>
+  getCachedModels: (providerId: LlmProviderId, baseUrl: string) => Promise<ModelList | null>
+  setApiKey: (providerId: LlmProviderId, apiKey: string | null) => Promise<boolean>
+  getSecretStorageStatus: () => Promise<SecretStorageStatus>
+  getBookIndexStatus: (bookId: string) => Promise<BookIndexStatus>
+  indexBook: (bookId: string) => Promise<BookIndexStatus>
+  cancelBookIndex: (bookId: string) => Promise<boolean>
+  onBookIndexProgress: (callback: (status: BookIndexStatus) => void) => () => void
+  getChapterSummaries: (bookId: string) => Promise<ChapterSummary[]>
+  summarizeChapter: (
+    bookId: string,
+    tocItemId: string,
+    label: string,
+    range: ChapterRange,
+    refresh?: boolean
+  ) => Promise<ChapterSummaryResult>
+  deleteChapterSummary: (bookId: string, tocItemId: string) => Promise<boolean>
+  exportChapterSummaries: (bookId: string, tocItemIds: string[]) => Promise<ChapterSummaryExportResult>
+  onChapterSummaryProgress: (callback: (progress: ChapterSummaryProgress) => void) => () => void
+  streamLLM: (
+    requestId: string,
+    sessionId: string,
+    userMessage: string,
+    messageId?: string
+  ) => Promise<ChatStreamResult>
+  cancelLLMStream: (requestId: string) => Promise<boolean>
+  onLLMStreamChunk: (callback: (chunk: ChatStreamChunk) => void) => () => void
+  getUsageReport: (query: UsageQuery) => Promise<UsageRow[]>
 }
 
 declare global {
@@ -1,39 +1,178 @@
-import { contextBridge, ipcRenderer } from 'electron'
+import { contextBridge, ipcRenderer, webUtils } from 'electron'
+import type { IpcRendererEvent } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
+import type {
+  TextAnchor,
+  HighlightColor,
+  BookLocation,
+  BookProgress,
+  ImportProgress,
+  DuplicateResolution,
+  ChatStreamChunk,
+  PromptActionInput,
+  LanguageSettings,
+  ChatSessionConfig,
+  SessionContext,
+  Citation,
+  QuoteCheck,
+  MessageUsage,
+  UsageQuery,
+  RegionCapture,
+  BookIndexStatus,
+  ChapterRange,
+  ChapterSummaryProgress,
+  LlmProviderId,
+  ProviderConfig
+} from '@shared/types'
 
 // Custom APIs for renderer
 const api = {
   // File operations
-  importFile: (filePath: string) => ipcRenderer.invoke('import-file', filePath),
+  importFiles: (importId: string, paths: string[]) => 
+    ipcRenderer.invoke('import-files', importId, paths),
+  cancelImport: (importId: string) => ipcRenderer.invoke('cancel-import', importId),
+  resolveDuplicate: (filePath: string, bookId: string, resolution: DuplicateResolution) => 
+    ipcRenderer.invoke('resolve-duplicate', filePath, bookId, resolution),
+  onImportProgress: (callback: (progress: ImportProgress) => void) => {
+    const listener = (_: IpcRendererEvent, progress: ImportProgress) => callback(progress)
+    ipcRenderer.on('import-progress', listener)
+    return () => {
+      ipcRenderer.removeListener('import-progress', listener)
+    }
+  },
+  // Dropped File objects no longer expose a path, so resolve it here
+  getPathForFile: (file: File) => webUtils.getPathForFile(file),
   
   // Book operations
   getBooks: () => ipcRenderer.invoke('get-books'),
   getBook: (id: string) => ipcRenderer.invoke('get-book', id),
   deleteBook: (id: string) => ipcRenderer.invoke('delete-book', id),
-  updateBookProgress: (id: string, page: number) => 
-    ipcRenderer.invoke('update-book-progress', id, page),
+  updateBookProgress: (id: string, progress: BookProgress) => 
+    ipcRenderer.invoke('update-book-progress', id, progress),
+  updateBookLanguageOverrides: (id: string, overrides: Partial<LanguageSettings>) =>
+    ipcRenderer.invoke('update-book-language-overrides', id, overrides),
   
   // Chat session operations
-  createChatSession: (bookId: string, baseContext: string) => 
-    ipcRenderer.invoke('create-chat-session', bookId, baseContext),
+  createChatSession: (bookId: string, baseContext: string, anchor?: TextAnchor, context?: SessionContext) => 
+    ipcRenderer.invoke('create-chat-session', bookId, baseContext, anchor, context),
+  createBookChatSession: (bookId: string) => ipcRenderer.invoke('create-book-chat-session', bookId),
+  createRegionChatSession: (bookId: string, capture: RegionCapture, context?: SessionContext) =>
+    ipcRenderer.invoke('create-region-chat-session', bookId, capture, context),
+  updateChatSessionConfig: (id: string, config: ChatSessionConfig) =>
+    ipcRenderer.invoke('update-chat-session-config', id, config),
   getChatSessions: (bookId: string) => 
     ipcRenderer.invoke('get-chat-sessions', bookId),
   getChatMessages: (sessionId: string) => 
     ipcRenderer.invoke('get-chat-messages', sessionId),
-  addChatMessage: (sessionId: string, role: 'user' | 'assistant', message: string) => 
-    ipcRenderer.invoke('add-chat-message', sessionId, role, message),
+  addChatMessage: (
+    sessionId: string,
+    role: 'user' | 'assistant',
+    message: string,
+    citations?: Citation[],
+    usage?: MessageUsage,
+    quotes?: QuoteCheck[]
+  ) => ipcRenderer.invoke('add-chat-message', sessionId, role, message, citations, usage, quotes),
+  getPendingChatMessages: (bookId: string) => 
+    ipcRenderer.invoke('get-pending-chat-messages', bookId),
+  setChatMessagePending: (messageId: string, pending: boolean) => 
+    ipcRenderer.invoke('set-chat-message-pending', messageId, pending),
+  
+  // Highlight operations
+  getHighlights: (bookId: string) => ipcRenderer.invoke('get-highlights', bookId),
+  createHighlight: (
+    bookId: string,
+    highlight: { color: HighlightColor; anchor: TextAnchor; text: string; note?: string }
+  ) => ipcRenderer.invoke('create-highlight', bookId, highlight),
+  updateHighlight: (id: string, changes: { color?: HighlightColor; note?: string }) =>
+    ipcRenderer.invoke('update-highlight', id, changes),
+  deleteHighlight: (id: string) => ipcRenderer.invoke('delete-highlight', id),
+  
+  // Bookmark operations
+  getBookmarks: (bookId: string) => ipcRenderer.invoke('get-bookmarks', bookId),
+  createBookmark: (
+    bookId: string,
+    bookmark: { location: BookLocation; label?: string; chapter?: string }
+  ) => ipcRenderer.invoke('create-bookmark', bookId, bookmark),
+  updateBookmark: (id: string, label: string) => ipcRenderer.invoke('update-bookmark', id, label),
+  deleteBookmark: (id: string) => ipcRenderer.invoke('delete-bookmark', id),
+  
+  // Prompt actions
+  getPromptActions: () => ipcRenderer.invoke('get-prompt-actions'),
+  createPromptAction: (action: PromptActionInput) => ipcRenderer.invoke('create-prompt-action', action),
+  updatePromptAction: (id: string, action: PromptActionInput) => 
+    ipcRenderer.invoke('update-prompt-action', id, action),
+  deletePromptAction: (id: string) => ipcRenderer.invoke('delete-prompt-action', id),
+  reorderPromptActions: (ids: string[]) => ipcRenderer.invoke('reorder-prompt-actions', ids),
+  
+  // EPUB location cache
+  getEpubLocations: (bookId: string) => 
+    ipcRenderer.invoke('get-epub-locations', bookId),
+  saveEpubLocations: (bookId: string, locations: string) => 
+    ipcRenderer.invoke('save-epub-locations', bookId, locations),
   
   // Settings
   getSettings: () => ipcRenderer.invoke('get-settings'),
   saveSettings: (settings: Record<string, unknown>) => 
     ipcRenderer.invoke('save-settings', settings),
   
+  // Database
+  getDatabaseStatus: () => ipcRenderer.invoke('get-database-status'),
+  
   // Dialog
   openFileDialog: () => ipcRenderer.invoke('open-file-dialog'),
+  openFolderDialog: () => ipcRenderer.invoke('open-folder-dialog'),
+
+  // LLM providers
+  testProviderConnection: (providerId: LlmProviderId, config: ProviderConfig) =>
+    ipcRenderer.invoke('test-provider-connection', providerId, config),
+  getCachedModels: (providerId: LlmProviderId, baseUrl: string) =>
+    ipcRenderer.invoke('get-cached-models', providerId, baseUrl),
+  setApiKey: (providerId: LlmProviderId, apiKey: string | null) =>
+    ipcRenderer.invoke('set-api-key', providerId, apiKey),
+  getSecretStorageStatus: () => ipcRenderer.invoke('get-secret-storage-status'),
+
+  // Book search index
+  getBookIndexStatus: (bookId: string) => ipcRenderer.invoke('get-book-index-status', bookId),
+  indexBook: (bookId: string) => ipcRenderer.invoke('index-book', bookId),
+  cancelBookIndex: (bookId: string) => ipcRenderer.invoke('cancel-book-index', bookId),
+  onBookIndexProgress: (callback: (status: BookIndexStatus) => void) => {
+    const listener = (_: IpcRendererEvent, status: BookIndexStatus) => callback(status)
+    ipcRenderer.on('book-index-progress', listener)
+    return () => {
+      ipcRenderer.removeListener('book-index-progress', listener)
+    }
+  },
+
+  // Chapter summaries
+  getChapterSummaries: (bookId: string) => ipcRenderer.invoke('get-chapter-summaries', bookId),
+  summarizeChapter: (bookId: string, tocItemId: string, label: string, range: ChapterRange, refresh?: boolean) =>
+    ipcRenderer.invoke('summarize-chapter', bookId, tocItemId, label, range, refresh),
+  deleteChapterSummary: (bookId: string, tocItemId: string) =>
+    ipcRenderer.invoke('delete-chapter-summary', bookId, tocItemId),
+  exportChapterSummaries: (bookId: string, tocItemIds: string[]) =>
+    ipcRenderer.invoke('export-chapter-summaries', bookId, tocItemIds),
+  onChapterSummaryProgress: (callback: (progress: ChapterSummaryProgress) => void) => {
+    const listener = (_: IpcRendererEvent, progress: ChapterSummaryProgress) => callback(progress)
+    ipcRenderer.on('chapter-summary-progress', listener)
+    return () => {
+      ipcRenderer.removeListener('chapter-summary-progress', listener)
+    }
+  },
+
+  // LLM chat
+  streamLLM: (requestId: string, sessionId: string, userMessage: string, messageId?: string) => 
+    ipcRenderer.invoke('stream-llm', requestId, sessionId, userMessage, messageId),
+  cancelLLMStream: (requestId: string) => ipcRenderer.invoke('cancel-llm-stream', requestId),
+  onLLMStreamChunk: (callback: (chunk: ChatStreamChunk) => void) => {
+    const listener = (_: IpcRendererEvent, chunk: ChatStreamChunk) => callback(chunk)
+    ipcRenderer.on('llm-stream-chunk', listener)
+    return () => {
+      ipcRenderer.removeListener('llm-stream-chunk', listener)
+    }
+  },
 
-  // Gemini API
-  callGemini: (sessionId: string, userMessage: string) => 
-    ipcRenderer.invoke('call-gemini', sessionId, userMessage)
+  // Usage
+  getUsageReport: (query: UsageQuery) => ipcRenderer.invoke('get-usage-report', query)
 }
 
 // Use `contextBridge` APIs to expose Electron APIs to
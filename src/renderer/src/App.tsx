@@ -3,13 +3,29 @@ import { IconSidebar } from './components/layout/IconSidebar'
 import { TOCPanel } from './components/layout/TOCPanel'
 import { SearchPanel } from './components/layout/SearchPanel'
 import { TypographyPanel } from './components/layout/TypographyPanel'
-import { LibraryView, ReaderView } from './views'
+import { BookmarksPanel } from './components/layout/BookmarksPanel'
+import { SummariesPanel } from './components/layout/SummariesPanel'
+import type { SummaryJob } from './components/layout/SummariesPanel'
+import { LibraryView, ReaderView, DatabaseErrorView } from './views'
 import type { ReaderViewRef } from './views'
 import { SettingsModal } from './components/settings/SettingsModal'
-import type { Book, TocItem, ReaderSettings, SearchResult } from '@shared/types'
+import { flattenToc, getChapterRange } from './utils/toc'
+import type {
+  Book,
+  TocItem,
+  ReaderSettings,
+  SearchResult,
+  DatabaseStatus,
+  Bookmark,
+  BookLocation,
+  ChapterSummary,
+  PromptAction,
+  Settings,
+  LanguageSettings
+} from '@shared/types'
 
 type View = 'library' | 'reader'
-type PanelType = 'toc' | 'search' | 'typography' | null
+type PanelType = 'toc' | 'search' | 'typography' | 'bookmarks' | 'summaries' | null
 
 const DEFAULT_READER_SETTINGS: ReaderSettings = {
   pageView: 'double',
@@ -19,6 +35,12 @@ const DEFAULT_READER_SETTINGS: ReaderSettings = {
   lineHeight: 1.5
 }
 
+const pickLanguageSettings = (settings: Settings): LanguageSettings => ({
+  answerLanguage: settings.answerLanguage,
+  translationSource: settings.translationSource,
+  translationTarget: settings.translationTarget
+})
+
 function App() {
   const readerRef = useRef<ReaderViewRef>(null)
   
@@ -29,20 +51,82 @@ function App() {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
   const [tocItems, setTocItems] = useState<TocItem[]>([])
   const [readerSettings, setReaderSettings] = useState<ReaderSettings>(DEFAULT_READER_SETTINGS)
+  const [dbStatus, setDbStatus] = useState<DatabaseStatus | null>(null)
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([])
+  const [chapterSummaries, setChapterSummaries] = useState<ChapterSummary[]>([])
+  const [summaryJobs, setSummaryJobs] = useState<Record<string, SummaryJob>>({})
+  const [focusedSummaryId, setFocusedSummaryId] = useState<string | null>(null)
+  const [promptActions, setPromptActions] = useState<PromptAction[]>([])
+  const [languageSettings, setLanguageSettings] = useState<LanguageSettings | undefined>()
+  const [surroundingParagraphs, setSurroundingParagraphs] = useState<number | undefined>()
+
+  // Check that the database opened and migrated cleanly
+  useEffect(() => {
+    window.api.getDatabaseStatus()
+      .then(setDbStatus)
+      .catch(err => console.error('Failed to get database status:', err))
+  }, [])
 
-  // Load theme from settings on mount
+  // Load theme and language settings on mount
   useEffect(() => {
-    const loadTheme = async () => {
+    const loadSettings = async () => {
       try {
         const settings = await window.api.getSettings()
         setTheme(settings.theme)
+        setLanguageSettings(pickLanguageSettings(settings))
+        setSurroundingParagraphs(settings.surroundingParagraphs)
       } catch (err) {
-        console.error('Failed to load theme:', err)
+        console.error('Failed to load settings:', err)
       }
     }
-    loadTheme()
+    loadSettings()
+  }, [])
+
+  // Load prompt actions for the selection bubble
+  const loadPromptActions = useCallback(() => {
+    window.api.getPromptActions()
+      .then(setPromptActions)
+      .catch(err => console.error('Failed to load prompt actions:', err))
   }, [])
 
+  useEffect(() => {
+    loadPromptActions()
+  }, [loadPromptActions])
+
+  // Load bookmarks for the open book
+  useEffect(() => {
+    if (!selectedBook) {
+      setBookmarks([])
+      return
+    }
+    window.api.getBookmarks(selectedBook.id)
+      .then(setBookmarks)
+      .catch(err => console.error('Failed to load bookmarks:', err))
+  }, [selectedBook])
+
+  // Load cached chapter summaries for the open book
+  useEffect(() => {
+    setSummaryJobs({})
+    setFocusedSummaryId(null)
+    if (!selectedBook) {
+      setChapterSummaries([])
+      return
+    }
+    window.api.getChapterSummaries(selectedBook.id)
+      .then(setChapterSummaries)
+      .catch(err => console.error('Failed to load chapter summaries:', err))
+  }, [selectedBook])
+
+  // Progress of long chapters summarized in parts
+  useEffect(() => {
+    return window.api.onChapterSummaryProgress((progress) => {
+      if (progress.bookId !== selectedBook?.id) return
+      setSummaryJobs(prev => prev[progress.tocItemId]
+        ? { ...prev, [progress.tocItemId]: { processed: progress.processed, total: progress.total } }
+        : prev)
+    })
+  }, [selectedBook])
+
   const handleBookSelect = (book: Book) => {
     setSelectedBook(book)
     setCurrentView('reader')
@@ -74,6 +158,83 @@ function App() {
     return await readerRef.current.search(query)
   }, [])
 
+  const handleAddBookmark = useCallback(async (location: BookLocation, chapter?: string) => {
+    if (!selectedBook) return
+    const bookmark = await window.api.createBookmark(selectedBook.id, { location, chapter })
+    if (bookmark) {
+      setBookmarks(prev => [...prev, bookmark])
+    }
+  }, [selectedBook])
+
+  const handleRenameBookmark = useCallback(async (bookmark: Bookmark, label: string) => {
+    const success = await window.api.updateBookmark(bookmark.id, label)
+    if (success) {
+      setBookmarks(prev => prev.map(b => b.id === bookmark.id ? { ...b, label } : b))
+    }
+  }, [])
+
+  const handleDeleteBookmark = useCallback(async (bookmark: Bookmark) => {
+    await window.api.deleteBookmark(bookmark.id)
+    setBookmarks(prev => prev.filter(b => b.id !== bookmark.id))
+  }, [])
+
+  const handleBookmarkClick = useCallback((bookmark: Bookmark) => {
+    readerRef.current?.navigateToBookmark(bookmark)
+  }, [])
+
+  const summarizeChapter = useCallback(async (item: TocItem, refresh: boolean) => {
+    if (!selectedBook) return
+    const range = getChapterRange(tocItems, item)
+    if (!range) return
+
+    setActivePanel('summaries')
+    setFocusedSummaryId(item.id)
+    // Cached summaries come back immediately; only regenerate on request
+    if (!refresh && chapterSummaries.some(s => s.tocItemId === item.id)) return
+
+    const bookId = selectedBook.id
+    setSummaryJobs(prev => ({ ...prev, [item.id]: { processed: 0, total: 0 } }))
+    const result = await window.api.summarizeChapter(bookId, item.id, item.label, range, refresh)
+    if (result.success && result.summary) {
+      const summary = result.summary
+      setChapterSummaries(prev => [...prev.filter(s => s.tocItemId !== summary.tocItemId), summary])
+      setSummaryJobs(prev => {
+        const { [item.id]: _done, ...rest } = prev
+        return rest
+      })
+    } else {
+      setSummaryJobs(prev => ({
+        ...prev,
+        [item.id]: { processed: 0, total: 0, error: result.error || '챕터를 요약하지 못했습니다.' }
+      }))
+    }
+  }, [selectedBook, tocItems, chapterSummaries])
+
+  const handleSummarizeChapter = useCallback((item: TocItem) => {
+    summarizeChapter(item, false)
+  }, [summarizeChapter])
+
+  const handleRegenerateSummary = useCallback((item: TocItem) => {
+    summarizeChapter(item, true)
+  }, [summarizeChapter])
+
+  const handleDeleteSummary = useCallback(async (summary: ChapterSummary) => {
+    if (await window.api.deleteChapterSummary(summary.bookId, summary.tocItemId)) {
+      setChapterSummaries(prev => prev.filter(s => s.tocItemId !== summary.tocItemId))
+    }
+  }, [])
+
+  // Export in TOC order; summaries whose entry is gone from the TOC go last
+  const handleExportSummaries = useCallback(async () => {
+    if (!selectedBook) return
+    const tocIds = flattenToc(tocItems).map(item => item.id)
+    const ids = [...tocIds, ...chapterSummaries.map(s => s.tocItemId).filter(id => !tocIds.includes(id))]
+    const result = await window.api.exportChapterSummaries(selectedBook.id, ids)
+    if (!result.success) {
+      alert(result.error || '요약을 내보내지 못했습니다.')
+    }
+  }, [selectedBook, tocItems, chapterSummaries])
+
   const togglePanel = useCallback((panel: PanelType) => {
     setActivePanel(activePanel === panel ? null : panel)
   }, [activePanel])
@@ -90,9 +251,14 @@ function App() {
 
   const handleCloseSettings = useCallback(() => {
     setIsSettingsOpen(false)
-    // Reload theme in case it was changed
-    window.api.getSettings().then(settings => setTheme(settings.theme))
-  }, [])
+    // Reload theme, languages and prompt actions in case they were changed
+    window.api.getSettings().then(settings => {
+      setTheme(settings.theme)
+      setLanguageSettings(pickLanguageSettings(settings))
+      setSurroundingParagraphs(settings.surroundingParagraphs)
+    })
+    loadPromptActions()
+  }, [loadPromptActions])
 
   const handleSettingsChange = useCallback((settings: ReaderSettings) => {
     setReaderSettings(settings)
@@ -104,6 +270,8 @@ function App() {
         onToggleToc={() => togglePanel('toc')}
         onToggleSearch={() => togglePanel('search')}
         onToggleTypography={() => togglePanel('typography')}
+        onToggleBookmarks={() => togglePanel('bookmarks')}
+        onToggleSummaries={() => togglePanel('summaries')}
         onToggleTheme={toggleTheme}
         onSettings={handleOpenSettings}
         theme={theme}
@@ -117,6 +285,8 @@ function App() {
           book={selectedBook}
           tocItems={tocItems}
           onItemClick={handleTocItemClick}
+          onSummarize={currentView === 'reader' ? handleSummarizeChapter : undefined}
+          summarizedIds={new Set(chapterSummaries.map(s => s.tocItemId))}
         />
       )}
 
@@ -138,9 +308,35 @@ function App() {
           onSettingsChange={handleSettingsChange}
         />
       )}
+
+      {activePanel === 'bookmarks' && currentView === 'reader' && selectedBook && (
+        <BookmarksPanel
+          isOpen={true}
+          bookmarks={bookmarks}
+          onItemClick={handleBookmarkClick}
+          onRename={handleRenameBookmark}
+          onDelete={handleDeleteBookmark}
+        />
+      )}
+
+      {activePanel === 'summaries' && currentView === 'reader' && selectedBook && (
+        <SummariesPanel
+          isOpen={true}
+          tocItems={tocItems}
+          summaries={chapterSummaries}
+          jobs={summaryJobs}
+          focusedId={focusedSummaryId}
+          onItemClick={handleTocItemClick}
+          onRegenerate={handleRegenerateSummary}
+          onDelete={handleDeleteSummary}
+          onExport={handleExportSummaries}
+        />
+      )}
       
       <main className="main-content">
-        {currentView === 'library' ? (
+        {dbStatus && !dbStatus.ok ? (
+          <DatabaseErrorView status={dbStatus} />
+        ) : currentView === 'library' ? (
           <LibraryView onBookSelect={handleBookSelect} />
         ) : (
           <ReaderView 
@@ -149,6 +345,12 @@ function App() {
             onBack={handleBackToLibrary}
             onTocLoad={handleTocLoad}
             settings={readerSettings}
+            bookmarks={bookmarks}
+            promptActions={promptActions}
+            languageSettings={languageSettings}
+            surroundingParagraphs={surroundingParagraphs}
+            onAddBookmark={handleAddBookmark}
+            onRemoveBookmark={handleDeleteBookmark}
           />
         )}
       </main>
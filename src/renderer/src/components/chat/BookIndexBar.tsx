@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react'
+import { ArrowPathIcon } from '@heroicons/react/24/outline'
+import { EMBEDDING_PROVIDER_NAMES } from '@shared/types'
+import type { BookIndexStatus } from '@shared/types'
+
+interface BookIndexBarProps {
+  bookId: string
+}
+
+// Search index state of the book behind a whole-book chat, with indexing controls
+export function BookIndexBar({ bookId }: BookIndexBarProps) {
+  const [status, setStatus] = useState<BookIndexStatus | null>(null)
+
+  useEffect(() => {
+    window.api.getBookIndexStatus(bookId)
+      .then(setStatus)
+      .catch(err => console.error('Failed to load index status:', err))
+
+    return window.api.onBookIndexProgress((update) => {
+      if (update.bookId === bookId) {
+        setStatus(update)
+      }
+    })
+  }, [bookId])
+
+  const handleIndex = () => {
+    window.api.indexBook(bookId).catch(err => console.error('Failed to index book:', err))
+  }
+
+  const handleCancel = () => {
+    window.api.cancelBookIndex(bookId)
+  }
+
+  if (!status) return null
+
+  const describeStatus = () => {
+    switch (status.state) {
+      case 'indexing':
+        return status.total
+          ? `색인 중 ${status.processed ?? 0}/${status.total}`
+          : '책 텍스트를 읽는 중...'
+      case 'ready':
+        return `색인 완료 · 조각 ${status.chunkCount}개 · ${EMBEDDING_PROVIDER_NAMES[status.embeddingProvider!]}`
+      case 'failed':
+        return `색인 실패: ${status.error}`
+      default:
+        return '아직 색인이 없습니다. 색인을 만들어야 책 전체에 질문할 수 있습니다.'
+    }
+  }
+
+  const progress = status.state === 'indexing' && status.total
+    ? Math.round(((status.processed ?? 0) / status.total) * 100)
+    : null
+
+  return (
+    <div className={`book-index-bar ${status.state}`}>
+      <div className="book-index-row">
+        <span className="book-index-text">{describeStatus()}</span>
+        {status.state === 'indexing' ? (
+          <button className="book-index-btn" onClick={handleCancel}>
+            취소
+          </button>
+        ) : (
+          <button className="book-index-btn" onClick={handleIndex}>
+            <ArrowPathIcon className="book-index-icon" />
+            {status.state === 'none' ? '색인 만들기' : '다시 색인'}
+          </button>
+        )}
+      </div>
+      {progress !== null && (
+        <div className="book-index-progress">
+          <div className="book-index-progress-fill" style={{ width: `${progress}%` }} />
+        </div>
+      )}
+
+      <style>{`
+        .book-index-bar {
+          display: flex;
+          flex-direction: column;
+          gap: var(--spacing-xs);
+          margin-top: var(--spacing-sm);
+        }
+
+        .book-index-row {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: var(--spacing-sm);
+        }
+
+        .book-index-text {
+          font-size: 12px;
+          color: var(--color-text-secondary);
+          word-break: break-word;
+        }
+
+        .book-index-bar.failed .book-index-text {
+          color: #ef4444;
+        }
+
+        .book-index-btn {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          flex-shrink: 0;
+          padding: 4px 8px;
+          font-size: 12px;
+          color: var(--color-accent);
+          border-radius: 4px;
+          transition: background-color var(--transition-fast);
+        }
+
+        .book-index-btn:hover {
+          background-color: var(--color-bg-tertiary);
+        }
+
+        .book-index-icon {
+          width: 14px;
+          height: 14px;
+        }
+
+        .book-index-progress {
+          height: 4px;
+          background-color: var(--color-bg-tertiary);
+          border-radius: 2px;
+          overflow: hidden;
+        }
+
+        .book-index-progress-fill {
+          height: 100%;
+          background-color: var(--color-accent);
+          transition: width var(--transition-fast);
+        }
+      `}</style>
+    </div>
+  )
+}
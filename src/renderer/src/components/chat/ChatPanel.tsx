@@ -1,14 +1,25 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { PaperAirplaneIcon, Cog6ToothIcon, PlusIcon } from '@heroicons/react/24/outline'
-import ReactMarkdown from 'react-markdown'
-import type { ChatSession, ChatMessage } from '@shared/types'
+import { Fragment, useState, useEffect, useCallback, useRef } from 'react'
+import { PaperAirplaneIcon, Cog6ToothIcon, PlusIcon, MapPinIcon, StopIcon, BookOpenIcon } from '@heroicons/react/24/outline'
+import type { ChatSession, ChatSessionConfig, ChatMessage, Citation, QuoteCheck, TextAnchor } from '@shared/types'
+import { SessionSettingsPopover } from './SessionSettingsPopover'
+import { BookIndexBar } from './BookIndexBar'
+import { CitedAnswer } from './CitedAnswer'
+import { describeMessageUsage, formatCost, getMonthStart, summarizeUsage } from '../../utils/usage'
+
+// How often questions saved while offline are retried
+const PENDING_RETRY_MS = 30000
 
 interface ChatPanelProps {
   bookId: string
   selectedSession: ChatSession | null
   onSessionSelect: (session: ChatSession) => void
+  onGoToSource?: (session: ChatSession) => void
   onNewSession?: () => void
+  onNewBookSession?: () => void
+  onGoToCitation?: (citation: Citation) => void
+  onGoToQuote?: (quote: QuoteCheck) => void
   initialMessage?: string
+  autoSendInitialMessage?: boolean
   onClearInitialMessage?: () => void
 }
 
@@ -16,14 +27,31 @@ export function ChatPanel({
   bookId,
   selectedSession,
   onSessionSelect,
+  onGoToSource,
   onNewSession,
+  onNewBookSession,
+  onGoToCitation,
+  onGoToQuote,
   initialMessage,
+  autoSendInitialMessage,
   onClearInitialMessage
 }: ChatPanelProps) {
   const [sessions, setSessions] = useState<ChatSession[]>([])
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [input, setInput] = useState('')
   const [loading, setLoading] = useState(false)
+  // Answer text received so far while a response is streaming, and the session it belongs to
+  const [streamingText, setStreamingText] = useState<string | null>(null)
+  const [streamingSessionId, setStreamingSessionId] = useState<string | null>(null)
+  // Questions of this book saved while offline, oldest first; stored flagged so they outlive the panel
+  const [pendingQuestions, setPendingQuestions] = useState<ChatMessage[]>([])
+  const [isSessionSettingsOpen, setIsSessionSettingsOpen] = useState(false)
+  // Set while this month's estimated cost is over the budget from settings
+  const [budgetWarning, setBudgetWarning] = useState<string | null>(null)
+  const requestIdRef = useRef<string | null>(null)
+  // Answers finishing after the user moved to another session must not land in its message list
+  const selectedSessionRef = useRef(selectedSession)
+  selectedSessionRef.current = selectedSession
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   // Load sessions
@@ -40,6 +68,39 @@ export function ChatPanel({
     loadSessions()
   }, [loadSessions])
 
+  useEffect(() => {
+    const loadPendingQuestions = async () => {
+      try {
+        setPendingQuestions(await window.api.getPendingChatMessages(bookId))
+      } catch (err) {
+        console.error('Failed to load pending messages:', err)
+      }
+    }
+
+    loadPendingQuestions()
+  }, [bookId])
+
+  const checkBudget = useCallback(async () => {
+    try {
+      const { usage } = await window.api.getSettings()
+      if (!usage.monthlyBudget) {
+        setBudgetWarning(null)
+        return
+      }
+      const rows = await window.api.getUsageReport({ group: 'model', from: getMonthStart() })
+      const cost = summarizeUsage(rows, usage.prices).reduce((sum, total) => sum + total.cost, 0)
+      setBudgetWarning(cost >= usage.monthlyBudget
+        ? `이번 달 예상 비용 ${formatCost(cost)}이 예산 ${formatCost(usage.monthlyBudget)}을 넘었습니다`
+        : null)
+    } catch (err) {
+      console.error('Failed to check usage budget:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    checkBudget()
+  }, [checkBudget])
+
   // Load messages when session changes
   useEffect(() => {
     const loadMessages = async () => {
@@ -59,58 +120,110 @@ export function ChatPanel({
     loadMessages()
   }, [selectedSession])
 
-  // Handle initial message
+  // Handle initial message; prompt actions flagged auto-send skip the input box
   useEffect(() => {
     if (initialMessage) {
-      setInput(initialMessage)
+      if (autoSendInitialMessage && selectedSession && !loading) {
+        sendMessage(initialMessage)
+      } else {
+        setInput(initialMessage)
+      }
       onClearInitialMessage?.()
     }
-  }, [initialMessage, onClearInitialMessage])
+  }, [initialMessage, autoSendInitialMessage, selectedSession, onClearInitialMessage])
+
+  // Append streamed chunks for the request in flight
+  useEffect(() => {
+    return window.api.onLLMStreamChunk((chunk) => {
+      if (chunk.requestId === requestIdRef.current) {
+        setStreamingText(prev => (prev ?? '') + chunk.text)
+      }
+    })
+  }, [])
 
   // Auto scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
-
-  const handleSendMessage = async () => {
-    if (!input.trim() || !selectedSession) return
+  }, [messages, streamingText])
 
-    const userMessage = input.trim()
-    setInput('')
-    setLoading(true)
+  // Stream the answer to a saved question. Resolves false when the connection is down, leaving
+  // the question to be sent again later; the session may no longer be the selected one by then.
+  const requestAnswer = async (question: ChatMessage): Promise<boolean> => {
+    const sessionId = question.sessionId
+    const requestId = crypto.randomUUID()
+    requestIdRef.current = requestId
+    setStreamingSessionId(sessionId)
+    setStreamingText('')
 
     try {
-      // Add user message
-      const newUserMessage = await window.api.addChatMessage(
-        selectedSession.id,
-        'user',
-        userMessage
-      )
-      setMessages(prev => [...prev, newUserMessage])
+      const result = await window.api.streamLLM(requestId, sessionId, question.message, question.id)
+      if (!result.success && result.errorCategory === 'offline') {
+        return false
+      }
 
-      // Call Gemini API
-      const result = await window.api.callGemini(selectedSession.id, userMessage)
-      
-      if (result.success && result.response) {
-        // Add assistant response
-        const assistantMessage = await window.api.addChatMessage(
-          selectedSession.id,
+      let answer: ChatMessage | null = null
+      if (result.success && result.aborted && !result.response) {
+        // Stopped before any text arrived; nothing to keep
+      } else if (result.success && result.response) {
+        // Add assistant response (partial if the user stopped it)
+        answer = await window.api.addChatMessage(
+          sessionId,
           'assistant',
-          result.response
+          result.response,
+          result.citations,
+          result.usage,
+          result.quotes
         )
-        setMessages(prev => [...prev, assistantMessage])
       } else {
         // Add error message
-        const errorMessage = await window.api.addChatMessage(
-          selectedSession.id,
+        answer = await window.api.addChatMessage(
+          sessionId,
           'assistant',
           `오류: ${result.error || '응답을 받지 못했습니다.'}`
         )
-        setMessages(prev => [...prev, errorMessage])
+      }
+
+      const current = selectedSessionRef.current
+      if (answer && current?.id === sessionId) {
+        setMessages(prev => [...prev, answer])
+      }
+
+      // Older turns were folded into the session summary for this request
+      if (result.success && result.summary && current?.id === sessionId) {
+        onSessionSelect({ ...current, summary: result.summary })
       }
 
       // Reload sessions to update order
       loadSessions()
+      checkBudget()
+      return true
+    } finally {
+      requestIdRef.current = null
+      setStreamingText(null)
+    }
+  }
+
+  const sendMessage = async (text: string) => {
+    if (!text.trim() || !selectedSession) return
+
+    const userMessage = text.trim()
+    setInput('')
+    setLoading(true)
+
+    try {
+      // Add user message
+      const newUserMessage = await window.api.addChatMessage(
+        selectedSession.id,
+        'user',
+        userMessage
+      )
+      setMessages(prev => [...prev, newUserMessage])
+
+      // Offline, the question stays saved and waits for the connection
+      if (!navigator.onLine || !await requestAnswer(newUserMessage)) {
+        await window.api.setChatMessagePending(newUserMessage.id, true)
+        setPendingQuestions(prev => [...prev, { ...newUserMessage, pending: true }])
+      }
     } catch (err) {
       console.error('Failed to send message:', err)
       // Add error message
@@ -125,6 +238,67 @@ export function ChatPanel({
     }
   }
 
+  // Send held questions one at a time once the connection is back. Also polled, since `online`
+  // doesn't fire when the network was up but the provider unreachable.
+  useEffect(() => {
+    if (pendingQuestions.length === 0 || loading) return
+
+    const sendNext = async () => {
+      if (!navigator.onLine) return
+      const [next] = pendingQuestions
+      setLoading(true)
+      try {
+        if (await requestAnswer(next)) {
+          await window.api.setChatMessagePending(next.id, false)
+          setPendingQuestions(prev => prev.filter(q => q.id !== next.id))
+        }
+      } catch (err) {
+        console.error('Failed to send pending message:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    window.addEventListener('online', sendNext)
+    const timer = setInterval(sendNext, PENDING_RETRY_MS)
+    return () => {
+      window.removeEventListener('online', sendNext)
+      clearInterval(timer)
+    }
+  }, [pendingQuestions, loading])
+
+  const handleSendMessage = () => sendMessage(input)
+
+  const handleSaveSessionConfig = async (config: ChatSessionConfig) => {
+    if (!selectedSession) return
+    if (await window.api.updateChatSessionConfig(selectedSession.id, config)) {
+      const updated = { ...selectedSession, config }
+      setSessions(prev => prev.map(s => s.id === updated.id ? updated : s))
+      onSessionSelect(updated)
+    }
+    setIsSessionSettingsOpen(false)
+  }
+
+  const handleCloseSessionSettings = useCallback(() => {
+    setIsSessionSettingsOpen(false)
+  }, [])
+
+  const handleStop = () => {
+    if (requestIdRef.current) {
+      window.api.cancelLLMStream(requestIdRef.current)
+    }
+  }
+
+  // Index of the last message folded into the session summary. The summary counts the history
+  // sent to the model, which leaves out questions still waiting to be sent.
+  const getSummaryEndIndex = (): number => {
+    const count = selectedSession?.summary?.messageCount
+    if (!count) return -1
+    let sent = 0
+    return messages.findIndex(message => !pendingQuestions.some(q => q.id === message.id) && ++sent === count)
+  }
+  const summaryEndIndex = getSummaryEndIndex()
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
     return date.toLocaleDateString('ko-KR', {
@@ -140,6 +314,22 @@ export function ChatPanel({
     return text.slice(0, maxLength) + '...'
   }
 
+  const formatAnchor = (anchor?: TextAnchor) => {
+    if (!anchor) return '위치 정보 없음'
+    return anchor.type === 'pdf' ? `p. ${anchor.pageNumber}` : 'EPUB 본문'
+  }
+
+  const formatSessionLabel = (session: ChatSession) => {
+    if (session.type === 'book') return '책 전체'
+    if (session.image) return `캡처 · p. ${session.image.pageNumber}`
+    return formatAnchor(session.anchor)
+  }
+
+  const handleGoToSource = (e: React.MouseEvent, session: ChatSession) => {
+    e.stopPropagation()
+    onGoToSource?.(session)
+  }
+
   return (
     <aside className="chat-panel">
       <header className="chat-header">
@@ -148,8 +338,32 @@ export function ChatPanel({
           <button className="chat-action-btn active" title="Chat">
             💬
           </button>
-          <button className="chat-action-btn" title="Settings">
-            <Cog6ToothIcon className="action-icon" />
+          <div className="session-settings-wrapper">
+            <button
+              className={`chat-action-btn ${isSessionSettingsOpen ? 'active' : ''}`}
+              title={selectedSession?.config ? `대화 설정 (${selectedSession.config.model})` : '대화 설정'}
+              onClick={() => setIsSessionSettingsOpen(open => !open)}
+              // Keep the popover's outside-click handler from closing it just before the toggle reopens it
+              onMouseDown={(e) => e.stopPropagation()}
+              disabled={!selectedSession}
+            >
+              <Cog6ToothIcon className="action-icon" />
+            </button>
+            {isSessionSettingsOpen && selectedSession && (
+              <SessionSettingsPopover
+                key={selectedSession.id}
+                session={selectedSession}
+                onSave={handleSaveSessionConfig}
+                onClose={handleCloseSessionSettings}
+              />
+            )}
+          </div>
+          <button
+            className="chat-action-btn"
+            title="책 전체에 질문"
+            onClick={onNewBookSession}
+          >
+            <BookOpenIcon className="action-icon" />
           </button>
           <button 
             className="chat-action-btn" 
@@ -174,12 +388,29 @@ export function ChatPanel({
                 className={`session-item ${selectedSession?.id === session.id ? 'active' : ''}`}
                 onClick={() => onSessionSelect(session)}
               >
-                <div className="session-context">
-                  "{truncateText(session.baseContext, 40)}"
-                </div>
+                {session.image ? (
+                  <img
+                    className="session-thumbnail"
+                    src={`local-file://${encodeURIComponent(session.image.path)}`}
+                    alt="캡처한 영역"
+                  />
+                ) : (
+                  <div className="session-context">
+                    {session.type === 'book' ? '책 전체 대화' : `"${truncateText(session.baseContext, 40)}"`}
+                  </div>
+                )}
                 <div className="session-meta">
-                  <span className="session-label">근처 - AI 채팅</span>
+                  <span className="session-label">{formatSessionLabel(session)}</span>
                   <span className="session-date">{formatDate(session.createdAt)}</span>
+                  {(session.anchor || session.image) && (
+                    <button
+                      className="session-source-btn"
+                      title="원문으로 이동"
+                      onClick={(e) => handleGoToSource(e, session)}
+                    >
+                      <MapPinIcon className="source-icon" />
+                    </button>
+                  )}
                 </div>
               </li>
             ))}
@@ -191,28 +422,124 @@ export function ChatPanel({
       {selectedSession ? (
         <div className="chat-messages">
           {/* Base Context */}
-          <div className="base-context">
-            <div className="context-label">선택된 텍스트</div>
-            <div className="context-text">{selectedSession.baseContext}</div>
-          </div>
+          {selectedSession.type === 'book' ? (
+            <div className="base-context">
+              <div className="context-label">책 전체 대화</div>
+              <div className="context-text">질문과 관련된 대목을 책에서 찾아 답하고 출처를 표시합니다.</div>
+              <BookIndexBar bookId={bookId} />
+            </div>
+          ) : (
+            <div className="base-context">
+              <div className="context-header">
+                <div className="context-label">
+                  {selectedSession.image
+                    ? `캡처한 영역 · p. ${selectedSession.image.pageNumber}`
+                    : `선택된 텍스트 · ${formatAnchor(selectedSession.anchor)}`}
+                </div>
+                {(selectedSession.anchor || selectedSession.image) && (
+                  <button
+                    className="context-source-btn"
+                    onClick={(e) => handleGoToSource(e, selectedSession)}
+                  >
+                    <MapPinIcon className="source-icon" />
+                    원문으로 이동
+                  </button>
+                )}
+              </div>
+              {selectedSession.image ? (
+                <img
+                  className="context-image"
+                  src={`local-file://${encodeURIComponent(selectedSession.image.path)}`}
+                  alt="캡처한 영역"
+                />
+              ) : (
+                <div className="context-text">{selectedSession.baseContext}</div>
+              )}
+              {selectedSession.context && (
+                <details className="context-extra">
+                  <summary>함께 전달된 문맥</summary>
+                  <dl className="context-extra-list">
+                    <dt>책</dt>
+                    <dd>
+                      {selectedSession.context.bookTitle}
+                      {selectedSession.context.bookAuthor && ` · ${selectedSession.context.bookAuthor}`}
+                    </dd>
+                    {selectedSession.context.chapter && (
+                      <>
+                        <dt>챕터</dt>
+                        <dd>{selectedSession.context.chapter}</dd>
+                      </>
+                    )}
+                    {selectedSession.context.before && (
+                      <>
+                        <dt>앞 문맥</dt>
+                        <dd className="context-extra-text">{selectedSession.context.before}</dd>
+                      </>
+                    )}
+                    {selectedSession.context.after && (
+                      <>
+                        <dt>뒤 문맥</dt>
+                        <dd className="context-extra-text">{selectedSession.context.after}</dd>
+                      </>
+                    )}
+                  </dl>
+                </details>
+              )}
+            </div>
+          )}
 
           {/* Messages */}
           <div className="messages-list">
-            {messages.map((message) => (
-              <div
-                key={message.id}
-                className={`message ${message.role}`}
-              >
+            {messages.map((message, index) => (
+              <Fragment key={message.id}>
+                <div className={`message ${message.role}`}>
+                  <div className="message-content">
+                    {message.role === 'assistant' ? (
+                      <CitedAnswer
+                        text={message.message}
+                        citations={message.citations}
+                        quotes={message.quotes}
+                        onGoToCitation={onGoToCitation}
+                        onGoToQuote={onGoToQuote}
+                      />
+                    ) : (
+                      <div>{message.message}</div>
+                    )}
+                  </div>
+                  <div
+                    className="message-time"
+                    title={message.usage ? describeMessageUsage(message.usage) : undefined}
+                  >
+                    {formatDate(message.createdAt)}
+                    {pendingQuestions.some(q => q.id === message.id) && ' · 전송 대기 중'}
+                  </div>
+                </div>
+                {/* Turns above this line are sent to the model as a summary */}
+                {selectedSession.summary && index === summaryEndIndex && (
+                  <details className="compaction-notice">
+                    <summary>
+                      위 메시지 {selectedSession.summary.messageCount}개는 요약되어 AI에게 전달됩니다
+                    </summary>
+                    <div className="compaction-summary">{selectedSession.summary.text}</div>
+                  </details>
+                )}
+              </Fragment>
+            ))}
+            {streamingText !== null && streamingSessionId === selectedSession.id && (
+              <div className="message assistant streaming">
                 <div className="message-content">
-                  {message.role === 'assistant' ? (
-                    <ReactMarkdown className="markdown-content">{message.message}</ReactMarkdown>
+                  {streamingText ? (
+                    <CitedAnswer text={streamingText} />
                   ) : (
-                    <div>{message.message}</div>
+                    <div className="typing-indicator">
+                      <span />
+                      <span />
+                      <span />
+                    </div>
                   )}
                 </div>
-                <div className="message-time">{formatDate(message.createdAt)}</div>
               </div>
-            ))}
+            )}
             <div ref={messagesEndRef} />
           </div>
         </div>
@@ -225,6 +552,16 @@ export function ChatPanel({
         </div>
       )}
 
+      {pendingQuestions.length > 0 && (
+        <div className="offline-notice" role="status">
+          인터넷에 연결되어 있지 않습니다. 연결되면 대기 중인 질문 {pendingQuestions.length}개를 보냅니다.
+        </div>
+      )}
+
+      {budgetWarning && (
+        <div className="budget-warning" role="status">{budgetWarning}</div>
+      )}
+
       {/* Input Area */}
       <div className="chat-input-area">
         <input
@@ -236,17 +573,23 @@ export function ChatPanel({
           className="chat-input"
           disabled={!selectedSession || loading}
         />
-        <button
-          className="send-button"
-          onClick={handleSendMessage}
-          disabled={!input.trim() || !selectedSession || loading}
-        >
-          {loading ? (
-            <div className="loading-spinner-small" />
-          ) : (
+        {loading ? (
+          <button
+            className="send-button stop"
+            onClick={handleStop}
+            title="응답 중지"
+          >
+            <StopIcon className="send-icon" />
+          </button>
+        ) : (
+          <button
+            className="send-button"
+            onClick={handleSendMessage}
+            disabled={!input.trim() || !selectedSession}
+          >
             <PaperAirplaneIcon className="send-icon" />
-          )}
-        </button>
+          </button>
+        )}
       </div>
 
       <style>{`
@@ -277,6 +620,10 @@ export function ChatPanel({
           gap: var(--spacing-xs);
         }
 
+        .session-settings-wrapper {
+          position: relative;
+        }
+
         .chat-action-btn {
           width: 32px;
           height: 32px;
@@ -297,6 +644,11 @@ export function ChatPanel({
           color: white;
         }
 
+        .chat-action-btn:disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+
         .action-icon {
           width: 18px;
           height: 18px;
@@ -351,6 +703,16 @@ export function ChatPanel({
           margin-bottom: 4px;
         }
 
+        .session-thumbnail {
+          display: block;
+          max-width: 100%;
+          max-height: 56px;
+          margin-bottom: 4px;
+          border: 1px solid var(--color-border);
+          border-radius: 4px;
+          background-color: white;
+        }
+
         .session-meta {
           display: flex;
           gap: var(--spacing-sm);
@@ -365,6 +727,25 @@ export function ChatPanel({
           color: var(--color-text-muted);
         }
 
+        .session-source-btn {
+          margin-left: auto;
+          display: flex;
+          align-items: center;
+          padding: 2px;
+          border-radius: 4px;
+          color: var(--color-text-muted);
+        }
+
+        .session-source-btn:hover {
+          background-color: var(--color-bg-primary);
+          color: var(--color-accent);
+        }
+
+        .source-icon {
+          width: 14px;
+          height: 14px;
+        }
+
         .chat-messages {
           flex: 1;
           display: flex;
@@ -379,12 +760,32 @@ export function ChatPanel({
           flex-shrink: 0;
         }
 
+        .context-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: var(--spacing-xs);
+        }
+
         .context-label {
           font-size: 11px;
           font-weight: 500;
           color: var(--color-text-muted);
           text-transform: uppercase;
-          margin-bottom: var(--spacing-xs);
+        }
+
+        .context-source-btn {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          padding: 2px 6px;
+          border-radius: 4px;
+          font-size: 11px;
+          color: var(--color-accent);
+        }
+
+        .context-source-btn:hover {
+          background-color: var(--color-bg-secondary);
         }
 
         .context-text {
@@ -395,6 +796,47 @@ export function ChatPanel({
           overflow-y: auto;
         }
 
+        .context-image {
+          display: block;
+          max-width: 100%;
+          max-height: 160px;
+          border: 1px solid var(--color-border);
+          border-radius: 4px;
+          background-color: white;
+        }
+
+        .context-extra {
+          margin-top: var(--spacing-xs);
+          font-size: 12px;
+          color: var(--color-text-muted);
+        }
+
+        .context-extra summary {
+          cursor: pointer;
+          user-select: none;
+        }
+
+        .context-extra-list {
+          margin: var(--spacing-xs) 0 0;
+          max-height: 160px;
+          overflow-y: auto;
+        }
+
+        .context-extra-list dt {
+          font-weight: 500;
+          margin-top: var(--spacing-xs);
+        }
+
+        .context-extra-list dd {
+          margin: 0;
+          color: var(--color-text-secondary);
+          line-height: 1.5;
+        }
+
+        .context-extra-text {
+          white-space: pre-wrap;
+        }
+
         .messages-list {
           flex: 1;
           overflow-y: auto;
@@ -542,6 +984,31 @@ export function ChatPanel({
           font-weight: 600;
         }
 
+        .compaction-notice {
+          margin: var(--spacing-sm) 0 var(--spacing-md);
+          font-size: 12px;
+          color: var(--color-text-muted);
+        }
+
+        .compaction-notice summary {
+          cursor: pointer;
+          user-select: none;
+          text-align: center;
+          padding: var(--spacing-xs) 0;
+          border-top: 1px dashed var(--color-border);
+          border-bottom: 1px dashed var(--color-border);
+        }
+
+        .compaction-summary {
+          margin-top: var(--spacing-xs);
+          padding: var(--spacing-sm);
+          background-color: var(--color-bg-tertiary);
+          border-radius: 8px;
+          line-height: 1.5;
+          white-space: pre-wrap;
+          color: var(--color-text-secondary);
+        }
+
         .message-time {
           font-size: 10px;
           color: var(--color-text-muted);
@@ -585,6 +1052,24 @@ export function ChatPanel({
           color: var(--color-text-muted);
         }
 
+        .offline-notice {
+          padding: var(--spacing-xs) var(--spacing-md);
+          font-size: 12px;
+          color: var(--color-text-secondary);
+          background-color: var(--color-bg-tertiary);
+          border-top: 1px solid var(--color-border);
+          flex-shrink: 0;
+        }
+
+        .budget-warning {
+          padding: var(--spacing-xs) var(--spacing-md);
+          font-size: 12px;
+          color: #ef4444;
+          background-color: rgba(239, 68, 68, 0.08);
+          border-top: 1px solid var(--color-border);
+          flex-shrink: 0;
+        }
+
         .chat-input-area {
           display: flex;
           gap: var(--spacing-sm);
@@ -638,17 +1123,39 @@ export function ChatPanel({
           height: 18px;
         }
 
-        .loading-spinner-small {
-          width: 18px;
-          height: 18px;
-          border: 2px solid rgba(255, 255, 255, 0.3);
-          border-top-color: white;
+        .send-button.stop {
+          background-color: var(--color-text-secondary);
+        }
+
+        .send-button.stop:hover {
+          background-color: var(--color-text-primary);
+        }
+
+        .typing-indicator {
+          display: flex;
+          gap: 4px;
+          padding: 4px 0;
+        }
+
+        .typing-indicator span {
+          width: 6px;
+          height: 6px;
           border-radius: 50%;
-          animation: spin 1s linear infinite;
+          background-color: var(--color-text-muted);
+          animation: typingBounce 1.2s infinite ease-in-out;
+        }
+
+        .typing-indicator span:nth-child(2) {
+          animation-delay: 0.15s;
+        }
+
+        .typing-indicator span:nth-child(3) {
+          animation-delay: 0.3s;
         }
 
-        @keyframes spin {
-          to { transform: rotate(360deg); }
+        @keyframes typingBounce {
+          0%, 80%, 100% { opacity: 0.3; transform: translateY(0); }
+          40% { opacity: 1; transform: translateY(-3px); }
         }
       `}</style>
     </aside>
@@ -0,0 +1,211 @@
+import ReactMarkdown from 'react-markdown'
+import type { Components } from 'react-markdown'
+import { QUOTE_PATTERN } from '@shared/textMatch'
+import type { BookLocation, Citation, QuoteCheck } from '@shared/types'
+
+interface CitedAnswerProps {
+  text: string
+  citations?: Citation[]
+  quotes?: QuoteCheck[]  // 확인 전(스트리밍 중)에는 없음
+  onGoToCitation?: (citation: Citation) => void
+  onGoToQuote?: (quote: QuoteCheck) => void
+}
+
+const CITATION_HREF_PREFIX = '#citation-'
+const QUOTE_HREF_PREFIX = '#quote-'
+
+const formatCitationLocation = (source: { location: BookLocation; chapter?: string }) => {
+  const place = source.location.type === 'pdf' ? `p. ${source.location.pageNumber}` : 'EPUB 본문'
+  return source.chapter ? `${place} · ${source.chapter}` : place
+}
+
+// Turn [n] markers that match a citation into links the markdown renderer hands back to us
+const linkCitationMarkers = (text: string, citations: Citation[]) => {
+  const indexes = new Set(citations.map(citation => citation.index))
+  return text.replace(/\[(\d+)\](?!\()/g, (marker, n: string) =>
+    indexes.has(Number(n)) ? `[\\[${n}\\]](${CITATION_HREF_PREFIX}${n})` : marker
+  )
+}
+
+// Checked <quote> spans become links; unchecked ones, like those of an answer still streaming,
+// get plain quotation marks, and a tag still arriving is held back
+const linkQuotes = (text: string, quotes?: QuoteCheck[]) => {
+  let index = 0
+  return text
+    .replace(QUOTE_PATTERN, (_, quote: string) => {
+      const i = index++
+      return quotes?.[i]
+        ? `[“${quote.trim().replace(/[[\]\\]/g, '\\$&')}”](${QUOTE_HREF_PREFIX}${i})`
+        : `“${quote.trim()}”`
+    })
+    .replace(/<quote>/g, '“')
+    .replace(/<\/?q[a-z]*$/, '')
+}
+
+// An answer with [n] markers and a source list jumping to cited passages (whole-book chats), and
+// quotes linked to where they were found in the book or marked when they couldn't be found
+export function CitedAnswer({ text, citations = [], quotes, onGoToCitation, onGoToQuote }: CitedAnswerProps) {
+  const findCitation = (href?: string) => {
+    if (!href?.startsWith(CITATION_HREF_PREFIX)) return undefined
+    const index = Number(href.slice(CITATION_HREF_PREFIX.length))
+    return citations.find(citation => citation.index === index)
+  }
+
+  const findQuote = (href?: string) => {
+    if (!href?.startsWith(QUOTE_HREF_PREFIX)) return undefined
+    return quotes?.[Number(href.slice(QUOTE_HREF_PREFIX.length))]
+  }
+
+  const components: Components = {
+    a: ({ href, children }) => {
+      const quote = findQuote(href)
+      if (quote) {
+        const { location } = quote
+        if (!quote.verified || !location) {
+          return (
+            <span
+              className={`quote-link ${quote.unverifiable ? 'unchecked' : quote.verified ? '' : 'unverified'}`}
+              title={quote.unverifiable
+                ? '너무 짧아 원문과 대조하지 않은 인용문입니다.'
+                : quote.verified ? '원문에서 확인한 인용문' : '원문에서 찾지 못한 인용문입니다. AI가 지어냈거나 바꿔 쓴 것일 수 있습니다.'}
+            >
+              {children}
+            </span>
+          )
+        }
+        return (
+          <button
+            className="quote-link verified"
+            title={`${formatCitationLocation({ location, chapter: quote.chapter })}에서 확인 · 원문으로 이동`}
+            onClick={() => onGoToQuote?.(quote)}
+          >
+            {children}
+          </button>
+        )
+      }
+
+      const citation = findCitation(href)
+      if (!citation) {
+        return <a href={href} target="_blank" rel="noreferrer">{children}</a>
+      }
+      return (
+        <button
+          className="citation-marker"
+          title={`${formatCitationLocation(citation)}\n${citation.text}`}
+          onClick={() => onGoToCitation?.(citation)}
+        >
+          {children}
+        </button>
+      )
+    }
+  }
+
+  return (
+    <>
+      <div className="markdown-content">
+        <ReactMarkdown components={components}>{linkCitationMarkers(linkQuotes(text, quotes), citations)}</ReactMarkdown>
+      </div>
+      {citations.length > 0 && (
+        <ol className="citation-list">
+          {citations.map(citation => (
+            <li key={citation.index}>
+              <button
+                className="citation-source"
+                title={citation.text}
+                onClick={() => onGoToCitation?.(citation)}
+              >
+                <span className="citation-index">[{citation.index}]</span>
+                {formatCitationLocation(citation)}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <style>{`
+        .citation-marker {
+          display: inline;
+          padding: 0 1px;
+          font-size: 0.85em;
+          font-weight: 600;
+          color: var(--color-accent);
+          vertical-align: super;
+          line-height: 1;
+        }
+
+        .citation-marker:hover {
+          text-decoration: underline;
+        }
+
+        .quote-link {
+          display: inline;
+          font: inherit;
+          text-align: inherit;
+        }
+
+        .quote-link.verified {
+          color: inherit;
+          text-decoration: underline;
+          text-decoration-color: var(--color-accent);
+          text-underline-offset: 2px;
+        }
+
+        .quote-link.verified:hover {
+          color: var(--color-accent);
+        }
+
+        .quote-link.unverified {
+          text-decoration: underline wavy #ef4444;
+          text-underline-offset: 3px;
+          cursor: help;
+        }
+
+        .quote-link.unverified::after {
+          content: ' ⚠';
+          font-size: 0.85em;
+          color: #ef4444;
+        }
+
+        .quote-link.unchecked {
+          text-decoration: underline dotted var(--color-text-muted);
+          text-underline-offset: 3px;
+          cursor: help;
+        }
+
+        .quote-link.unchecked::after {
+          content: ' ?';
+          font-size: 0.85em;
+          color: var(--color-text-muted);
+        }
+
+        .citation-list {
+          list-style: none;
+          margin: var(--spacing-sm) 0 0;
+          padding: var(--spacing-xs) 0 0;
+          border-top: 1px solid var(--color-border);
+        }
+
+        .citation-source {
+          display: flex;
+          gap: 4px;
+          width: 100%;
+          padding: 2px 4px;
+          font-size: 12px;
+          text-align: left;
+          color: var(--color-text-secondary);
+          border-radius: 4px;
+        }
+
+        .citation-source:hover {
+          background-color: var(--color-bg-tertiary);
+          color: var(--color-accent);
+        }
+
+        .citation-index {
+          flex-shrink: 0;
+          font-weight: 600;
+        }
+      `}</style>
+    </>
+  )
+}
@@ -0,0 +1,191 @@
+import { useEffect, useRef, useState } from 'react'
+import { LLM_PROVIDER_NAMES } from '@shared/types'
+import type { ChatSession, ChatSessionConfig, LlmProviderId, Settings } from '@shared/types'
+import { GenerationFields } from '../settings/GenerationFields'
+
+interface SessionSettingsPopoverProps {
+  session: ChatSession
+  onSave: (config: ChatSessionConfig) => void
+  onClose: () => void
+}
+
+// Model and generation parameters of a single chat session
+export function SessionSettingsPopover({ session, onSave, onClose }: SessionSettingsPopoverProps) {
+  const popoverRef = useRef<HTMLDivElement>(null)
+  const [settings, setSettings] = useState<Settings | null>(null)
+  const [config, setConfig] = useState<ChatSessionConfig | null>(session.config ?? null)
+
+  // Sessions from before per-session settings start from the current defaults
+  useEffect(() => {
+    window.api.getSettings()
+      .then(loaded => {
+        setSettings(loaded)
+        setConfig(prev => prev ?? {
+          provider: loaded.provider,
+          model: loaded.providers[loaded.provider].model,
+          generation: loaded.generation
+        })
+      })
+      .catch(err => console.error('Failed to load settings:', err))
+  }, [])
+
+  // Close on click outside or escape
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        onClose()
+      }
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose()
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [onClose])
+
+  const handleProviderChange = (provider: LlmProviderId) => {
+    if (!config || !settings) return
+    setConfig({ ...config, provider, model: settings.providers[provider].model })
+  }
+
+  return (
+    <div ref={popoverRef} className="session-settings-popover">
+      <div className="session-settings-title">이 대화의 설정</div>
+
+      {config ? (
+        <>
+          <label className="session-settings-field">
+            <span className="session-settings-label">제공자</span>
+            <select
+              value={config.provider}
+              onChange={(e) => handleProviderChange(e.target.value as LlmProviderId)}
+              className="session-settings-input"
+            >
+              {(Object.keys(LLM_PROVIDER_NAMES) as LlmProviderId[]).map(id => (
+                <option key={id} value={id}>{LLM_PROVIDER_NAMES[id]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="session-settings-field">
+            <span className="session-settings-label">모델</span>
+            <input
+              type="text"
+              value={config.model}
+              onChange={(e) => setConfig({ ...config, model: e.target.value })}
+              className="session-settings-input"
+            />
+          </label>
+
+          <GenerationFields
+            value={config.generation}
+            onChange={(generation) => setConfig({ ...config, generation })}
+            showSafety={config.provider === 'gemini'}
+          />
+
+          <div className="session-settings-footer">
+            <button className="session-settings-cancel" onClick={onClose}>
+              취소
+            </button>
+            <button
+              className="session-settings-save"
+              onClick={() => onSave({ ...config, model: config.model.trim() })}
+              disabled={!config.model.trim()}
+            >
+              적용
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="session-settings-loading">불러오는 중...</div>
+      )}
+
+      <style>{`
+        .session-settings-popover {
+          position: absolute;
+          top: calc(100% + 6px);
+          right: 0;
+          width: 280px;
+          max-height: 70vh;
+          overflow-y: auto;
+          padding: var(--spacing-md);
+          background-color: var(--color-bg-primary);
+          border: 1px solid var(--color-border);
+          border-radius: 12px;
+          box-shadow: var(--shadow-lg);
+          z-index: 1000;
+          display: flex;
+          flex-direction: column;
+          gap: var(--spacing-md);
+        }
+
+        .session-settings-title {
+          font-size: 13px;
+          font-weight: 600;
+          color: var(--color-text-secondary);
+        }
+
+        .session-settings-field {
+          display: flex;
+          flex-direction: column;
+          gap: var(--spacing-xs);
+        }
+
+        .session-settings-label {
+          font-size: 14px;
+          font-weight: 500;
+        }
+
+        .session-settings-input {
+          padding: var(--spacing-xs) var(--spacing-sm);
+          background-color: var(--color-bg-secondary);
+          border: 1px solid var(--color-border);
+          border-radius: 6px;
+          font-size: 13px;
+        }
+
+        .session-settings-footer {
+          display: flex;
+          justify-content: flex-end;
+          gap: var(--spacing-sm);
+        }
+
+        .session-settings-cancel,
+        .session-settings-save {
+          padding: var(--spacing-xs) var(--spacing-md);
+          border-radius: 6px;
+          font-size: 13px;
+          font-weight: 500;
+        }
+
+        .session-settings-cancel {
+          background-color: var(--color-bg-tertiary);
+        }
+
+        .session-settings-save {
+          background-color: var(--color-accent);
+          color: white;
+        }
+
+        .session-settings-save:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+
+        .session-settings-loading {
+          font-size: 13px;
+          color: var(--color-text-muted);
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -0,0 +1,239 @@
+import { useState } from 'react'
+import { BookmarkIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline'
+import type { Bookmark } from '@shared/types'
+
+interface BookmarksPanelProps {
+  isOpen: boolean
+  bookmarks: Bookmark[]
+  onItemClick: (bookmark: Bookmark) => void
+  onRename: (bookmark: Bookmark, label: string) => void
+  onDelete: (bookmark: Bookmark) => void
+}
+
+const formatLocation = (bookmark: Bookmark) => {
+  return bookmark.location.type === 'pdf' ? `p. ${bookmark.location.pageNumber}` : 'EPUB'
+}
+
+// PDF bookmarks are listed in page order, EPUB bookmarks in the order they were added
+const sortBookmarks = (bookmarks: Bookmark[]) => {
+  return [...bookmarks].sort((a, b) => {
+    if (a.location.type === 'pdf' && b.location.type === 'pdf') {
+      return a.location.pageNumber - b.location.pageNumber
+    }
+    return a.createdAt.localeCompare(b.createdAt)
+  })
+}
+
+export function BookmarksPanel({ isOpen, bookmarks, onItemClick, onRename, onDelete }: BookmarksPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingLabel, setEditingLabel] = useState('')
+
+  if (!isOpen) return null
+
+  const startEditing = (bookmark: Bookmark) => {
+    setEditingId(bookmark.id)
+    setEditingLabel(bookmark.label || '')
+  }
+
+  const finishEditing = (bookmark: Bookmark) => {
+    if (editingLabel.trim() !== (bookmark.label || '')) {
+      onRename(bookmark, editingLabel.trim())
+    }
+    setEditingId(null)
+  }
+
+  return (
+    <aside className="bookmarks-panel">
+      <div className="bookmarks-header">
+        <BookmarkIcon className="bookmarks-icon" />
+        <span className="bookmarks-title">Bookmarks</span>
+      </div>
+
+      <div className="bookmarks-content">
+        {bookmarks.length === 0 ? (
+          <div className="bookmarks-empty">
+            <p>No bookmarks yet</p>
+            <p className="bookmarks-hint">Use the bookmark button in the reader header to add one</p>
+          </div>
+        ) : (
+          <ul className="bookmarks-list">
+            {sortBookmarks(bookmarks).map((bookmark) => (
+              <li key={bookmark.id} className="bookmark-item">
+                {editingId === bookmark.id ? (
+                  <input
+                    className="bookmark-label-input"
+                    value={editingLabel}
+                    placeholder="Label"
+                    autoFocus
+                    onChange={(e) => setEditingLabel(e.target.value)}
+                    onBlur={() => finishEditing(bookmark)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') finishEditing(bookmark)
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                  />
+                ) : (
+                  <button className="bookmark-button" onClick={() => onItemClick(bookmark)}>
+                    <span className="bookmark-label">
+                      {bookmark.label || bookmark.chapter || formatLocation(bookmark)}
+                    </span>
+                    <span className="bookmark-meta">
+                      {formatLocation(bookmark)}
+                      {bookmark.label && bookmark.chapter ? ` · ${bookmark.chapter}` : ''}
+                    </span>
+                  </button>
+                )}
+                <div className="bookmark-actions">
+                  <button
+                    className="bookmark-action"
+                    onClick={() => startEditing(bookmark)}
+                    aria-label="Rename bookmark"
+                  >
+                    <PencilIcon className="bookmark-action-icon" />
+                  </button>
+                  <button
+                    className="bookmark-action"
+                    onClick={() => onDelete(bookmark)}
+                    aria-label="Delete bookmark"
+                  >
+                    <TrashIcon className="bookmark-action-icon" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <style>{`
+        .bookmarks-panel {
+          width: var(--toc-panel-width);
+          height: 100%;
+          background-color: var(--color-bg-secondary);
+          border-right: 1px solid var(--color-border);
+          display: flex;
+          flex-direction: column;
+          flex-shrink: 0;
+          overflow: hidden;
+        }
+
+        .bookmarks-header {
+          display: flex;
+          align-items: center;
+          gap: var(--spacing-sm);
+          padding: var(--spacing-md);
+          border-bottom: 1px solid var(--color-border);
+        }
+
+        .bookmarks-icon {
+          width: 16px;
+          height: 16px;
+          color: var(--color-text-secondary);
+        }
+
+        .bookmarks-title {
+          font-size: 13px;
+          font-weight: 500;
+          color: var(--color-text-secondary);
+          text-transform: uppercase;
+          letter-spacing: 0.5px;
+        }
+
+        .bookmarks-content {
+          flex: 1;
+          overflow-y: auto;
+          padding: var(--spacing-sm);
+        }
+
+        .bookmarks-empty {
+          padding: var(--spacing-md);
+          text-align: center;
+          color: var(--color-text-muted);
+          font-size: 13px;
+        }
+
+        .bookmarks-hint {
+          margin-top: var(--spacing-xs);
+          font-size: 12px;
+        }
+
+        .bookmarks-list {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+
+        .bookmark-item {
+          display: flex;
+          align-items: center;
+          gap: 2px;
+          margin: 2px 0;
+          border-radius: 4px;
+        }
+
+        .bookmark-item:hover {
+          background-color: var(--color-bg-tertiary);
+        }
+
+        .bookmark-button {
+          flex: 1;
+          min-width: 0;
+          display: flex;
+          flex-direction: column;
+          align-items: flex-start;
+          padding: var(--spacing-xs) var(--spacing-sm);
+          text-align: left;
+        }
+
+        .bookmark-label {
+          width: 100%;
+          font-size: 13px;
+          color: var(--color-text-primary);
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .bookmark-meta {
+          font-size: 11px;
+          color: var(--color-text-muted);
+        }
+
+        .bookmark-label-input {
+          flex: 1;
+          min-width: 0;
+          padding: var(--spacing-xs) var(--spacing-sm);
+          background-color: var(--color-bg-primary);
+          border: 1px solid var(--color-accent);
+          border-radius: 4px;
+          font-size: 13px;
+        }
+
+        .bookmark-actions {
+          display: flex;
+          opacity: 0;
+          transition: opacity var(--transition-fast);
+        }
+
+        .bookmark-item:hover .bookmark-actions {
+          opacity: 1;
+        }
+
+        .bookmark-action {
+          padding: 4px;
+          border-radius: 4px;
+          color: var(--color-text-muted);
+        }
+
+        .bookmark-action:hover {
+          color: var(--color-text-primary);
+        }
+
+        .bookmark-action-icon {
+          width: 14px;
+          height: 14px;
+        }
+      `}</style>
+    </aside>
+  )
+}
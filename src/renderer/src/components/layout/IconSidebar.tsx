@@ -2,6 +2,8 @@ import {
   ListBulletIcon, 
   MagnifyingGlassIcon,
   LanguageIcon,
+  BookmarkIcon,
+  DocumentTextIcon,
   SunIcon,
   MoonIcon,
   Cog6ToothIcon
@@ -11,22 +13,28 @@ interface IconSidebarProps {
   onToggleToc: () => void
   onToggleSearch: () => void
   onToggleTypography: () => void
+  onToggleBookmarks: () => void
+  onToggleSummaries: () => void
   onToggleTheme: () => void
   onSettings: () => void
   theme: 'light' | 'dark'
-  activePanel?: 'toc' | 'search' | 'typography' | null
+  activePanel?: 'toc' | 'search' | 'typography' | 'bookmarks' | 'summaries' | null
 }
 
 const iconButtons = [
   { id: 'toc', icon: ListBulletIcon, label: 'Table of Contents' },
   { id: 'search', icon: MagnifyingGlassIcon, label: 'Search' },
   { id: 'typography', icon: LanguageIcon, label: 'Font Settings' },
+  { id: 'bookmarks', icon: BookmarkIcon, label: 'Bookmarks' },
+  { id: 'summaries', icon: DocumentTextIcon, label: 'Chapter Summaries' },
 ]
 
 export function IconSidebar({ 
   onToggleToc, 
   onToggleSearch,
   onToggleTypography,
+  onToggleBookmarks,
+  onToggleSummaries,
   onToggleTheme, 
   onSettings, 
   theme,
@@ -39,6 +47,10 @@ export function IconSidebar({
       onToggleSearch()
     } else if (id === 'typography') {
       onToggleTypography()
+    } else if (id === 'bookmarks') {
+      onToggleBookmarks()
+    } else if (id === 'summaries') {
+      onToggleSummaries()
     }
   }
 
@@ -0,0 +1,354 @@
+import { useEffect, useRef } from 'react'
+import { DocumentTextIcon, ArrowDownTrayIcon, ArrowPathIcon, TrashIcon } from '@heroicons/react/24/outline'
+import ReactMarkdown from 'react-markdown'
+import { flattenToc } from '../../utils/toc'
+import type { ChapterSummary, TocItem } from '@shared/types'
+
+// A summary being generated, or the error it ended with
+export interface SummaryJob {
+  processed: number
+  total: number
+  error?: string
+}
+
+interface SummariesPanelProps {
+  isOpen: boolean
+  tocItems: TocItem[]
+  summaries: ChapterSummary[]
+  jobs: Record<string, SummaryJob>
+  focusedId?: string | null
+  onItemClick: (item: TocItem) => void
+  onRegenerate: (item: TocItem) => void
+  onDelete: (summary: ChapterSummary) => void
+  onExport: () => void
+}
+
+interface SummaryEntry {
+  id: string
+  label: string
+  item?: TocItem  // missing when the TOC no longer has the entry
+  summary?: ChapterSummary
+  job?: SummaryJob
+}
+
+// Summaries and running jobs in TOC order; summaries whose entry disappeared go last
+const buildEntries = (
+  tocItems: TocItem[],
+  summaries: ChapterSummary[],
+  jobs: Record<string, SummaryJob>
+): SummaryEntry[] => {
+  const flat = flattenToc(tocItems)
+  const entries: SummaryEntry[] = flat
+    .filter(item => jobs[item.id] || summaries.some(s => s.tocItemId === item.id))
+    .map(item => ({
+      id: item.id,
+      label: item.label,
+      item,
+      summary: summaries.find(s => s.tocItemId === item.id),
+      job: jobs[item.id]
+    }))
+
+  const orphans = summaries
+    .filter(summary => !flat.some(item => item.id === summary.tocItemId))
+    .map(summary => ({ id: summary.tocItemId, label: summary.label, summary }))
+
+  return [...entries, ...orphans]
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('ko-KR', { month: 'short', day: 'numeric' })
+}
+
+export function SummariesPanel({
+  isOpen,
+  tocItems,
+  summaries,
+  jobs,
+  focusedId,
+  onItemClick,
+  onRegenerate,
+  onDelete,
+  onExport
+}: SummariesPanelProps) {
+  const contentRef = useRef<HTMLDivElement>(null)
+
+  // Bring a chapter just requested from the TOC into view
+  useEffect(() => {
+    if (!focusedId || !contentRef.current) return
+    const element = Array.from(contentRef.current.querySelectorAll<HTMLElement>('[data-summary-id]'))
+      .find(el => el.dataset.summaryId === focusedId)
+    element?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }, [focusedId])
+
+  if (!isOpen) return null
+
+  const entries = buildEntries(tocItems, summaries, jobs)
+
+  const describeJob = (job: SummaryJob) => {
+    if (job.total === 0) return 'Reading chapter...'
+    return `Summarizing ${job.processed}/${job.total}`
+  }
+
+  return (
+    <aside className="summaries-panel">
+      <div className="summaries-header">
+        <DocumentTextIcon className="summaries-icon" />
+        <span className="summaries-title">Summaries</span>
+        <button
+          className="summaries-export"
+          onClick={onExport}
+          disabled={summaries.length === 0}
+          title="Export as Markdown"
+          aria-label="Export summaries"
+        >
+          <ArrowDownTrayIcon className="summary-action-icon" />
+        </button>
+      </div>
+
+      <div className="summaries-content" ref={contentRef}>
+        {entries.length === 0 ? (
+          <div className="summaries-empty">
+            <p>No chapter summaries yet</p>
+            <p className="summaries-hint">Use the summary button next to a chapter in the table of contents</p>
+          </div>
+        ) : (
+          <ul className="summaries-list">
+            {entries.map(entry => (
+              <li
+                key={entry.id}
+                data-summary-id={entry.id}
+                className={`summary-item ${entry.id === focusedId ? 'focused' : ''}`}
+              >
+                <div className="summary-item-header">
+                  <button
+                    className="summary-label"
+                    onClick={() => entry.item && onItemClick(entry.item)}
+                    disabled={!entry.item}
+                  >
+                    {entry.label}
+                  </button>
+                  <div className="summary-actions">
+                    {entry.item && !(entry.job && !entry.job.error) && (
+                      <button
+                        className="summary-action"
+                        onClick={() => onRegenerate(entry.item!)}
+                        aria-label="Regenerate summary"
+                        title="Regenerate"
+                      >
+                        <ArrowPathIcon className="summary-action-icon" />
+                      </button>
+                    )}
+                    {entry.summary && (
+                      <button
+                        className="summary-action"
+                        onClick={() => onDelete(entry.summary!)}
+                        aria-label="Delete summary"
+                        title="Delete"
+                      >
+                        <TrashIcon className="summary-action-icon" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {entry.job && (
+                  <div className={`summary-status ${entry.job.error ? 'error' : ''}`}>
+                    {entry.job.error ?? describeJob(entry.job)}
+                  </div>
+                )}
+
+                {entry.summary && (
+                  <>
+                    <div className="summary-text">
+                      <ReactMarkdown>{entry.summary.summary}</ReactMarkdown>
+                    </div>
+                    <div className="summary-meta">
+                      {entry.summary.model} · {formatDate(entry.summary.createdAt)}
+                    </div>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <style>{`
+        .summaries-panel {
+          width: var(--toc-panel-width);
+          height: 100%;
+          background-color: var(--color-bg-secondary);
+          border-right: 1px solid var(--color-border);
+          display: flex;
+          flex-direction: column;
+          flex-shrink: 0;
+          overflow: hidden;
+        }
+
+        .summaries-header {
+          display: flex;
+          align-items: center;
+          gap: var(--spacing-sm);
+          padding: var(--spacing-md);
+          border-bottom: 1px solid var(--color-border);
+        }
+
+        .summaries-icon {
+          width: 16px;
+          height: 16px;
+          color: var(--color-text-secondary);
+        }
+
+        .summaries-title {
+          flex: 1;
+          font-size: 13px;
+          font-weight: 500;
+          color: var(--color-text-secondary);
+          text-transform: uppercase;
+          letter-spacing: 0.5px;
+        }
+
+        .summaries-export {
+          padding: 4px;
+          border-radius: 4px;
+          color: var(--color-text-muted);
+        }
+
+        .summaries-export:hover:not(:disabled) {
+          background-color: var(--color-bg-tertiary);
+          color: var(--color-text-primary);
+        }
+
+        .summaries-export:disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+
+        .summaries-content {
+          flex: 1;
+          overflow-y: auto;
+          padding: var(--spacing-sm);
+        }
+
+        .summaries-empty {
+          padding: var(--spacing-md);
+          text-align: center;
+          color: var(--color-text-muted);
+          font-size: 13px;
+        }
+
+        .summaries-hint {
+          margin-top: var(--spacing-xs);
+          font-size: 12px;
+        }
+
+        .summaries-list {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+
+        .summary-item {
+          padding: var(--spacing-sm);
+          margin-bottom: var(--spacing-sm);
+          border: 1px solid var(--color-border);
+          border-radius: 6px;
+          background-color: var(--color-bg-primary);
+        }
+
+        .summary-item.focused {
+          border-color: var(--color-accent);
+        }
+
+        .summary-item-header {
+          display: flex;
+          align-items: center;
+          gap: 2px;
+        }
+
+        .summary-label {
+          flex: 1;
+          min-width: 0;
+          text-align: left;
+          font-size: 13px;
+          font-weight: 600;
+          color: var(--color-text-primary);
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .summary-label:hover:not(:disabled) {
+          color: var(--color-accent);
+        }
+
+        .summary-actions {
+          display: flex;
+          opacity: 0;
+          transition: opacity var(--transition-fast);
+        }
+
+        .summary-item:hover .summary-actions {
+          opacity: 1;
+        }
+
+        .summary-action {
+          padding: 4px;
+          border-radius: 4px;
+          color: var(--color-text-muted);
+        }
+
+        .summary-action:hover {
+          color: var(--color-text-primary);
+        }
+
+        .summary-action-icon {
+          width: 14px;
+          height: 14px;
+        }
+
+        .summary-status {
+          margin-top: var(--spacing-xs);
+          font-size: 12px;
+          color: var(--color-text-muted);
+        }
+
+        .summary-status.error {
+          color: #ef4444;
+        }
+
+        .summary-text {
+          margin-top: var(--spacing-xs);
+          font-size: 13px;
+          line-height: 1.5;
+          color: var(--color-text-secondary);
+          word-wrap: break-word;
+        }
+
+        .summary-text p {
+          margin: 0.4em 0;
+        }
+
+        .summary-text ul,
+        .summary-text ol {
+          margin: 0.4em 0;
+          padding-left: 1.3em;
+        }
+
+        .summary-text h1,
+        .summary-text h2,
+        .summary-text h3 {
+          font-size: 13px;
+          font-weight: 600;
+          margin: 0.6em 0 0.3em;
+        }
+
+        .summary-meta {
+          margin-top: var(--spacing-xs);
+          font-size: 11px;
+          color: var(--color-text-muted);
+        }
+      `}</style>
+    </aside>
+  )
+}
@@ -1,4 +1,4 @@
-import { ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline'
+import { ChevronDownIcon, ChevronRightIcon, DocumentTextIcon } from '@heroicons/react/24/outline'
 import { useState } from 'react'
 import type { Book, TocItem } from '@shared/types'
 
@@ -8,17 +8,23 @@ interface TOCPanelProps {
   book: Book | null
   tocItems: TocItem[]
   onItemClick?: (item: TocItem) => void
+  onSummarize?: (item: TocItem) => void
+  summarizedIds?: Set<string>
 }
 
 // Recursive component for rendering TOC items with children
 function TocItemComponent({ 
   item, 
   level = 0, 
-  onItemClick 
+  onItemClick,
+  onSummarize,
+  summarizedIds
 }: { 
   item: TocItem
   level?: number
   onItemClick?: (item: TocItem) => void 
+  onSummarize?: (item: TocItem) => void
+  summarizedIds?: Set<string>
 }) {
   const [isExpanded, setIsExpanded] = useState(true)
   const hasChildren = item.children && item.children.length > 0
@@ -45,6 +51,16 @@ function TocItemComponent({
         >
           {item.label}
         </button>
+        {onSummarize && (item.pageNumber !== undefined || item.href) && (
+          <button
+            className={`toc-summary-btn ${summarizedIds?.has(item.id) ? 'summarized' : ''}`}
+            onClick={() => onSummarize(item)}
+            title="Summarize chapter"
+            aria-label="Summarize chapter"
+          >
+            <DocumentTextIcon className="toc-summary-icon" />
+          </button>
+        )}
       </div>
       {hasChildren && isExpanded && (
         <ul className="toc-sublist">
@@ -54,6 +70,8 @@ function TocItemComponent({
               item={child} 
               level={level + 1}
               onItemClick={onItemClick}
+              onSummarize={onSummarize}
+              summarizedIds={summarizedIds}
             />
           ))}
         </ul>
@@ -62,7 +80,7 @@ function TocItemComponent({
   )
 }
 
-export function TOCPanel({ isOpen, view, book, tocItems, onItemClick }: TOCPanelProps) {
+export function TOCPanel({ isOpen, view, book, tocItems, onItemClick, onSummarize, summarizedIds }: TOCPanelProps) {
   if (!isOpen) return null
 
   const hasToc = tocItems && tocItems.length > 0
@@ -87,6 +105,8 @@ export function TOCPanel({ isOpen, view, book, tocItems, onItemClick }: TOCPanel
                   key={item.id} 
                   item={item}
                   onItemClick={onItemClick}
+                  onSummarize={onSummarize}
+                  summarizedIds={summarizedIds}
                 />
               ))}
             </ul>
@@ -221,6 +241,35 @@ export function TOCPanel({ isOpen, view, book, tocItems, onItemClick }: TOCPanel
           background-color: var(--color-bg-tertiary);
           color: var(--color-text-primary);
         }
+
+        .toc-summary-btn {
+          display: flex;
+          padding: 4px;
+          flex-shrink: 0;
+          border-radius: 4px;
+          color: var(--color-text-muted);
+          opacity: 0;
+          transition: opacity var(--transition-fast);
+        }
+
+        .toc-item:hover .toc-summary-btn,
+        .toc-summary-btn.summarized {
+          opacity: 1;
+        }
+
+        .toc-summary-btn.summarized {
+          color: var(--color-accent);
+        }
+
+        .toc-summary-btn:hover {
+          background-color: var(--color-bg-tertiary);
+          color: var(--color-text-primary);
+        }
+
+        .toc-summary-icon {
+          width: 14px;
+          height: 14px;
+        }
       `}</style>
     </aside>
   )
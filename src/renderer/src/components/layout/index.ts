@@ -3,3 +3,5 @@ export { TOCPanel } from './TOCPanel'
 export { SearchPanel } from './SearchPanel'
 export { TypographyPanel } from './TypographyPanel'
 
+export { BookmarksPanel } from './BookmarksPanel'
+export { SummariesPanel } from './SummariesPanel'
@@ -1,21 +1,48 @@
 import { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle } from 'react'
-import ePub, { Book, Rendition, Contents } from 'epubjs'
-import type { TocItem, ReaderSettings, SearchResult } from '@shared/types'
+import ePub, { Book, Rendition, Contents, Location } from 'epubjs'
+import type { TocItem, ReaderSettings, SearchResult, TextAnchor, Highlight, SurroundingText } from '@shared/types'
+import { HIGHLIGHT_COLORS } from './highlightColors'
+import { joinSurroundingText } from '../../utils/surroundingText'
+import { createRangeFromOffsets } from './pdfTextLayer'
+import { findQuote } from '@shared/textMatch'
 
 interface EPUBViewerProps {
+  bookId?: string
   filePath: string
   initialLocation?: string
-  onLocationChange?: (location: string, page: number, totalPages: number) => void
-  onTextSelect?: (text: string, position: { x: number; y: number }) => void
+  onLocationChange?: (location: EpubLocation, page: number, totalPages: number) => void
+  onTextSelect?: (text: string, position: { x: number; y: number }, anchor?: TextAnchor) => void
   onTocLoad?: (toc: TocItem[]) => void
   settings?: ReaderSettings
+  highlights?: Highlight[]
+  onHighlightClick?: (highlight: Highlight, position: { x: number; y: number }) => void
+}
+
+// Currently displayed range, as reported by the rendition's relocated event
+export interface EpubLocation {
+  start: string
+  end: string
+  href: string
+  percentage?: number  // 0-1 across the whole book, once locations are generated
 }
 
 export interface EPUBViewerRef {
   goToLocation: (href: string) => void
+  goToAnchor: (anchor: TextAnchor) => void
   search: (query: string) => Promise<SearchResult[]>
+  getSurroundingText: (anchor: TextAnchor, paragraphs: number) => SurroundingText | null
+  goToQuote: (cfi: string, text: string) => void
 }
 
+// 원문 위치 강조 표시 유지 시간
+const FLASH_DURATION_MS = 2500
+
+// Elements counted as paragraphs when collecting the text around a selection
+const BLOCK_SELECTOR = 'p, li, blockquote, pre, h1, h2, h3, h4, h5, h6, dt, dd, figcaption, td, th'
+
+// Characters per generated location
+const LOCATION_CHARS = 1024
+
 // epubjs의 NavItem 타입
 interface EpubNavItem {
   id: string
@@ -35,27 +62,203 @@ function convertNavToTocItems(navItems: EpubNavItem[]): TocItem[] {
 }
 
 export const EPUBViewer = forwardRef<EPUBViewerRef, EPUBViewerProps>(function EPUBViewer({
+  bookId,
   filePath,
   initialLocation,
   onLocationChange,
   onTextSelect,
   onTocLoad,
-  settings
+  settings,
+  highlights,
+  onHighlightClick
 }, ref) {
   const viewerRef = useRef<HTMLDivElement>(null)
   const bookRef = useRef<Book | null>(null)
   const renditionRef = useRef<Rendition | null>(null)
+  const highlightsRef = useRef<Highlight[]>([])
+  const onHighlightClickRef = useRef(onHighlightClick)
+  // Latest props for the init effect, so re-renders of the parent don't reload the book
+  const onLocationChangeRef = useRef(onLocationChange)
+  const onTextSelectRef = useRef(onTextSelect)
+  const onTocLoadRef = useRef(onTocLoad)
+  const settingsRef = useRef(settings)
+  const initialLocationRef = useRef(initialLocation)
+  // Highlights currently drawn through rendition.annotations, by id
+  const appliedHighlightsRef = useRef<Map<string, Highlight>>(new Map())
   
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(0)
+  const [atStart, setAtStart] = useState(true)
+  const [atEnd, setAtEnd] = useState(false)
+
+  useEffect(() => {
+    onLocationChangeRef.current = onLocationChange
+    onTextSelectRef.current = onTextSelect
+    onTocLoadRef.current = onTocLoad
+    settingsRef.current = settings
+  }, [onLocationChange, onTextSelect, onTocLoad, settings])
 
   // Navigation function
   const goToLocation = useCallback((href: string) => {
     renditionRef.current?.display(href)
   }, [])
 
+  // Report the displayed range. Until locations are available only the
+  // chapter-local page is known; afterwards pages count across the whole book.
+  const reportLocation = useCallback((location: Location) => {
+    const book = bookRef.current
+    if (!book) return
+
+    const { cfi, href, displayed } = location.start
+    let page = displayed.page
+    let total = displayed.total
+    let percentage: number | undefined
+
+    if (book.locations.length() > 0) {
+      page = (book.locations.locationFromCfi(cfi) as unknown as number) + 1
+      total = book.locations.length()
+      percentage = book.locations.percentageFromCfi(cfi)
+    }
+
+    setCurrentPage(page)
+    setTotalPages(total)
+    setAtStart(location.atStart)
+    setAtEnd(location.atEnd)
+    onLocationChangeRef.current?.({ start: cfi, end: location.end.cfi, href, percentage }, page, total)
+  }, [])
+
+  // Load the book's cached locations, if any
+  const loadCachedLocations = useCallback(async (book: Book): Promise<boolean> => {
+    if (!bookId) return false
+    const cached = await window.api.getEpubLocations(bookId)
+    if (!cached || bookRef.current !== book) return false
+    book.locations.load(cached)
+    return true
+  }, [bookId])
+
+  // Generate and cache locations for a book that had none. They are character offsets into
+  // the book, so typography changes don't invalidate them.
+  const generateLocations = useCallback(async (book: Book) => {
+    try {
+      await book.locations.generate(LOCATION_CHARS)
+      if (bookRef.current !== book) return
+      if (bookId) {
+        window.api.saveEpubLocations(bookId, book.locations.save())
+      }
+
+      const location = renditionRef.current?.location
+      if (location) reportLocation(location)
+    } catch (err) {
+      console.error('Failed to generate EPUB locations:', err)
+    }
+  }, [bookId, reportLocation])
+
+  // Sync stored highlights with the rendition's annotations
+  const applyHighlights = useCallback(() => {
+    const rendition = renditionRef.current
+    if (!rendition) return
+
+    const applied = appliedHighlightsRef.current
+    const next = new Map(
+      highlightsRef.current
+        .filter(highlight => highlight.anchor.type === 'epub')
+        .map(highlight => [highlight.id, highlight])
+    )
+
+    for (const [id, highlight] of applied) {
+      if (next.get(id)?.color !== highlight.color && highlight.anchor.type === 'epub') {
+        rendition.annotations.remove(highlight.anchor.cfiRange, 'highlight')
+        applied.delete(id)
+      }
+    }
+
+    for (const [id, highlight] of next) {
+      if (applied.has(id) || highlight.anchor.type !== 'epub') continue
+      rendition.annotations.highlight(
+        highlight.anchor.cfiRange,
+        { id },
+        (e: MouseEvent) => {
+          const current = highlightsRef.current.find(h => h.id === id)
+          if (current) onHighlightClickRef.current?.(current, { x: e.clientX, y: e.clientY })
+        },
+        'epub-highlight',
+        { fill: HIGHLIGHT_COLORS[highlight.color], 'fill-opacity': '0.35', 'mix-blend-mode': 'multiply' }
+      )
+      applied.set(id, highlight)
+    }
+  }, [])
+
+  useEffect(() => {
+    highlightsRef.current = highlights ?? []
+    onHighlightClickRef.current = onHighlightClick
+    applyHighlights()
+  }, [highlights, onHighlightClick, applyHighlights])
+
+  // Briefly highlight a range of the displayed section
+  const flashRange = useCallback((cfiRange: string) => {
+    const rendition = renditionRef.current
+    if (!rendition) return
+
+    rendition.annotations.highlight(cfiRange, {}, undefined, 'epub-flash-highlight', {
+      fill: 'rgb(250, 204, 21)',
+      'fill-opacity': '0.45'
+    })
+    setTimeout(() => {
+      renditionRef.current?.annotations.remove(cfiRange, 'highlight')
+      // The flash shares its annotation key with a stored highlight on the same range
+      for (const [id, highlight] of appliedHighlightsRef.current) {
+        if (highlight.anchor.type === 'epub' && highlight.anchor.cfiRange === cfiRange) {
+          appliedHighlightsRef.current.delete(id)
+        }
+      }
+      applyHighlights()
+    }, FLASH_DURATION_MS)
+  }, [applyHighlights])
+
+  // Navigate to a stored selection and flash it
+  const goToAnchor = useCallback(async (anchor: TextAnchor) => {
+    const rendition = renditionRef.current
+    if (!rendition || anchor.type !== 'epub') return
+
+    await rendition.display(anchor.cfiRange)
+    flashRange(anchor.cfiRange)
+  }, [flashRange])
+
+  // Navigate to where a quote was found and flash it. The quote is looked for in the paragraph
+  // the location points into, then in the rest of the section.
+  const goToQuote = useCallback(async (cfi: string, text: string) => {
+    const rendition = renditionRef.current
+    if (!rendition) return
+
+    await rendition.display(cfi)
+    let near: Range | null = null
+    try {
+      near = rendition.getRange(cfi)
+    } catch (err) {
+      console.error('Failed to resolve quote location:', err)
+    }
+
+    // getContents() is typed as one Contents but returns one per rendered section
+    const contentsList = rendition.getContents() as unknown as Contents[]
+    const contents = contentsList.find(c => c.document === near?.startContainer.ownerDocument) ?? contentsList[0]
+    if (!contents?.document.body) return
+
+    const start = near?.startContainer
+    const element = start?.nodeType === Node.ELEMENT_NODE ? start as Element : start?.parentElement
+    const roots = [element?.closest<HTMLElement>(BLOCK_SELECTOR), contents.document.body]
+
+    for (const root of roots) {
+      const match = root && findQuote(root.textContent ?? '', text)
+      const range = root && match && createRangeFromOffsets(root, match.start, match.end)
+      if (range) {
+        flashRange(contents.cfiFromRange(range))
+        return
+      }
+    }
+  }, [flashRange])
+
   // Search function using epubjs's built-in search
   const searchInEPUB = useCallback(async (query: string): Promise<SearchResult[]> => {
     if (!bookRef.current) return []
@@ -74,11 +277,55 @@ export const EPUBViewer = forwardRef<EPUBViewerRef, EPUBViewerProps>(function EP
     }
   }, [])
 
+  // Paragraphs around a selection within the displayed section
+  const getSurroundingText = useCallback((anchor: TextAnchor, paragraphs: number): SurroundingText | null => {
+    const rendition = renditionRef.current
+    if (!rendition || anchor.type !== 'epub') return null
+
+    let range: Range | null = null
+    try {
+      range = rendition.getRange(anchor.cfiRange)
+    } catch (err) {
+      console.error('Failed to resolve selection range:', err)
+    }
+    const doc = range?.startContainer.ownerDocument
+    if (!range || !doc?.body) return null
+
+    // Innermost blocks only, so a list item and the paragraphs inside it aren't counted twice
+    const blocks = Array.from(doc.body.querySelectorAll(BLOCK_SELECTOR))
+      .filter(block => !block.querySelector(BLOCK_SELECTOR))
+    const first = blocks.findIndex(block => block.contains(range.startContainer))
+    const last = blocks.findIndex(block => block.contains(range.endContainer))
+    if (first === -1 || last === -1) return null
+
+    const beforeRange = doc.createRange()
+    beforeRange.selectNodeContents(blocks[first])
+    beforeRange.setEnd(range.startContainer, range.startOffset)
+
+    const afterRange = doc.createRange()
+    afterRange.selectNodeContents(blocks[last])
+    afterRange.setStart(range.endContainer, range.endOffset)
+
+    return joinSurroundingText(
+      [
+        ...blocks.slice(Math.max(0, first - paragraphs), first).map(block => block.textContent ?? ''),
+        beforeRange.toString()
+      ],
+      [
+        afterRange.toString(),
+        ...blocks.slice(last + 1, last + 1 + paragraphs).map(block => block.textContent ?? '')
+      ]
+    )
+  }, [])
+
   // Expose functions to parent via ref
   useImperativeHandle(ref, () => ({
     goToLocation,
-    search: searchInEPUB
-  }), [goToLocation, searchInEPUB])
+    goToAnchor,
+    search: searchInEPUB,
+    getSurroundingText,
+    goToQuote
+  }), [goToLocation, goToAnchor, searchInEPUB, getSurroundingText, goToQuote])
 
   // Initialize EPUB
   useEffect(() => {
@@ -104,9 +351,10 @@ export const EPUBViewer = forwardRef<EPUBViewerRef, EPUBViewerProps>(function EP
         // Get TOC and convert to our format
         const toc = book.navigation.toc as EpubNavItem[]
         const tocItems = convertNavToTocItems(toc)
-        onTocLoad?.(tocItems)
+        onTocLoadRef.current?.(tocItems)
 
         // Create rendition with page view setting
+        const settings = settingsRef.current
         const spreadMode = settings?.pageView === 'single' ? 'none' : 'always'
         const rendition = book.renderTo(viewerRef.current, {
           width: '100%',
@@ -134,12 +382,27 @@ export const EPUBViewer = forwardRef<EPUBViewerRef, EPUBViewerProps>(function EP
           }
         })
 
+        // Cached locations give book-wide pages from the first relocated event
+        const hasLocations = await loadCachedLocations(book).catch(err => {
+          console.error('Failed to load cached EPUB locations:', err)
+          return false
+        })
+
         // Handle location changes
-        rendition.on('relocated', (location: { start: { cfi: string; displayed: { page: number; total: number } } }) => {
-          const { cfi, displayed } = location.start
-          setCurrentPage(displayed.page)
-          setTotalPages(displayed.total)
-          onLocationChange?.(cfi, displayed.page, displayed.total)
+        rendition.on('relocated', reportLocation)
+
+        // Keys pressed inside the book iframe never reach the app window; re-dispatch them
+        // so navigation and selection shortcuts keep working after clicking into the text
+        rendition.on('keydown', (e: KeyboardEvent) => {
+          document.dispatchEvent(new KeyboardEvent('keydown', {
+            bubbles: true,
+            key: e.key,
+            code: e.code,
+            altKey: e.altKey,
+            ctrlKey: e.ctrlKey,
+            shiftKey: e.shiftKey,
+            metaKey: e.metaKey
+          }))
         })
 
         // Handle text selection
@@ -155,25 +418,30 @@ export const EPUBViewer = forwardRef<EPUBViewerRef, EPUBViewerProps>(function EP
             const iframeRect = iframe?.getBoundingClientRect()
             
             if (iframeRect) {
-              onTextSelect?.(text, {
+              onTextSelectRef.current?.(text, {
                 x: iframeRect.left + rect.left + rect.width / 2,
                 y: iframeRect.top + rect.bottom
-              })
+              }, { type: 'epub', cfiRange })
             }
           }
         })
 
         // Display initial location or first page
-        if (initialLocation) {
-          await rendition.display(initialLocation)
+        const startLocation = initialLocationRef.current
+        if (startLocation) {
+          await rendition.display(startLocation).catch(() => rendition.display())
         } else {
           await rendition.display()
         }
 
-        // Generate locations for page numbers
-        await book.locations.generate(1024)
-        
+        // Draw stored highlights on the new rendition
+        appliedHighlightsRef.current.clear()
+        applyHighlights()
+
         setLoading(false)
+
+        // Generate locations for book-wide page numbers and percentage if none were cached
+        if (!hasLocations) generateLocations(book)
       } catch (err) {
         console.error('EPUB load error:', err)
         setError('EPUB 파일을 불러오는데 실패했습니다.')
@@ -189,7 +457,7 @@ export const EPUBViewer = forwardRef<EPUBViewerRef, EPUBViewerProps>(function EP
         bookRef.current = null
       }
     }
-  }, [filePath, initialLocation, onLocationChange, onTextSelect, onTocLoad, settings])
+  }, [filePath, applyHighlights, loadCachedLocations, generateLocations, reportLocation])
 
   // Update theme when settings change
   useEffect(() => {
@@ -270,7 +538,7 @@ export const EPUBViewer = forwardRef<EPUBViewerRef, EPUBViewerProps>(function EP
         <button 
           className="nav-button"
           onClick={goToPrev}
-          disabled={currentPage <= 1}
+          disabled={atStart}
           aria-label="Previous page"
         >
           ←
@@ -284,7 +552,7 @@ export const EPUBViewer = forwardRef<EPUBViewerRef, EPUBViewerProps>(function EP
         <button 
           className="nav-button"
           onClick={goToNext}
-          disabled={currentPage >= totalPages}
+          disabled={atEnd}
           aria-label="Next page"
         >
           →
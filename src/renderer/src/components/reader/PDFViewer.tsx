@@ -1,7 +1,28 @@
 import { useState, useCallback, useEffect, useRef, forwardRef, useImperativeHandle } from 'react'
 import { Document, Page, pdfjs } from 'react-pdf'
 import type { PDFDocumentProxy } from 'pdfjs-dist'
-import type { TocItem, ReaderSettings, SearchResult } from '@shared/types'
+import type {
+  TocItem,
+  ReaderSettings,
+  SearchResult,
+  TextAnchor,
+  Highlight,
+  SurroundingText,
+  PageRegion,
+  RegionCapture
+} from '@shared/types'
+import {
+  findPageTextLayer,
+  getTextLayerOffsets,
+  createRangeFromOffsets,
+  getOverlayRects,
+  getTextLayerForPage,
+  getTextLayerSurroundings
+} from './pdfTextLayer'
+import type { OverlayRect } from './pdfTextLayer'
+import { HIGHLIGHT_COLORS } from './highlightColors'
+import { joinSurroundingText } from '../../utils/surroundingText'
+import { findQuote } from '@shared/textMatch'
 
 // 1. Worker 설정 (필수) - 로컬 파일 사용 (Electron 앱용)
 pdfjs.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs'
@@ -14,14 +35,93 @@ interface PDFViewerProps {
   filePath: string
   initialPage?: number
   onPageChange?: (page: number, totalPages: number) => void
-  onTextSelect?: (text: string, position: { x: number; y: number }) => void
+  onTextSelect?: (text: string, position: { x: number; y: number }, anchor?: TextAnchor) => void
   onTocLoad?: (toc: TocItem[]) => void
   settings?: ReaderSettings
+  highlights?: Highlight[]
+  onHighlightClick?: (highlight: Highlight, position: { x: number; y: number }) => void
+  captureMode?: boolean  // 드래그로 페이지 영역을 캡처
+  onRegionCapture?: (capture: RegionCapture) => void
+  onCaptureCancel?: () => void
 }
 
 export interface PDFViewerRef {
   goToPage: (page: number) => void
+  goToAnchor: (anchor: TextAnchor) => void
   search: (query: string) => Promise<SearchResult[]>
+  getSurroundingText: (anchor: TextAnchor, paragraphs: number) => SurroundingText | null
+  goToRegion: (pageNumber: number, region: PageRegion) => void
+  goToQuote: (pageNumber: number, text: string) => void
+}
+
+type PDFTextAnchor = Extract<TextAnchor, { type: 'pdf' }>
+
+interface MeasuredHighlight {
+  highlight: Highlight
+  pageNumber: number
+  rects: OverlayRect[]
+}
+
+// 원문 위치 강조 표시 유지 시간
+const FLASH_DURATION_MS = 2500
+
+// Captures render at up to 4x (288 dpi), with the longer side kept within a size models accept
+const CAPTURE_MAX_SCALE = 4
+const CAPTURE_MAX_SIDE = 2048
+// Smaller drags are treated as clicks
+const CAPTURE_MIN_SIZE = 8
+
+// Rectangle being dragged on a page, in pixels from the page's top-left corner
+interface CaptureDrag {
+  pageNumber: number
+  startX: number
+  startY: number
+  x: number
+  y: number
+}
+
+const getDragRect = (drag: CaptureDrag) => ({
+  left: Math.min(drag.startX, drag.x),
+  top: Math.min(drag.startY, drag.y),
+  width: Math.abs(drag.x - drag.startX),
+  height: Math.abs(drag.y - drag.startY)
+})
+
+// Position inside the capture layer, clamped to the page
+const getCapturePoint = (e: React.PointerEvent<HTMLDivElement>) => {
+  const rect = e.currentTarget.getBoundingClientRect()
+  return {
+    x: Math.min(Math.max(e.clientX - rect.left, 0), rect.width),
+    y: Math.min(Math.max(e.clientY - rect.top, 0), rect.height)
+  }
+}
+
+// Render part of a page on its own canvas at capture resolution and encode it as PNG
+const renderRegion = async (pdf: PDFDocumentProxy, pageNumber: number, region: PageRegion): Promise<Uint8Array> => {
+  const page = await pdf.getPage(pageNumber)
+  const base = page.getViewport({ scale: 1 })
+  const scale = Math.min(
+    CAPTURE_MAX_SCALE,
+    CAPTURE_MAX_SIDE / Math.max(base.width * region.width, base.height * region.height)
+  )
+  const viewport = page.getViewport({ scale })
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(viewport.width * region.width))
+  canvas.height = Math.max(1, Math.round(viewport.height * region.height))
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not available')
+
+  // Shift the page so the region's corner lands on the canvas origin
+  await page.render({
+    canvasContext: context,
+    viewport,
+    transform: [1, 0, 0, 1, -viewport.width * region.x, -viewport.height * region.y]
+  }).promise
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+  if (!blob) throw new Error('Failed to encode the captured region')
+  return new Uint8Array(await blob.arrayBuffer())
 }
 
 // PDF outline item 타입
@@ -37,7 +137,12 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
   onPageChange,
   onTextSelect,
   onTocLoad,
-  settings
+  settings,
+  highlights,
+  onHighlightClick,
+  captureMode = false,
+  onRegionCapture,
+  onCaptureCancel
 }, ref) {
   const containerRef = useRef<HTMLDivElement>(null)
   const pdfDocRef = useRef<unknown>(null)
@@ -46,6 +151,14 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
   const [pageHeight, setPageHeight] = useState<number | undefined>(undefined)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [flashAnchor, setFlashAnchor] = useState<PDFTextAnchor | null>(null)
+  const [flashRects, setFlashRects] = useState<OverlayRect[]>([])
+  const [textLayerVersion, setTextLayerVersion] = useState(0)
+  const [highlightRects, setHighlightRects] = useState<MeasuredHighlight[]>([])
+  const [pendingQuote, setPendingQuote] = useState<{ pageNumber: number; text: string } | null>(null)
+  const [flashRegion, setFlashRegion] = useState<{ pageNumber: number; region: PageRegion } | null>(null)
+  const [captureDrag, setCaptureDrag] = useState<CaptureDrag | null>(null)
+  const [isCapturing, setIsCapturing] = useState(false)
 
   // Calculate page height to fit container (height-based scaling for full view)
   useEffect(() => {
@@ -83,6 +196,138 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
     onPageChange?.(adjustedPage, numPages)
   }, [numPages, twoPageView, onPageChange])
 
+  // Navigate to a stored selection and flash it
+  const goToAnchor = useCallback((anchor: TextAnchor) => {
+    if (anchor.type !== 'pdf') return
+    goToPage(anchor.pageNumber)
+    setFlashAnchor(anchor)
+  }, [goToPage])
+
+  // Measure the flashed passage once its page's text layer is rendered
+  useEffect(() => {
+    if (!flashAnchor || !containerRef.current) {
+      setFlashRects([])
+      return
+    }
+
+    const textLayer = getTextLayerForPage(containerRef.current, flashAnchor.pageNumber)
+    const range = textLayer && createRangeFromOffsets(textLayer, flashAnchor.startOffset, flashAnchor.endOffset)
+    setFlashRects(textLayer && range ? getOverlayRects(textLayer, range) : [])
+  }, [flashAnchor, textLayerVersion, currentPage, pageHeight])
+
+  // Measure stored highlights on the pages that are currently rendered
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || !highlights || highlights.length === 0) {
+      setHighlightRects([])
+      return
+    }
+
+    const measured: MeasuredHighlight[] = []
+    for (const highlight of highlights) {
+      if (highlight.anchor.type !== 'pdf') continue
+      const { pageNumber, startOffset, endOffset } = highlight.anchor
+      const textLayer = getTextLayerForPage(container, pageNumber)
+      const range = textLayer && createRangeFromOffsets(textLayer, startOffset, endOffset)
+      if (textLayer && range) {
+        measured.push({ highlight, pageNumber, rects: getOverlayRects(textLayer, range) })
+      }
+    }
+    setHighlightRects(measured)
+  }, [highlights, textLayerVersion, currentPage, pageHeight])
+
+  useEffect(() => {
+    if (!flashAnchor) return
+    const timer = setTimeout(() => setFlashAnchor(null), FLASH_DURATION_MS)
+    return () => clearTimeout(timer)
+  }, [flashAnchor])
+
+  // Navigate to a page and flash a quote on it, once the page's text layer is rendered
+  const goToQuote = useCallback((pageNumber: number, text: string) => {
+    goToPage(pageNumber)
+    setPendingQuote({ pageNumber, text })
+  }, [goToPage])
+
+  useEffect(() => {
+    if (!pendingQuote || !containerRef.current) return
+    const textLayer = getTextLayerForPage(containerRef.current, pendingQuote.pageNumber)
+    if (!textLayer) return
+
+    // A quote that runs onto the next page is only looked for here, so the page alone may be shown
+    const match = findQuote(textLayer.textContent ?? '', pendingQuote.text)
+    if (match) {
+      setFlashAnchor({ type: 'pdf', pageNumber: pendingQuote.pageNumber, startOffset: match.start, endOffset: match.end })
+    }
+    setPendingQuote(null)
+  }, [pendingQuote, textLayerVersion, currentPage])
+
+  // Navigate to a captured region and flash it
+  const goToRegion = useCallback((pageNumber: number, region: PageRegion) => {
+    goToPage(pageNumber)
+    setFlashRegion({ pageNumber, region })
+  }, [goToPage])
+
+  useEffect(() => {
+    if (!flashRegion) return
+    const timer = setTimeout(() => setFlashRegion(null), FLASH_DURATION_MS)
+    return () => clearTimeout(timer)
+  }, [flashRegion])
+
+  // Leaving capture mode drops a half-drawn rectangle; Esc leaves it
+  useEffect(() => {
+    if (!captureMode) {
+      setCaptureDrag(null)
+      return
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCaptureCancel?.()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [captureMode, onCaptureCancel])
+
+  const handleCapturePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>, pageNumber: number) => {
+    if (isCapturing || e.button !== 0) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const { x, y } = getCapturePoint(e)
+    setCaptureDrag({ pageNumber, startX: x, startY: y, x, y })
+  }, [isCapturing])
+
+  const handleCapturePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (!captureDrag || isCapturing) return
+    const { x, y } = getCapturePoint(e)
+    setCaptureDrag(drag => drag && { ...drag, x, y })
+  }, [captureDrag, isCapturing])
+
+  const handleCapturePointerUp = useCallback(async (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!captureDrag || isCapturing || !pdfDocRef.current) return
+    const { width: layerWidth, height: layerHeight } = e.currentTarget.getBoundingClientRect()
+    const rect = getDragRect(captureDrag)
+    if (rect.width < CAPTURE_MIN_SIZE || rect.height < CAPTURE_MIN_SIZE) {
+      setCaptureDrag(null)
+      return
+    }
+
+    const region: PageRegion = {
+      x: rect.left / layerWidth,
+      y: rect.top / layerHeight,
+      width: rect.width / layerWidth,
+      height: rect.height / layerHeight
+    }
+
+    setIsCapturing(true)
+    try {
+      const png = await renderRegion(pdfDocRef.current as PDFDocumentProxy, captureDrag.pageNumber, region)
+      onRegionCapture?.({ pageNumber: captureDrag.pageNumber, region, png })
+    } catch (err) {
+      console.error('Failed to capture region:', err)
+    } finally {
+      setIsCapturing(false)
+      setCaptureDrag(null)
+    }
+  }, [captureDrag, isCapturing, onRegionCapture])
+
   // Search function
   const searchInPDF = useCallback(async (query: string): Promise<SearchResult[]> => {
     if (!pdfDocRef.current) return []
@@ -123,11 +368,25 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
     return results
   }, [])
 
+  // Paragraphs around a selection, read from the rendered text layer of its page
+  const getSurroundingText = useCallback((anchor: TextAnchor, paragraphs: number): SurroundingText | null => {
+    if (anchor.type !== 'pdf' || !containerRef.current) return null
+
+    const textLayer = getTextLayerForPage(containerRef.current, anchor.pageNumber)
+    const surroundings = textLayer &&
+      getTextLayerSurroundings(textLayer, anchor.startOffset, anchor.endOffset, paragraphs)
+    return surroundings ? joinSurroundingText(surroundings.before, surroundings.after) : null
+  }, [])
+
   // Expose functions to parent via ref
   useImperativeHandle(ref, () => ({
     goToPage,
-    search: searchInPDF
-  }), [goToPage, searchInPDF])
+    goToAnchor,
+    search: searchInPDF,
+    getSurroundingText,
+    goToRegion,
+    goToQuote
+  }), [goToPage, goToAnchor, searchInPDF, getSurroundingText, goToRegion, goToQuote])
 
   // Convert PDF outline to TocItem format
   const convertOutlineToTocItems = useCallback(async (
@@ -215,25 +474,57 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
     goToPage(currentPage + (twoPageView ? 2 : 1))
   }, [currentPage, twoPageView, goToPage])
 
+  // Find the stored highlight under a click (overlays don't receive pointer events)
+  const findHighlightAt = useCallback((x: number, y: number): Highlight | null => {
+    const container = containerRef.current
+    if (!container) return null
+
+    for (const { highlight, pageNumber, rects } of highlightRects) {
+      const wrapper = container.querySelector(`.pdf-page-wrapper[data-page-number="${pageNumber}"]`)
+      if (!wrapper) continue
+      const origin = wrapper.getBoundingClientRect()
+      const isHit = rects.some(rect =>
+        x >= origin.left + rect.left && x <= origin.left + rect.left + rect.width &&
+        y >= origin.top + rect.top && y <= origin.top + rect.top + rect.height
+      )
+      if (isHit) return highlight
+    }
+    return null
+  }, [highlightRects])
+
   // Handle text selection - use browser default selection
-  const handleMouseUp = useCallback(() => {
+  const handleMouseUp = useCallback((e: React.MouseEvent) => {
+    if (captureMode) return
     const selection = window.getSelection()
+    const text = selection?.toString().trim()
+
+    // A plain click on a highlight opens it instead of starting a selection
+    if (!text) {
+      const highlight = findHighlightAt(e.clientX, e.clientY)
+      if (highlight) {
+        onHighlightClick?.(highlight, { x: e.clientX, y: e.clientY })
+      }
+      return
+    }
     if (!selection || selection.rangeCount === 0) return
     
     const range = selection.getRangeAt(0)
-    const text = selection.toString().trim()
-    
-    if (!text) return
     
     // Get selection position
     const rect = range.getBoundingClientRect()
+
+    // Record where the selection starts so it can be found again later
+    const page = findPageTextLayer(range.startContainer)
+    const anchor: TextAnchor | undefined = page
+      ? { type: 'pdf', pageNumber: page.pageNumber, ...getTextLayerOffsets(page.textLayer, range) }
+      : undefined
     
     // Call onTextSelect with the selected text
     onTextSelect?.(text, {
       x: rect.left + rect.width / 2,
       y: rect.bottom
-    })
-  }, [onTextSelect])
+    }, anchor)
+  }, [captureMode, onTextSelect, onHighlightClick, findHighlightAt])
 
   // Keyboard navigation
   useEffect(() => {
@@ -288,12 +579,62 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
                   height={pageHeight}
                   renderTextLayer={true}
                   renderAnnotationLayer={true}
+                  onRenderTextLayerSuccess={() => setTextLayerVersion(v => v + 1)}
                   loading={
                     <div className="page-loading">
                       <div className="loading-spinner small" />
                     </div>
                   }
                 />
+                {highlightRects
+                  .filter(measured => measured.pageNumber === pageNum)
+                  .map(({ highlight, rects }) => rects.map((rect, index) => (
+                    <div
+                      key={`${highlight.id}-${index}`}
+                      className="pdf-highlight"
+                      title={highlight.note}
+                      style={{
+                        left: rect.left,
+                        top: rect.top,
+                        width: rect.width,
+                        height: rect.height,
+                        backgroundColor: HIGHLIGHT_COLORS[highlight.color]
+                      }}
+                    />
+                  )))}
+                {flashAnchor?.pageNumber === pageNum && flashRects.map((rect, index) => (
+                  <div
+                    key={index}
+                    className="pdf-flash-highlight"
+                    style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+                  />
+                ))}
+                {flashRegion?.pageNumber === pageNum && (
+                  <div
+                    className="pdf-flash-highlight pdf-flash-region"
+                    style={{
+                      left: `${flashRegion.region.x * 100}%`,
+                      top: `${flashRegion.region.y * 100}%`,
+                      width: `${flashRegion.region.width * 100}%`,
+                      height: `${flashRegion.region.height * 100}%`
+                    }}
+                  />
+                )}
+                {captureMode && (
+                  <div
+                    className={`pdf-capture-layer ${isCapturing ? 'capturing' : ''}`}
+                    onPointerDown={(e) => handleCapturePointerDown(e, pageNum)}
+                    onPointerMove={handleCapturePointerMove}
+                    onPointerUp={handleCapturePointerUp}
+                  >
+                    {captureDrag?.pageNumber === pageNum && (
+                      <div
+                        className="pdf-capture-rect"
+                        style={getDragRect(captureDrag)}
+                      />
+                    )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -415,6 +756,56 @@ export const PDFViewer = forwardRef<PDFViewerRef, PDFViewerProps>(function PDFVi
           color: transparent !important;
         }
 
+        /* 저장된 하이라이트 */
+        .pdf-highlight {
+          position: absolute;
+          opacity: 0.35;
+          mix-blend-mode: multiply;
+          pointer-events: none;
+        }
+
+        /* 원문 위치 강조 */
+        .pdf-flash-highlight {
+          position: absolute;
+          background-color: rgba(250, 204, 21, 0.45);
+          pointer-events: none;
+          animation: pdfFlash ${FLASH_DURATION_MS}ms ease-out forwards;
+        }
+
+        .pdf-flash-region {
+          background-color: rgba(250, 204, 21, 0.25);
+          outline: 2px solid rgba(250, 204, 21, 0.9);
+        }
+
+        @keyframes pdfFlash {
+          0%, 60% { opacity: 1; }
+          100% { opacity: 0; }
+        }
+
+        /* 영역 캡처 */
+        .pdf-capture-layer {
+          position: absolute;
+          inset: 0;
+          z-index: 10;
+          cursor: crosshair;
+          touch-action: none;
+        }
+
+        .pdf-capture-rect {
+          position: absolute;
+          border: 2px dashed var(--color-accent);
+          background-color: rgba(37, 99, 235, 0.12);
+          pointer-events: none;
+        }
+
+        .pdf-capture-layer.capturing {
+          cursor: progress;
+        }
+
+        .pdf-capture-layer.capturing .pdf-capture-rect {
+          border-style: solid;
+        }
+
         /* 어노테이션 레이어 */
         .pdf-page-wrapper .react-pdf__Page__annotations {
           position: absolute !important;
@@ -0,0 +1,12 @@
+import type { HighlightColor } from '@shared/types'
+
+// Fill colors for stored highlights, shared by both viewers and the highlight pickers
+export const HIGHLIGHT_COLORS: Record<HighlightColor, string> = {
+  yellow: 'rgb(250, 204, 21)',
+  green: 'rgb(74, 222, 128)',
+  blue: 'rgb(96, 165, 250)',
+  pink: 'rgb(244, 114, 182)',
+  purple: 'rgb(192, 132, 252)'
+}
+
+export const HIGHLIGHT_COLOR_NAMES = Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]
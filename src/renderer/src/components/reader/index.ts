@@ -1,4 +1,5 @@
 export { PDFViewer } from './PDFViewer'
 export { EPUBViewer } from './EPUBViewer'
 export type { PDFViewerRef } from './PDFViewer'
-export type { EPUBViewerRef } from './EPUBViewer'
+export type { EPUBViewerRef, EpubLocation } from './EPUBViewer'
+export { HIGHLIGHT_COLORS, HIGHLIGHT_COLOR_NAMES } from './highlightColors'
@@ -0,0 +1,180 @@
+// Helpers for mapping DOM selections on a react-pdf text layer to character offsets and back.
+// Offsets are counted over the text layer's textContent, so they stay valid across zoom levels.
+
+export interface OverlayRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+const TEXT_LAYER_SELECTOR = '.react-pdf__Page__textContent'
+
+// Find the page wrapper and text layer containing a DOM node
+export const findPageTextLayer = (node: Node | null): { pageNumber: number; textLayer: HTMLElement } | null => {
+  const element = node instanceof Element ? node : node?.parentElement
+  const wrapper = element?.closest<HTMLElement>('.pdf-page-wrapper')
+  const textLayer = wrapper?.querySelector<HTMLElement>(TEXT_LAYER_SELECTOR)
+  const pageNumber = Number(wrapper?.dataset.pageNumber)
+
+  if (!wrapper || !textLayer || !pageNumber) return null
+  return { pageNumber, textLayer }
+}
+
+// Character offsets of a range within a text layer (end is clamped to the layer)
+export const getTextLayerOffsets = (
+  textLayer: HTMLElement,
+  range: Range
+): { startOffset: number; endOffset: number } => {
+  const before = document.createRange()
+  before.selectNodeContents(textLayer)
+  before.setEnd(range.startContainer, range.startOffset)
+  const startOffset = before.toString().length
+
+  const selected = document.createRange()
+  selected.selectNodeContents(textLayer)
+  selected.setStart(range.startContainer, range.startOffset)
+  if (textLayer.contains(range.endContainer)) {
+    selected.setEnd(range.endContainer, range.endOffset)
+  }
+
+  return { startOffset, endOffset: startOffset + selected.toString().length }
+}
+
+// Rebuild a DOM range from character offsets within a text layer (or any element, also in an iframe)
+export const createRangeFromOffsets = (
+  textLayer: HTMLElement,
+  startOffset: number,
+  endOffset: number
+): Range | null => {
+  const doc = textLayer.ownerDocument
+  const walker = doc.createTreeWalker(textLayer, NodeFilter.SHOW_TEXT)
+  const range = doc.createRange()
+  let position = 0
+  let hasStart = false
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text
+    const length = node.data.length
+
+    if (!hasStart && startOffset <= position + length) {
+      range.setStart(node, startOffset - position)
+      hasStart = true
+    }
+    if (hasStart && endOffset <= position + length) {
+      range.setEnd(node, endOffset - position)
+      return range
+    }
+    position += length
+  }
+
+  return null
+}
+
+// Client rects of a range, relative to the page wrapper that contains the text layer
+export const getOverlayRects = (textLayer: HTMLElement, range: Range): OverlayRect[] => {
+  const wrapper = textLayer.closest('.pdf-page-wrapper') ?? textLayer
+  const origin = wrapper.getBoundingClientRect()
+
+  return Array.from(range.getClientRects())
+    .filter(rect => rect.width > 0 && rect.height > 0)
+    .map(rect => ({
+      left: rect.left - origin.left,
+      top: rect.top - origin.top,
+      width: rect.width,
+      height: rect.height
+    }))
+}
+
+// Look up the rendered text layer of a page inside the viewer
+export const getTextLayerForPage = (container: HTMLElement, pageNumber: number): HTMLElement | null => {
+  return container.querySelector<HTMLElement>(
+    `.pdf-page-wrapper[data-page-number="${pageNumber}"] ${TEXT_LAYER_SELECTOR}`
+  )
+}
+
+interface TextPiece {
+  offset: number
+  text: string
+  separator: string  // ' ' when the piece starts a new line of the same paragraph
+}
+
+interface TextLayerParagraph {
+  startOffset: number
+  endOffset: number
+  pieces: TextPiece[]
+}
+
+// The text layer has no paragraph markup, so paragraphs are rebuilt from the layout:
+// a vertical gap larger than about half a line, or a jump back up (next column), starts a new one
+const getTextLayerParagraphs = (textLayer: HTMLElement): TextLayerParagraph[] => {
+  const walker = document.createTreeWalker(textLayer, NodeFilter.SHOW_TEXT)
+  const paragraphs: TextLayerParagraph[] = []
+  let previous: DOMRect | null = null
+  let position = 0
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text
+    const rect = node.parentElement?.getBoundingClientRect()
+    let separator = ''
+    let startsParagraph = !previous
+
+    if (previous && rect && rect.height > 0) {
+      const lineHeight = previous.height
+      if (rect.top > previous.bottom + lineHeight * 0.6 || rect.bottom < previous.top) {
+        startsParagraph = true
+      } else if (rect.top >= previous.bottom - lineHeight / 2) {
+        separator = ' '
+      }
+    }
+
+    if (startsParagraph || paragraphs.length === 0) {
+      paragraphs.push({ startOffset: position, endOffset: position, pieces: [] })
+    }
+    const paragraph = paragraphs[paragraphs.length - 1]
+    paragraph.pieces.push({ offset: position, text: node.data, separator })
+    paragraph.endOffset = position + node.data.length
+
+    if (rect && rect.height > 0) previous = rect
+    position += node.data.length
+  }
+
+  return paragraphs
+}
+
+// Text of a paragraph between two text layer offsets
+const sliceParagraph = (paragraph: TextLayerParagraph, from: number, to: number): string => {
+  return paragraph.pieces.map(piece => {
+    const start = Math.max(from, piece.offset) - piece.offset
+    const end = Math.min(to, piece.offset + piece.text.length) - piece.offset
+    if (end <= start) return ''
+    return (start === 0 ? piece.separator : '') + piece.text.slice(start, end)
+  }).join('')
+}
+
+// Paragraphs around a selection on the same page: `count` whole paragraphs on each side,
+// plus the rest of the paragraphs the selection starts and ends in
+export const getTextLayerSurroundings = (
+  textLayer: HTMLElement,
+  startOffset: number,
+  endOffset: number,
+  count: number
+): { before: string[]; after: string[] } | null => {
+  const paragraphs = getTextLayerParagraphs(textLayer)
+  const first = paragraphs.findIndex(p => p.endOffset > startOffset)
+  const last = paragraphs.findIndex(p => p.endOffset >= endOffset)
+  if (first === -1 || last === -1) return null
+
+  const whole = (p: TextLayerParagraph) => sliceParagraph(p, p.startOffset, p.endOffset)
+
+  return {
+    before: [
+      ...paragraphs.slice(Math.max(0, first - count), first).map(whole),
+      sliceParagraph(paragraphs[first], paragraphs[first].startOffset, startOffset)
+    ],
+    after: [
+      sliceParagraph(paragraphs[last], endOffset, paragraphs[last].endOffset),
+      ...paragraphs.slice(last + 1, last + 1 + count).map(whole)
+    ]
+  }
+}
@@ -0,0 +1,160 @@
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import type { ContextBudgetSettings } from '@shared/types'
+
+interface ContextBudgetFieldsProps {
+  value: ContextBudgetSettings
+  onChange: (value: ContextBudgetSettings) => void
+  currentModel: string  // 새 모델별 한도의 기본 모델 이름
+}
+
+const toTokenCount = (input: string) => Math.max(1000, Math.round(Number(input)) || 1000)
+
+// Input token budget per request, per-model overrides and how many recent exchanges stay verbatim
+export function ContextBudgetFields({ value, onChange, currentModel }: ContextBudgetFieldsProps) {
+  const updateModelBudget = (index: number, entry: { model: string; budget: number }) => {
+    onChange({ ...value, modelBudgets: value.modelBudgets.map((e, i) => i === index ? entry : e) })
+  }
+
+  const addModelBudget = () => {
+    const model = value.modelBudgets.some(e => e.model === currentModel) ? '' : currentModel
+    onChange({ ...value, modelBudgets: [...value.modelBudgets, { model, budget: value.defaultBudget }] })
+  }
+
+  return (
+    <div className="context-budget-fields">
+      <label className="context-budget-field">
+        <span className="context-budget-label">입력 토큰 한도</span>
+        <input
+          type="number"
+          min={1000}
+          step={1000}
+          value={value.defaultBudget}
+          onChange={(e) => onChange({ ...value, defaultBudget: toTokenCount(e.target.value) })}
+          className="context-budget-input"
+        />
+      </label>
+
+      <div className="context-budget-field">
+        <span className="context-budget-label">모델별 한도</span>
+        {value.modelBudgets.map((entry, index) => (
+          <div key={index} className="model-budget-row">
+            <input
+              type="text"
+              value={entry.model}
+              placeholder="모델 이름"
+              onChange={(e) => updateModelBudget(index, { ...entry, model: e.target.value })}
+              className="context-budget-input model-budget-model"
+            />
+            <input
+              type="number"
+              min={1000}
+              step={1000}
+              value={entry.budget}
+              onChange={(e) => updateModelBudget(index, { ...entry, budget: toTokenCount(e.target.value) })}
+              className="context-budget-input model-budget-tokens"
+              aria-label={`${entry.model || '모델'} 토큰 한도`}
+            />
+            <button
+              className="model-budget-remove"
+              onClick={() => onChange({ ...value, modelBudgets: value.modelBudgets.filter((_, i) => i !== index) })}
+              aria-label="모델별 한도 삭제"
+            >
+              <TrashIcon className="model-budget-icon" />
+            </button>
+          </div>
+        ))}
+        <button className="model-budget-add" onClick={addModelBudget}>
+          <PlusIcon className="model-budget-icon" />
+          모델 추가
+        </button>
+      </div>
+
+      <label className="context-budget-field">
+        <span className="context-budget-label">그대로 보낼 최근 문답 수</span>
+        <input
+          type="number"
+          min={1}
+          max={20}
+          value={value.keepExchanges}
+          onChange={(e) => onChange({
+            ...value,
+            keepExchanges: Math.min(20, Math.max(1, Math.round(Number(e.target.value)) || 1))
+          })}
+          className="context-budget-input"
+        />
+      </label>
+
+      <style>{`
+        .context-budget-fields {
+          display: flex;
+          flex-direction: column;
+          gap: var(--spacing-md);
+        }
+
+        .context-budget-field {
+          display: flex;
+          flex-direction: column;
+          gap: var(--spacing-xs);
+        }
+
+        .context-budget-label {
+          font-size: 14px;
+          font-weight: 500;
+        }
+
+        .context-budget-input {
+          padding: var(--spacing-xs) var(--spacing-sm);
+          background-color: var(--color-bg-secondary);
+          border: 1px solid var(--color-border);
+          border-radius: 6px;
+          font-size: 13px;
+        }
+
+        .model-budget-row {
+          display: flex;
+          align-items: center;
+          gap: var(--spacing-xs);
+        }
+
+        .model-budget-model {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .model-budget-tokens {
+          width: 110px;
+        }
+
+        .model-budget-remove {
+          padding: 4px;
+          border-radius: 4px;
+          color: var(--color-text-muted);
+        }
+
+        .model-budget-remove:hover {
+          color: #ef4444;
+        }
+
+        .model-budget-add {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          align-self: flex-start;
+          padding: 4px 8px;
+          border-radius: 4px;
+          font-size: 13px;
+          color: var(--color-accent);
+        }
+
+        .model-budget-add:hover {
+          background-color: var(--color-bg-tertiary);
+        }
+
+        .model-budget-icon {
+          width: 14px;
+          height: 14px;
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import { SAFETY_CATEGORY_NAMES, SAFETY_THRESHOLD_NAMES } from '@shared/types'
+import type { GenerationConfig, SafetyCategory, SafetyThreshold } from '@shared/types'
+
+interface GenerationFieldsProps {
+  value: GenerationConfig
+  onChange: (value: GenerationConfig) => void
+  showSafety?: boolean
+}
+
+// Temperature, output length and (Gemini only) safety thresholds
+export function GenerationFields({ value, onChange, showSafety = true }: GenerationFieldsProps) {
+  return (
+    <div className="generation-fields">
+      <label className="generation-field">
+        <span className="generation-label">
+          Temperature <span className="generation-value">{value.temperature.toFixed(1)}</span>
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.1}
+          value={value.temperature}
+          onChange={(e) => onChange({ ...value, temperature: Number(e.target.value) })}
+        />
+      </label>
+
+      <label className="generation-field">
+        <span className="generation-label">최대 출력 토큰</span>
+        <input
+          type="number"
+          min={1}
+          step={256}
+          value={value.maxOutputTokens}
+          onChange={(e) => onChange({ ...value, maxOutputTokens: Math.max(1, Number(e.target.value) || 1) })}
+          className="generation-input"
+        />
+      </label>
+
+      {showSafety && (
+        <div className="generation-field">
+          <span className="generation-label">안전 설정</span>
+          {(Object.keys(SAFETY_CATEGORY_NAMES) as SafetyCategory[]).map(category => (
+            <div key={category} className="safety-row">
+              <span className="safety-category">{SAFETY_CATEGORY_NAMES[category]}</span>
+              <select
+                value={value.safety[category]}
+                onChange={(e) => onChange({
+                  ...value,
+                  safety: { ...value.safety, [category]: e.target.value as SafetyThreshold }
+                })}
+                className="generation-input"
+              >
+                {(Object.keys(SAFETY_THRESHOLD_NAMES) as SafetyThreshold[]).map(threshold => (
+                  <option key={threshold} value={threshold}>{SAFETY_THRESHOLD_NAMES[threshold]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <style>{`
+        .generation-fields {
+          display: flex;
+          flex-direction: column;
+          gap: var(--spacing-md);
+        }
+
+        .generation-field {
+          display: flex;
+          flex-direction: column;
+          gap: var(--spacing-xs);
+        }
+
+        .generation-label {
+          font-size: 14px;
+          font-weight: 500;
+        }
+
+        .generation-value {
+          margin-left: var(--spacing-xs);
+          font-weight: 400;
+          color: var(--color-text-muted);
+        }
+
+        .generation-input {
+          padding: var(--spacing-xs) var(--spacing-sm);
+          background-color: var(--color-bg-secondary);
+          border: 1px solid var(--color-border);
+          border-radius: 6px;
+          font-size: 13px;
+        }
+
+        .safety-row {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: var(--spacing-sm);
+        }
+
+        .safety-category {
+          font-size: 13px;
+          color: var(--color-text-secondary);
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -0,0 +1,343 @@
+import { useState, useEffect } from 'react'
+import { ChevronUpIcon, ChevronDownIcon, PencilIcon, TrashIcon, PlusIcon } from '@heroicons/react/24/outline'
+import { PROMPT_VARIABLES } from '../../utils/promptTemplate'
+import { getShortcut } from '../../utils/shortcuts'
+import { LANGUAGE_NAMES } from '@shared/types'
+import type { PromptAction, PromptActionInput } from '@shared/types'
+
+const EMPTY_ACTION: PromptActionInput = {
+  name: '',
+  icon: '✨',
+  template: '',
+  targetLanguage: '',
+  autoSend: false,
+  shortcut: ''
+}
+
+// Prompt actions are saved as soon as they are edited, independently of the modal's save button
+export function PromptActionsSection() {
+  const [actions, setActions] = useState<PromptAction[]>([])
+  // id of the action being edited, 'new' for an unsaved one
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<PromptActionInput>(EMPTY_ACTION)
+
+  useEffect(() => {
+    window.api.getPromptActions()
+      .then(setActions)
+      .catch(err => console.error('Failed to load prompt actions:', err))
+  }, [])
+
+  const startEditing = (action?: PromptAction) => {
+    setEditingId(action?.id ?? 'new')
+    setDraft(action
+      ? {
+          name: action.name,
+          icon: action.icon,
+          template: action.template,
+          targetLanguage: action.targetLanguage || '',
+          autoSend: action.autoSend,
+          shortcut: action.shortcut || ''
+        }
+      : EMPTY_ACTION)
+  }
+
+  const handleSave = async () => {
+    if (!draft.name.trim() || !draft.template.trim()) return
+    const input = { ...draft, name: draft.name.trim(), icon: draft.icon.trim() || '✨' }
+
+    try {
+      if (editingId === 'new') {
+        const created = await window.api.createPromptAction(input)
+        setActions(prev => [...prev, created])
+      } else if (editingId && await window.api.updatePromptAction(editingId, input)) {
+        setActions(prev => prev.map(a => a.id === editingId ? { ...a, ...input } : a))
+      }
+      setEditingId(null)
+    } catch (err) {
+      console.error('Failed to save prompt action:', err)
+    }
+  }
+
+  const handleDelete = async (action: PromptAction) => {
+    if (!confirm(`"${action.name}" 액션을 삭제하시겠습니까?`)) return
+    if (await window.api.deletePromptAction(action.id)) {
+      setActions(prev => prev.filter(a => a.id !== action.id))
+    }
+  }
+
+  const handleMove = async (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= actions.length) return
+
+    const reordered = [...actions]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setActions(reordered)
+    await window.api.reorderPromptActions(reordered.map(a => a.id))
+  }
+
+  const handleShortcutKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Tab') return
+    e.preventDefault()
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      setDraft({ ...draft, shortcut: '' })
+      return
+    }
+    const shortcut = getShortcut(e)
+    if (shortcut) setDraft({ ...draft, shortcut })
+  }
+
+  const shortcutConflict = draft.shortcut
+    ? actions.find(a => a.shortcut === draft.shortcut && a.id !== editingId)
+    : undefined
+
+  const renderForm = () => (
+    <div className="prompt-action-form">
+      <div className="prompt-form-row">
+        <input
+          type="text"
+          value={draft.icon}
+          onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+          className="form-input prompt-icon-input"
+          aria-label="아이콘"
+        />
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="이름"
+          className="form-input"
+          autoFocus
+        />
+      </div>
+
+      <textarea
+        value={draft.template}
+        onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+        placeholder="프롬프트 템플릿"
+        className="form-input prompt-template-input"
+        rows={3}
+      />
+      <p className="form-hint">
+        사용 가능한 변수: {PROMPT_VARIABLES.map(name => `{${name}}`).join(' ')}
+      </p>
+
+      <div className="prompt-form-row">
+        <select
+          value={draft.targetLanguage || ''}
+          onChange={(e) => setDraft({ ...draft, targetLanguage: e.target.value })}
+          className="form-select"
+          aria-label="대상 언어"
+        >
+          <option value="">기본 번역 언어</option>
+          {/* Keep free-text languages from older actions selectable */}
+          {draft.targetLanguage && !LANGUAGE_NAMES[draft.targetLanguage] && (
+            <option value={draft.targetLanguage}>{draft.targetLanguage}</option>
+          )}
+          {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+            <option key={code} value={code}>{name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={draft.shortcut || ''}
+          onKeyDown={handleShortcutKeyDown}
+          readOnly
+          placeholder="단축키 (예: Alt+S)"
+          className="form-input"
+        />
+      </div>
+      {shortcutConflict && (
+        <p className="form-hint prompt-warning">
+          "{shortcutConflict.name}" 액션과 단축키가 겹칩니다.
+        </p>
+      )}
+
+      <label className="prompt-checkbox">
+        <input
+          type="checkbox"
+          checked={draft.autoSend}
+          onChange={(e) => setDraft({ ...draft, autoSend: e.target.checked })}
+        />
+        바로 전송
+      </label>
+
+      <div className="prompt-form-actions">
+        <button className="cancel-button" onClick={() => setEditingId(null)}>
+          취소
+        </button>
+        <button
+          className="save-button"
+          onClick={handleSave}
+          disabled={!draft.name.trim() || !draft.template.trim()}
+        >
+          {editingId === 'new' ? '추가' : '저장'}
+        </button>
+      </div>
+    </div>
+  )
+
+  return (
+    <section className="settings-section">
+      <h3 className="section-title">프롬프트 액션</h3>
+
+      <ul className="prompt-action-list">
+        {actions.map((action, index) => (
+          <li key={action.id}>
+            {editingId === action.id ? renderForm() : (
+              <div className="prompt-action-item">
+                <span className="prompt-action-icon">{action.icon}</span>
+                <span className="prompt-action-name">{action.name}</span>
+                {action.shortcut && <kbd className="prompt-action-shortcut">{action.shortcut}</kbd>}
+                <div className="prompt-action-buttons">
+                  <button onClick={() => handleMove(index, -1)} disabled={index === 0} aria-label="위로">
+                    <ChevronUpIcon className="prompt-button-icon" />
+                  </button>
+                  <button onClick={() => handleMove(index, 1)} disabled={index === actions.length - 1} aria-label="아래로">
+                    <ChevronDownIcon className="prompt-button-icon" />
+                  </button>
+                  <button onClick={() => startEditing(action)} aria-label="편집">
+                    <PencilIcon className="prompt-button-icon" />
+                  </button>
+                  <button onClick={() => handleDelete(action)} aria-label="삭제">
+                    <TrashIcon className="prompt-button-icon" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {editingId === 'new' ? renderForm() : (
+        <button className="add-prompt-action" onClick={() => startEditing()}>
+          <PlusIcon className="prompt-button-icon" />
+          액션 추가
+        </button>
+      )}
+
+      <style>{`
+        .prompt-action-list {
+          list-style: none;
+          margin: 0 0 var(--spacing-sm);
+          padding: 0;
+        }
+
+        .prompt-action-item {
+          display: flex;
+          align-items: center;
+          gap: var(--spacing-sm);
+          padding: var(--spacing-xs) var(--spacing-sm);
+          border-radius: 8px;
+        }
+
+        .prompt-action-item:hover {
+          background-color: var(--color-bg-secondary);
+        }
+
+        .prompt-action-icon {
+          font-size: 16px;
+        }
+
+        .prompt-action-name {
+          flex: 1;
+          font-size: 14px;
+        }
+
+        .prompt-action-shortcut {
+          padding: 1px 6px;
+          border: 1px solid var(--color-border);
+          border-radius: 4px;
+          font-size: 11px;
+          font-family: inherit;
+          color: var(--color-text-muted);
+        }
+
+        .prompt-action-buttons {
+          display: flex;
+          gap: 2px;
+        }
+
+        .prompt-action-buttons button {
+          padding: 4px;
+          border-radius: 4px;
+          color: var(--color-text-muted);
+        }
+
+        .prompt-action-buttons button:hover:not(:disabled) {
+          background-color: var(--color-bg-tertiary);
+          color: var(--color-text-primary);
+        }
+
+        .prompt-action-buttons button:disabled {
+          opacity: 0.3;
+        }
+
+        .prompt-button-icon {
+          width: 14px;
+          height: 14px;
+        }
+
+        .prompt-action-form {
+          display: flex;
+          flex-direction: column;
+          gap: var(--spacing-sm);
+          padding: var(--spacing-sm);
+          margin-bottom: var(--spacing-sm);
+          border: 1px solid var(--color-border);
+          border-radius: 8px;
+        }
+
+        .prompt-form-row {
+          display: flex;
+          gap: var(--spacing-sm);
+        }
+
+        .prompt-icon-input {
+          width: 52px;
+          flex-shrink: 0;
+          text-align: center;
+        }
+
+        .prompt-template-input {
+          resize: vertical;
+          font-family: inherit;
+        }
+
+        .prompt-action-form .form-hint {
+          margin-top: calc(-1 * var(--spacing-xs));
+        }
+
+        .prompt-warning {
+          color: #ef4444;
+        }
+
+        .prompt-checkbox {
+          display: flex;
+          align-items: center;
+          gap: var(--spacing-xs);
+          font-size: 13px;
+        }
+
+        .prompt-form-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: var(--spacing-sm);
+        }
+
+        .add-prompt-action {
+          display: flex;
+          align-items: center;
+          gap: var(--spacing-xs);
+          padding: var(--spacing-xs) var(--spacing-sm);
+          border-radius: 8px;
+          font-size: 13px;
+          color: var(--color-accent);
+        }
+
+        .add-prompt-action:hover {
+          background-color: var(--color-accent-light);
+        }
+      `}</style>
+    </section>
+  )
+}
@@ -1,20 +1,61 @@
 import { useState, useEffect } from 'react'
 import { XMarkIcon } from '@heroicons/react/24/outline'
-import type { Settings } from '@shared/types'
+import {
+  LLM_PROVIDER_NAMES,
+  EMBEDDING_PROVIDER_NAMES,
+  DEFAULT_PROVIDER_CONFIGS,
+  DEFAULT_GENERATION_CONFIG,
+  DEFAULT_CONTEXT_BUDGET,
+  DEFAULT_EMBEDDING_MODELS,
+  DEFAULT_USAGE_SETTINGS,
+  LANGUAGE_NAMES
+} from '@shared/types'
+import type {
+  Settings,
+  LlmProviderId,
+  EmbeddingProviderId,
+  ProviderSettings,
+  ModelList,
+  SecretStorageStatus
+} from '@shared/types'
+import { PromptActionsSection } from './PromptActionsSection'
+import { GenerationFields } from './GenerationFields'
+import { ContextBudgetFields } from './ContextBudgetFields'
+import { UsageSection } from './UsageSection'
 
 interface SettingsModalProps {
   isOpen: boolean
   onClose: () => void
 }
 
+const formatTokens = (count: number) => {
+  return new Intl.NumberFormat('en', { notation: 'compact' }).format(count)
+}
+
 export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const [settings, setSettings] = useState<Settings>({
     theme: 'light',
-    model: 'gemini-2.5-flash-preview-05-20',
-    geminiApiKey: ''
+    answerLanguage: 'ko',
+    translationSource: 'auto',
+    translationTarget: 'ko',
+    provider: 'gemini',
+    providers: DEFAULT_PROVIDER_CONFIGS,
+    generation: DEFAULT_GENERATION_CONFIG,
+    surroundingParagraphs: 2,
+    contextBudget: DEFAULT_CONTEXT_BUDGET,
+    embedding: { provider: 'gemini', model: DEFAULT_EMBEDDING_MODELS.gemini },
+    usage: DEFAULT_USAGE_SETTINGS
   })
   const [saving, setSaving] = useState(false)
   const [showApiKey, setShowApiKey] = useState(false)
+  // Keys typed in this session, written on save; null removes the stored key
+  const [apiKeyDrafts, setApiKeyDrafts] = useState<Partial<Record<LlmProviderId, string | null>>>({})
+  const [secretStorage, setSecretStorage] = useState<SecretStorageStatus>('encrypted')
+  const [models, setModels] = useState<ModelList | null>(null)
+  const [connection, setConnection] = useState<{
+    status: 'testing' | 'success' | 'error'
+    message: string
+  } | null>(null)
 
   // Load settings
   useEffect(() => {
@@ -25,8 +66,13 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
 
   const loadSettings = async () => {
     try {
-      const loadedSettings = await window.api.getSettings()
+      const [loadedSettings, storageStatus] = await Promise.all([
+        window.api.getSettings(),
+        window.api.getSecretStorageStatus()
+      ])
       setSettings(loadedSettings)
+      setSecretStorage(storageStatus)
+      setApiKeyDrafts({})
     } catch (err) {
       console.error('Failed to load settings:', err)
     }
@@ -35,7 +81,21 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const handleSave = async () => {
     setSaving(true)
     try {
-      await window.api.saveSettings(settings)
+      // Rows left without a model name would never match
+      const modelBudgets = settings.contextBudget.modelBudgets
+        .map(entry => ({ ...entry, model: entry.model.trim() }))
+        .filter(entry => entry.model)
+      const prices = settings.usage.prices
+        .map(price => ({ ...price, model: price.model.trim() }))
+        .filter(price => price.model)
+      await window.api.saveSettings({
+        ...settings,
+        contextBudget: { ...settings.contextBudget, modelBudgets },
+        usage: { ...settings.usage, prices }
+      })
+      for (const [id, apiKey] of Object.entries(apiKeyDrafts) as [LlmProviderId, string | null][]) {
+        await window.api.setApiKey(id, apiKey)
+      }
       onClose()
     } catch (err) {
       console.error('Failed to save settings:', err)
@@ -44,6 +104,44 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     }
   }
 
+  const providerConfig = settings.providers[settings.provider]
+
+  // Show the last fetched model list for this provider and URL, even when offline
+  useEffect(() => {
+    if (!isOpen) return
+    setConnection(null)
+    window.api.getCachedModels(settings.provider, providerConfig.baseUrl)
+      .then(setModels)
+      .catch(err => console.error('Failed to load cached models:', err))
+  }, [isOpen, settings.provider, providerConfig.baseUrl])
+
+  const handleTestConnection = async () => {
+    setConnection({ status: 'testing', message: '연결을 확인하는 중...' })
+    const result = await window.api.testProviderConnection(settings.provider, {
+      baseUrl: providerConfig.baseUrl,
+      model: providerConfig.model,
+      apiKey: apiKeyDraft || undefined
+    })
+    if (result.success && result.models) {
+      setModels({ models: result.models, fetchedAt: new Date().toISOString() })
+      setConnection({ status: 'success', message: `연결되었습니다. 사용 가능한 모델 ${result.models.length}개` })
+    } else {
+      setConnection({ status: 'error', message: result.error || '연결에 실패했습니다.' })
+    }
+  }
+
+  const selectedModel = models?.models.find(model => model.id === providerConfig.model)
+
+  const apiKeyDraft = apiKeyDrafts[settings.provider]
+  const hasStoredApiKey = providerConfig.hasApiKey && apiKeyDraft !== null
+
+  const updateProviderConfig = (changes: Partial<ProviderSettings>) => {
+    setSettings({
+      ...settings,
+      providers: { ...settings.providers, [settings.provider]: { ...providerConfig, ...changes } }
+    })
+  }
+
   if (!isOpen) return null
 
   return (
@@ -57,51 +155,279 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
         </header>
 
         <div className="modal-body">
-          {/* API Key Section */}
+          {/* AI Provider Section */}
           <section className="settings-section">
-            <h3 className="section-title">Gemini API</h3>
-            
+            <h3 className="section-title">AI 제공자</h3>
+
             <div className="form-group">
-              <label className="form-label">API Key</label>
-              <div className="api-key-input">
-                <input
-                  type={showApiKey ? 'text' : 'password'}
-                  value={settings.geminiApiKey || ''}
-                  onChange={(e) => setSettings({ ...settings, geminiApiKey: e.target.value })}
-                  placeholder="Gemini API Key를 입력하세요"
-                  className="form-input"
-                />
-                <button
-                  type="button"
-                  className="toggle-visibility"
-                  onClick={() => setShowApiKey(!showApiKey)}
-                >
-                  {showApiKey ? '숨기기' : '보기'}
-                </button>
+              <label className="form-label">제공자</label>
+              <select
+                value={settings.provider}
+                onChange={(e) => setSettings({ ...settings, provider: e.target.value as LlmProviderId })}
+                className="form-select"
+              >
+                {(Object.keys(LLM_PROVIDER_NAMES) as LlmProviderId[]).map((id) => (
+                  <option key={id} value={id}>{LLM_PROVIDER_NAMES[id]}</option>
+                ))}
+              </select>
+              {settings.provider !== 'gemini' && (
+                <p className="form-hint">
+                  로컬 서버를 사용하면 책의 내용이 이 컴퓨터 밖으로 전송되지 않습니다.
+                </p>
+              )}
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Base URL</label>
+              <input
+                type="text"
+                value={providerConfig.baseUrl}
+                onChange={(e) => updateProviderConfig({ baseUrl: e.target.value })}
+                placeholder={DEFAULT_PROVIDER_CONFIGS[settings.provider].baseUrl}
+                className="form-input"
+              />
+            </div>
+
+            {settings.provider !== 'ollama' && (
+              <div className="form-group">
+                <label className="form-label">API Key</label>
+                <div className="api-key-input">
+                  <input
+                    type={showApiKey ? 'text' : 'password'}
+                    value={apiKeyDraft || ''}
+                    onChange={(e) => setApiKeyDrafts({ ...apiKeyDrafts, [settings.provider]: e.target.value })}
+                    placeholder={
+                      hasStoredApiKey
+                        ? '저장된 키가 있습니다. 바꾸려면 새 키를 입력하세요'
+                        : settings.provider === 'gemini' ? 'Gemini API Key를 입력하세요' : '필요한 경우에만 입력하세요'
+                    }
+                    className="form-input"
+                  />
+                  <button
+                    type="button"
+                    className="toggle-visibility"
+                    onClick={() => setShowApiKey(!showApiKey)}
+                  >
+                    {showApiKey ? '숨기기' : '보기'}
+                  </button>
+                  {hasStoredApiKey && (
+                    <button
+                      type="button"
+                      className="toggle-visibility"
+                      onClick={() => setApiKeyDrafts({ ...apiKeyDrafts, [settings.provider]: null })}
+                    >
+                      키 삭제
+                    </button>
+                  )}
+                </div>
+                {secretStorage !== 'encrypted' && (
+                  <p className="form-hint api-key-warning">
+                    {secretStorage === 'obfuscated'
+                      ? '시스템 키링(gnome-keyring, KWallet 등)을 찾지 못해 API 키가 약하게만 암호화되어 저장됩니다.'
+                      : '이 시스템에서는 암호화를 사용할 수 없어 API 키가 암호화되지 않은 채 저장됩니다.'}
+                  </p>
+                )}
+                {settings.provider === 'gemini' && (
+                  <p className="form-hint">
+                    API Key는{' '}
+                    <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer">
+                      Google AI Studio
+                    </a>
+                    에서 발급받을 수 있습니다.
+                  </p>
+                )}
               </div>
+            )}
+
+            <div className="form-group">
+              <label className="form-label">모델</label>
+              <input
+                type="text"
+                list={`${settings.provider}-models`}
+                value={providerConfig.model}
+                onChange={(e) => updateProviderConfig({ model: e.target.value })}
+                placeholder={DEFAULT_PROVIDER_CONFIGS[settings.provider].model}
+                className="form-input"
+              />
+              <datalist id={`${settings.provider}-models`}>
+                {models?.models.map(model => (
+                  <option key={model.id} value={model.id}>
+                    {[model.displayName, model.contextWindow && `${formatTokens(model.contextWindow)} 토큰`]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </option>
+                ))}
+              </datalist>
               <p className="form-hint">
-                API Key는{' '}
-                <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer">
-                  Google AI Studio
-                </a>
-                에서 발급받을 수 있습니다.
+                {selectedModel?.contextWindow
+                  ? `컨텍스트 ${formatTokens(selectedModel.contextWindow)} 토큰`
+                  : models ? '' : '연결 테스트를 하면 사용 가능한 모델 목록을 불러옵니다.'}
+                {models && ` · 목록 갱신: ${new Date(models.fetchedAt).toLocaleString('ko-KR')}`}
               </p>
             </div>
 
+            <div className="form-group connection-test">
+              <button
+                type="button"
+                className="toggle-visibility"
+                onClick={handleTestConnection}
+                disabled={connection?.status === 'testing'}
+              >
+                연결 테스트
+              </button>
+              {connection && (
+                <span className={`connection-status ${connection.status}`}>{connection.message}</span>
+              )}
+            </div>
+          </section>
+
+          {/* Generation Defaults Section */}
+          <section className="settings-section">
+            <h3 className="section-title">생성 기본값</h3>
+            <GenerationFields
+              value={settings.generation}
+              onChange={(generation) => setSettings({ ...settings, generation })}
+              showSafety={settings.provider === 'gemini'}
+            />
+            <p className="form-hint">
+              새 대화에 적용됩니다. 기존 대화는 채팅 패널의 설정에서 바꿀 수 있습니다.
+            </p>
+          </section>
+
+          {/* Chat Context Section */}
+          <section className="settings-section">
+            <h3 className="section-title">대화 문맥</h3>
+
             <div className="form-group">
-              <label className="form-label">모델</label>
+              <label className="form-label">앞뒤로 함께 보낼 문단 수</label>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={settings.surroundingParagraphs}
+                onChange={(e) => setSettings({
+                  ...settings,
+                  surroundingParagraphs: Math.min(10, Math.max(0, Math.round(Number(e.target.value)) || 0))
+                })}
+                className="form-input"
+              />
+              <p className="form-hint">
+                새 대화를 시작할 때 책 제목, 챕터와 함께 선택한 부분 앞뒤의 문단을 AI에게 전달합니다.
+                0이면 선택한 문단 안의 문장만 전달합니다.
+              </p>
+            </div>
+
+            <ContextBudgetFields
+              value={settings.contextBudget}
+              onChange={(contextBudget) => setSettings({ ...settings, contextBudget })}
+              currentModel={providerConfig.model}
+            />
+            <p className="form-hint">
+              대화가 길어져 한도를 넘으면 최근 문답만 그대로 보내고, 그 앞의 대화는 요약해 대화에 저장한 뒤 요약으로 대신 보냅니다.
+              선택한 텍스트는 항상 함께 전달됩니다. 토큰 수는 글자 수로 어림한 값입니다.
+            </p>
+          </section>
+
+          {/* Book Search Section */}
+          <section className="settings-section">
+            <h3 className="section-title">책 전체 검색</h3>
+
+            <div className="form-group">
+              <label className="form-label">임베딩 제공자</label>
               <select
-                value={settings.model}
-                onChange={(e) => setSettings({ ...settings, model: e.target.value })}
+                value={settings.embedding.provider}
+                onChange={(e) => {
+                  const provider = e.target.value as EmbeddingProviderId
+                  setSettings({ ...settings, embedding: { provider, model: DEFAULT_EMBEDDING_MODELS[provider] } })
+                }}
                 className="form-select"
               >
-                <option value="gemini-2.5-flash-preview-05-20">Gemini 2.5 Flash (Preview)</option>
-                <option value="gemini-1.5-flash">Gemini 1.5 Flash</option>
-                <option value="gemini-1.5-pro">Gemini 1.5 Pro</option>
+                {(Object.keys(EMBEDDING_PROVIDER_NAMES) as EmbeddingProviderId[]).map(id => (
+                  <option key={id} value={id}>{EMBEDDING_PROVIDER_NAMES[id]}</option>
+                ))}
               </select>
             </div>
+
+            {settings.embedding.provider !== 'local' && (
+              <div className="form-group">
+                <label className="form-label">임베딩 모델</label>
+                <input
+                  type="text"
+                  value={settings.embedding.model}
+                  onChange={(e) => setSettings({
+                    ...settings,
+                    embedding: { ...settings.embedding, model: e.target.value }
+                  })}
+                  placeholder={DEFAULT_EMBEDDING_MODELS[settings.embedding.provider]}
+                  className="form-input"
+                />
+              </div>
+            )}
+
+            <p className="form-hint">
+              책 전체 대화는 책을 조각으로 나눠 임베딩한 색인에서 관련 대목을 찾습니다.
+              제공자의 주소와 API 키는 위의 AI 제공자 설정을 사용하며, 바꾼 뒤에는 채팅 패널에서 다시 색인해야 적용됩니다.
+              '로컬 단어 해시'는 단어 일치만 보는 간이 방식으로 서버나 키 없이 동작합니다.
+            </p>
+          </section>
+
+          <UsageSection
+            value={settings.usage}
+            onChange={(usage) => setSettings({ ...settings, usage })}
+            currentModel={providerConfig.model}
+          />
+
+          {/* Language Section */}
+          <section className="settings-section">
+            <h3 className="section-title">언어</h3>
+
+            <div className="form-group">
+              <label className="form-label">답변 언어</label>
+              <select
+                value={settings.answerLanguage}
+                onChange={(e) => setSettings({ ...settings, answerLanguage: e.target.value })}
+                className="form-select"
+              >
+                {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+                  <option key={code} value={code}>{name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">번역</label>
+              <div className="language-pair">
+                <select
+                  value={settings.translationSource}
+                  onChange={(e) => setSettings({ ...settings, translationSource: e.target.value })}
+                  className="form-select"
+                  aria-label="번역 원문 언어"
+                >
+                  <option value="auto">자동 감지</option>
+                  {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+                    <option key={code} value={code}>{name}</option>
+                  ))}
+                </select>
+                <span className="language-arrow">→</span>
+                <select
+                  value={settings.translationTarget}
+                  onChange={(e) => setSettings({ ...settings, translationTarget: e.target.value })}
+                  className="form-select"
+                  aria-label="번역 대상 언어"
+                >
+                  {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+                    <option key={code} value={code}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="form-hint">
+                다른 언어로 된 책은 리더 상단의 언어 버튼에서 책별로 바꿀 수 있습니다.
+              </p>
+            </div>
           </section>
 
+          <PromptActionsSection />
+
           {/* Theme Section */}
           <section className="settings-section">
             <h3 className="section-title">테마</h3>
@@ -270,6 +596,10 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             flex: 1;
           }
 
+          .api-key-warning {
+            color: #ef4444;
+          }
+
           .toggle-visibility {
             padding: var(--spacing-sm) var(--spacing-md);
             background-color: var(--color-bg-tertiary);
@@ -297,6 +627,35 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             text-decoration: underline;
           }
 
+          .connection-test {
+            display: flex;
+            align-items: center;
+            gap: var(--spacing-sm);
+          }
+
+          .connection-status {
+            font-size: 13px;
+            color: var(--color-text-muted);
+          }
+
+          .connection-status.success {
+            color: #16a34a;
+          }
+
+          .connection-status.error {
+            color: #ef4444;
+          }
+
+          .language-pair {
+            display: flex;
+            align-items: center;
+            gap: var(--spacing-sm);
+          }
+
+          .language-arrow {
+            color: var(--color-text-muted);
+          }
+
           .theme-options {
             display: flex;
             gap: var(--spacing-md);
@@ -0,0 +1,363 @@
+import { useState, useEffect } from 'react'
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { formatCost, formatTokens, getMonthStart, summarizeUsage } from '../../utils/usage'
+import type { ModelPrice, UsageGroup, UsageRow, UsageSettings } from '@shared/types'
+
+interface UsageSectionProps {
+  value: UsageSettings
+  onChange: (value: UsageSettings) => void
+  currentModel: string  // 새 단가 행의 기본 모델 이름
+}
+
+type UsagePeriod = 'month' | '30days' | 'all'
+
+const PERIOD_NAMES: Record<UsagePeriod, string> = {
+  month: '이번 달',
+  '30days': '최근 30일',
+  all: '전체'
+}
+
+const GROUP_NAMES: Record<UsageGroup, string> = {
+  book: '책',
+  session: '대화',
+  day: '날짜',
+  model: '모델'
+}
+
+const getPeriodStart = (period: UsagePeriod): string | undefined => {
+  if (period === 'month') return getMonthStart()
+  if (period === '30days') return new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
+  return undefined
+}
+
+const toPrice = (input: string) => Math.max(0, Number(input) || 0)
+
+// Recorded token usage by book, conversation, day or model, with costs from the prices below it.
+// Prices and the budget are saved with the rest of the settings.
+export function UsageSection({ value, onChange, currentModel }: UsageSectionProps) {
+  const [period, setPeriod] = useState<UsagePeriod>('month')
+  const [group, setGroup] = useState<UsageGroup>('book')
+  const [rows, setRows] = useState<UsageRow[]>([])
+  // This month by model, for the budget line whatever the selected period
+  const [monthRows, setMonthRows] = useState<UsageRow[]>([])
+
+  useEffect(() => {
+    window.api.getUsageReport({ group, from: getPeriodStart(period) })
+      .then(setRows)
+      .catch(err => console.error('Failed to load usage:', err))
+  }, [group, period])
+
+  useEffect(() => {
+    window.api.getUsageReport({ group: 'model', from: getMonthStart() })
+      .then(setMonthRows)
+      .catch(err => console.error('Failed to load usage:', err))
+  }, [])
+
+  const totals = summarizeUsage(rows, value.prices)
+  // Newest day first; other groups by what they cost, then by tokens
+  const sorted = group === 'day'
+    ? [...totals].sort((a, b) => b.key.localeCompare(a.key))
+    : [...totals].sort((a, b) =>
+        b.cost - a.cost || (b.promptTokens + b.responseTokens) - (a.promptTokens + a.responseTokens))
+  const overall = totals.reduce((sum, total) => ({
+    requests: sum.requests + total.requests,
+    promptTokens: sum.promptTokens + total.promptTokens,
+    responseTokens: sum.responseTokens + total.responseTokens,
+    cost: sum.cost + total.cost,
+    unpriced: sum.unpriced || total.unpriced
+  }), { requests: 0, promptTokens: 0, responseTokens: 0, cost: 0, unpriced: false })
+
+  const monthCost = summarizeUsage(monthRows, value.prices).reduce((sum, total) => sum + total.cost, 0)
+  const overBudget = !!value.monthlyBudget && monthCost >= value.monthlyBudget
+
+  const updatePrice = (index: number, price: ModelPrice) => {
+    onChange({ ...value, prices: value.prices.map((p, i) => i === index ? price : p) })
+  }
+
+  const addPrice = () => {
+    const model = value.prices.some(p => p.model === currentModel) ? '' : currentModel
+    onChange({ ...value, prices: [...value.prices, { model, inputPerMillion: 0, outputPerMillion: 0 }] })
+  }
+
+  return (
+    <section className="settings-section">
+      <h3 className="section-title">사용량</h3>
+
+      <div className="usage-controls">
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as UsagePeriod)}
+          className="usage-select"
+          aria-label="기간"
+        >
+          {(Object.keys(PERIOD_NAMES) as UsagePeriod[]).map(id => (
+            <option key={id} value={id}>{PERIOD_NAMES[id]}</option>
+          ))}
+        </select>
+        <div className="usage-groups" role="tablist">
+          {(Object.keys(GROUP_NAMES) as UsageGroup[]).map(id => (
+            <button
+              key={id}
+              role="tab"
+              aria-selected={group === id}
+              className={`usage-group ${group === id ? 'active' : ''}`}
+              onClick={() => setGroup(id)}
+            >
+              {GROUP_NAMES[id]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="usage-summary">
+        요청 {formatTokens(overall.requests)}회 · 입력 {formatTokens(overall.promptTokens)} · 출력 {formatTokens(overall.responseTokens)} 토큰
+        · 예상 비용 {formatCost(overall.cost)}{overall.unpriced && '*'}
+      </div>
+
+      {value.monthlyBudget ? (
+        <div className={`usage-budget ${overBudget ? 'over' : ''}`}>
+          이번 달 {formatCost(monthCost)} / 예산 {formatCost(value.monthlyBudget)}
+          {overBudget && ' — 예산을 넘었습니다'}
+        </div>
+      ) : null}
+
+      {sorted.length === 0 ? (
+        <p className="usage-empty">이 기간에 기록된 사용량이 없습니다.</p>
+      ) : (
+        <div className="usage-table-wrapper">
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>{GROUP_NAMES[group]}</th>
+                <th>요청</th>
+                <th>입력</th>
+                <th>출력</th>
+                <th>비용</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(total => (
+                <tr key={total.key}>
+                  <td className="usage-label" title={total.label}>{total.label}</td>
+                  <td>{formatTokens(total.requests)}</td>
+                  <td>{formatTokens(total.promptTokens)}</td>
+                  <td>{formatTokens(total.responseTokens)}</td>
+                  <td>{formatCost(total.cost)}{total.unpriced && '*'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="form-group usage-prices">
+        <label className="form-label">모델별 단가 (1M 토큰당 USD)</label>
+        {value.prices.map((price, index) => (
+          <div key={index} className="usage-price-row">
+            <input
+              type="text"
+              value={price.model}
+              placeholder="모델 이름"
+              onChange={(e) => updatePrice(index, { ...price, model: e.target.value })}
+              className="usage-input usage-price-model"
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={price.inputPerMillion}
+              onChange={(e) => updatePrice(index, { ...price, inputPerMillion: toPrice(e.target.value) })}
+              className="usage-input usage-price-amount"
+              aria-label={`${price.model || '모델'} 입력 단가`}
+              title="입력"
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={price.outputPerMillion}
+              onChange={(e) => updatePrice(index, { ...price, outputPerMillion: toPrice(e.target.value) })}
+              className="usage-input usage-price-amount"
+              aria-label={`${price.model || '모델'} 출력 단가`}
+              title="출력"
+            />
+            <button
+              className="usage-price-remove"
+              onClick={() => onChange({ ...value, prices: value.prices.filter((_, i) => i !== index) })}
+              aria-label="단가 삭제"
+            >
+              <TrashIcon className="usage-icon" />
+            </button>
+          </div>
+        ))}
+        <button className="usage-price-add" onClick={addPrice}>
+          <PlusIcon className="usage-icon" />
+          단가 추가
+        </button>
+      </div>
+
+      <div className="form-group">
+        <label className="form-label">월 예산 (USD)</label>
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={value.monthlyBudget ?? ''}
+          placeholder="없음"
+          onChange={(e) => onChange({ ...value, monthlyBudget: toPrice(e.target.value) || undefined })}
+          className="form-input"
+        />
+        <p className="form-hint">
+          비용은 입력한 단가로 계산한 추정치이며, 단가가 없는 모델은 빠집니다(*). 제공자가 토큰 수를 알려주지 않으면 글자 수로 어림합니다.
+          대화나 책을 삭제해도 그 사용량은 집계에 남습니다. 이번 달 예상 비용이 예산을 넘으면 채팅 패널에 경고가 표시됩니다.
+        </p>
+      </div>
+
+      <style>{`
+        .usage-controls {
+          display: flex;
+          align-items: center;
+          gap: var(--spacing-sm);
+          margin-bottom: var(--spacing-sm);
+        }
+
+        .usage-select,
+        .usage-input {
+          padding: var(--spacing-xs) var(--spacing-sm);
+          background-color: var(--color-bg-secondary);
+          border: 1px solid var(--color-border);
+          border-radius: 6px;
+          font-size: 13px;
+        }
+
+        .usage-groups {
+          display: flex;
+          gap: 2px;
+          padding: 2px;
+          border-radius: 6px;
+          background-color: var(--color-bg-secondary);
+        }
+
+        .usage-group {
+          padding: 2px 10px;
+          border-radius: 4px;
+          font-size: 13px;
+          color: var(--color-text-secondary);
+        }
+
+        .usage-group.active {
+          background-color: var(--color-bg-primary);
+          color: var(--color-text-primary);
+          font-weight: 500;
+        }
+
+        .usage-summary,
+        .usage-budget {
+          font-size: 13px;
+          color: var(--color-text-secondary);
+          margin-bottom: var(--spacing-xs);
+        }
+
+        .usage-budget.over {
+          color: #ef4444;
+          font-weight: 500;
+        }
+
+        .usage-empty {
+          font-size: 13px;
+          color: var(--color-text-muted);
+          margin-bottom: var(--spacing-md);
+        }
+
+        .usage-table-wrapper {
+          max-height: 240px;
+          overflow-y: auto;
+          margin-bottom: var(--spacing-md);
+          border: 1px solid var(--color-border);
+          border-radius: 6px;
+        }
+
+        .usage-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 12px;
+        }
+
+        .usage-table th,
+        .usage-table td {
+          padding: 4px var(--spacing-sm);
+          text-align: right;
+          white-space: nowrap;
+        }
+
+        .usage-table th {
+          position: sticky;
+          top: 0;
+          background-color: var(--color-bg-secondary);
+          font-weight: 500;
+          color: var(--color-text-secondary);
+        }
+
+        .usage-table th:first-child,
+        .usage-table .usage-label {
+          text-align: left;
+        }
+
+        .usage-table tbody tr + tr td {
+          border-top: 1px solid var(--color-border);
+        }
+
+        .usage-label {
+          max-width: 200px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .usage-price-row {
+          display: flex;
+          align-items: center;
+          gap: var(--spacing-xs);
+          margin-bottom: var(--spacing-xs);
+        }
+
+        .usage-price-model {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .usage-price-amount {
+          width: 90px;
+        }
+
+        .usage-price-remove {
+          padding: 4px;
+          border-radius: 4px;
+          color: var(--color-text-muted);
+        }
+
+        .usage-price-remove:hover {
+          color: #ef4444;
+        }
+
+        .usage-price-add {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          padding: 4px 8px;
+          border-radius: 4px;
+          font-size: 13px;
+          color: var(--color-accent);
+        }
+
+        .usage-price-add:hover {
+          background-color: var(--color-bg-tertiary);
+        }
+
+        .usage-icon {
+          width: 14px;
+          height: 14px;
+        }
+      `}</style>
+    </section>
+  )
+}
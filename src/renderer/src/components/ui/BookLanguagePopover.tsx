@@ -0,0 +1,118 @@
+import { useEffect, useRef } from 'react'
+import { LANGUAGE_NAMES } from '@shared/types'
+import type { LanguageSettings } from '@shared/types'
+
+interface BookLanguagePopoverProps {
+  overrides: Partial<LanguageSettings>
+  defaults?: LanguageSettings
+  onChange: (overrides: Partial<LanguageSettings>) => void
+  onClose: () => void
+}
+
+const FIELDS: { key: keyof LanguageSettings; label: string }[] = [
+  { key: 'answerLanguage', label: '답변 언어' },
+  { key: 'translationSource', label: '번역 원문' },
+  { key: 'translationTarget', label: '번역 대상' }
+]
+
+const getLanguageLabel = (code?: string) => {
+  if (!code) return ''
+  return code === 'auto' ? '자동 감지' : LANGUAGE_NAMES[code] ?? code
+}
+
+// Per-book language overrides; an empty choice falls back to the global setting
+export function BookLanguagePopover({ overrides, defaults, onChange, onClose }: BookLanguagePopoverProps) {
+  const popoverRef = useRef<HTMLDivElement>(null)
+
+  // Close on click outside or escape
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        onClose()
+      }
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose()
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [onClose])
+
+  return (
+    <div ref={popoverRef} className="book-language-popover">
+      <div className="book-language-title">이 책의 언어 설정</div>
+
+      {FIELDS.map(({ key, label }) => (
+        <label key={key} className="book-language-field">
+          <span className="book-language-label">{label}</span>
+          <select
+            value={overrides[key] || ''}
+            onChange={(e) => onChange({ ...overrides, [key]: e.target.value || undefined })}
+            className="book-language-select"
+          >
+            <option value="">기본값 ({getLanguageLabel(defaults?.[key])})</option>
+            {key === 'translationSource' && <option value="auto">자동 감지</option>}
+            {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+              <option key={code} value={code}>{name}</option>
+            ))}
+          </select>
+        </label>
+      ))}
+
+      <style>{`
+        .book-language-popover {
+          position: absolute;
+          top: calc(100% + 6px);
+          right: 0;
+          width: 240px;
+          padding: var(--spacing-sm);
+          background-color: var(--color-bg-primary);
+          border: 1px solid var(--color-border);
+          border-radius: 12px;
+          box-shadow: var(--shadow-lg);
+          z-index: 1000;
+        }
+
+        .book-language-title {
+          font-size: 12px;
+          font-weight: 600;
+          color: var(--color-text-secondary);
+          margin-bottom: var(--spacing-sm);
+        }
+
+        .book-language-field {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+          margin-bottom: var(--spacing-sm);
+        }
+
+        .book-language-field:last-of-type {
+          margin-bottom: 0;
+        }
+
+        .book-language-label {
+          font-size: 12px;
+          color: var(--color-text-muted);
+        }
+
+        .book-language-select {
+          padding: 4px var(--spacing-sm);
+          background-color: var(--color-bg-secondary);
+          border: 1px solid var(--color-border);
+          border-radius: 6px;
+          font-size: 13px;
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+import { useEffect, useRef, useState } from 'react'
+import { TrashIcon } from '@heroicons/react/24/outline'
+import { HIGHLIGHT_COLORS, HIGHLIGHT_COLOR_NAMES } from '../reader/highlightColors'
+import type { Highlight, HighlightColor } from '@shared/types'
+
+interface HighlightPopoverProps {
+  highlight: Highlight
+  position: { x: number; y: number }
+  onChangeColor: (highlight: Highlight, color: HighlightColor) => void
+  onSaveNote: (highlight: Highlight, note: string) => void
+  onDelete: (highlight: Highlight) => void
+  onClose: () => void
+}
+
+export function HighlightPopover({
+  highlight,
+  position,
+  onChangeColor,
+  onSaveNote,
+  onDelete,
+  onClose
+}: HighlightPopoverProps) {
+  const popoverRef = useRef<HTMLDivElement>(null)
+  const [note, setNote] = useState(highlight.note || '')
+
+  useEffect(() => {
+    setNote(highlight.note || '')
+  }, [highlight])
+
+  // Close on click outside or escape
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        onClose()
+      }
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose()
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [onClose])
+
+  // Adjust position to stay within viewport
+  const adjustedPosition = {
+    x: Math.min(Math.max(position.x, 140), window.innerWidth - 140),
+    y: Math.min(position.y + 8, window.innerHeight - 220)
+  }
+
+  return (
+    <div
+      ref={popoverRef}
+      className="highlight-popover"
+      style={{ left: adjustedPosition.x, top: adjustedPosition.y }}
+    >
+      <div className="popover-quote">"{highlight.text}"</div>
+
+      <div className="popover-colors">
+        {HIGHLIGHT_COLOR_NAMES.map(color => (
+          <button
+            key={color}
+            className={`color-swatch ${highlight.color === color ? 'active' : ''}`}
+            style={{ backgroundColor: HIGHLIGHT_COLORS[color] }}
+            onClick={() => onChangeColor(highlight, color)}
+            aria-label={color}
+          />
+        ))}
+        <button
+          className="popover-delete"
+          onClick={() => onDelete(highlight)}
+          title="하이라이트 삭제"
+        >
+          <TrashIcon className="delete-icon" />
+        </button>
+      </div>
+
+      <textarea
+        className="popover-note"
+        placeholder="메모를 입력하세요..."
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={3}
+      />
+
+      <div className="popover-footer">
+        <button
+          className="popover-save"
+          onClick={() => onSaveNote(highlight, note)}
+          disabled={note === (highlight.note || '')}
+        >
+          메모 저장
+        </button>
+      </div>
+
+      <style>{`
+        .highlight-popover {
+          position: fixed;
+          transform: translateX(-50%);
+          width: 260px;
+          padding: var(--spacing-sm);
+          background-color: var(--color-bg-primary);
+          border: 1px solid var(--color-border);
+          border-radius: 12px;
+          box-shadow: var(--shadow-lg);
+          z-index: 1000;
+          animation: popoverIn 0.15s ease-out;
+        }
+
+        @keyframes popoverIn {
+          from { opacity: 0; transform: translateX(-50%) translateY(8px); }
+          to { opacity: 1; transform: translateX(-50%) translateY(0); }
+        }
+
+        .popover-quote {
+          font-size: 12px;
+          color: var(--color-text-secondary);
+          margin-bottom: var(--spacing-sm);
+          max-height: 48px;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .popover-colors {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          margin-bottom: var(--spacing-sm);
+        }
+
+        .color-swatch {
+          width: 20px;
+          height: 20px;
+          border-radius: 50%;
+          border: 2px solid transparent;
+          transition: transform var(--transition-fast);
+        }
+
+        .color-swatch:hover {
+          transform: scale(1.15);
+        }
+
+        .color-swatch.active {
+          border-color: var(--color-text-primary);
+        }
+
+        .popover-delete {
+          margin-left: auto;
+          padding: 4px;
+          border-radius: 6px;
+          color: var(--color-text-muted);
+        }
+
+        .popover-delete:hover {
+          background-color: var(--color-bg-tertiary);
+          color: #ef4444;
+        }
+
+        .delete-icon {
+          width: 16px;
+          height: 16px;
+        }
+
+        .popover-note {
+          width: 100%;
+          padding: var(--spacing-xs) var(--spacing-sm);
+          background-color: var(--color-bg-secondary);
+          border: 1px solid var(--color-border);
+          border-radius: 6px;
+          font-size: 13px;
+          font-family: inherit;
+          color: var(--color-text-primary);
+          resize: vertical;
+        }
+
+        .popover-note:focus {
+          border-color: var(--color-accent);
+          outline: none;
+        }
+
+        .popover-footer {
+          display: flex;
+          justify-content: flex-end;
+          margin-top: var(--spacing-xs);
+        }
+
+        .popover-save {
+          padding: 4px 10px;
+          border-radius: 6px;
+          font-size: 12px;
+          font-weight: 500;
+          background-color: var(--color-accent);
+          color: white;
+        }
+
+        .popover-save:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -1,20 +1,25 @@
 import { useEffect, useRef } from 'react'
+import { HIGHLIGHT_COLORS, HIGHLIGHT_COLOR_NAMES } from '../reader/highlightColors'
+import { getShortcut } from '../../utils/shortcuts'
+import type { HighlightColor, PromptAction } from '@shared/types'
 
 interface SelectionBubbleProps {
   text: string
   position: { x: number; y: number }
-  onSummarize: (text: string) => void
-  onTranslate: (text: string) => void
+  actions: PromptAction[]
+  onAction: (action: PromptAction, text: string) => void
   onAsk: (text: string) => void
+  onHighlight?: (text: string, color: HighlightColor) => void
   onClose: () => void
 }
 
 export function SelectionBubble({
   text,
   position,
-  onSummarize,
-  onTranslate,
+  actions,
+  onAction,
   onAsk,
+  onHighlight,
   onClose
 }: SelectionBubbleProps) {
   const bubbleRef = useRef<HTMLDivElement>(null)
@@ -27,10 +32,18 @@ export function SelectionBubble({
       }
     }
 
-    // Close on escape
+    // Close on escape; run the action bound to a shortcut
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         onClose()
+        return
+      }
+
+      const shortcut = getShortcut(e)
+      const action = shortcut ? actions.find(a => a.shortcut === shortcut) : undefined
+      if (action) {
+        e.preventDefault()
+        onAction(action, text)
       }
     }
 
@@ -41,11 +54,12 @@ export function SelectionBubble({
       document.removeEventListener('mousedown', handleClickOutside)
       document.removeEventListener('keydown', handleKeyDown)
     }
-  }, [onClose])
+  }, [actions, text, onAction, onClose])
 
   // Adjust position to stay within viewport
+  const estimatedWidth = (actions.length + 1) * 80 + (onHighlight ? 120 : 0)
   const adjustedPosition = {
-    x: Math.min(position.x, window.innerWidth - 200),
+    x: Math.min(position.x, window.innerWidth - estimatedWidth),
     y: Math.min(position.y, window.innerHeight - 60)
   }
 
@@ -58,23 +72,17 @@ export function SelectionBubble({
         top: adjustedPosition.y
       }}
     >
-      <button 
-        className="bubble-action"
-        onClick={() => onSummarize(text)}
-        title="선택한 텍스트 요약"
-      >
-        <span className="action-icon">📝</span>
-        <span className="action-label">요약</span>
-      </button>
-      
-      <button 
-        className="bubble-action"
-        onClick={() => onTranslate(text)}
-        title="선택한 텍스트 번역"
-      >
-        <span className="action-icon">🌐</span>
-        <span className="action-label">번역</span>
-      </button>
+      {actions.map(action => (
+        <button
+          key={action.id}
+          className="bubble-action"
+          onClick={() => onAction(action, text)}
+          title={action.shortcut ? `${action.name} (${action.shortcut})` : action.name}
+        >
+          <span className="action-icon">{action.icon}</span>
+          <span className="action-label">{action.name}</span>
+        </button>
+      ))}
       
       <button 
         className="bubble-action primary"
@@ -85,6 +93,20 @@ export function SelectionBubble({
         <span className="action-label">질문하기</span>
       </button>
 
+      {onHighlight && (
+        <div className="bubble-highlight" title="하이라이트">
+          {HIGHLIGHT_COLOR_NAMES.map(color => (
+            <button
+              key={color}
+              className="highlight-swatch"
+              style={{ backgroundColor: HIGHLIGHT_COLORS[color] }}
+              onClick={() => onHighlight(text, color)}
+              aria-label={`Highlight ${color}`}
+            />
+          ))}
+        </div>
+      )}
+
       <style>{`
         .selection-bubble {
           position: fixed;
@@ -145,6 +167,26 @@ export function SelectionBubble({
         .action-label {
           font-size: 13px;
         }
+
+        .bubble-highlight {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          padding: 0 6px;
+          margin-left: 2px;
+          border-left: 1px solid var(--color-border);
+        }
+
+        .highlight-swatch {
+          width: 18px;
+          height: 18px;
+          border-radius: 50%;
+          transition: transform var(--transition-fast);
+        }
+
+        .highlight-swatch:hover {
+          transform: scale(1.2);
+        }
       `}</style>
     </div>
   )
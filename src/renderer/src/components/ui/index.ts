@@ -1,3 +1,5 @@
 export { SelectionBubble } from './SelectionBubble'
+export { HighlightPopover } from './HighlightPopover'
+export { BookLanguagePopover } from './BookLanguagePopover'
 export { ResizableSplitter } from './ResizableSplitter'
 
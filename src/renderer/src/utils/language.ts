@@ -0,0 +1,30 @@
+// Scripts that identify a language on their own; checked in order, so kana wins over shared Han characters
+const SCRIPT_LANGUAGES: [string, RegExp][] = [
+  ['ko', /[\uac00-\ud7af\u1100-\u11ff\u3130-\u318f]/g],
+  ['ja', /[\u3040-\u30ff]/g],
+  ['zh', /[\u4e00-\u9fff]/g],
+  ['ru', /[\u0400-\u04ff]/g]
+]
+
+// Share of letters a script needs before it decides the language
+const SCRIPT_THRESHOLD = 0.2
+
+// Primary subtag of a BCP 47 tag, e.g. 'en-US' -> 'en'
+export const normalizeLanguageCode = (tag?: string): string | undefined => {
+  return tag?.trim().toLowerCase().split(/[-_]/)[0] || undefined
+}
+
+// Best-effort language of a text selection. Latin-script text can't be told apart reliably,
+// so it falls back to the book's metadata language; undefined means "let the model work it out".
+export const detectLanguage = (text: string, fallback?: string): string | undefined => {
+  const letters = text.replace(/[^\p{L}]/gu, '').length
+  if (letters === 0) return normalizeLanguageCode(fallback)
+
+  for (const [code, pattern] of SCRIPT_LANGUAGES) {
+    const count = text.match(pattern)?.length ?? 0
+    if (count / letters >= SCRIPT_THRESHOLD) return code
+  }
+
+  const bookLanguage = normalizeLanguageCode(fallback)
+  return bookLanguage && !SCRIPT_LANGUAGES.some(([code]) => code === bookLanguage) ? bookLanguage : undefined
+}
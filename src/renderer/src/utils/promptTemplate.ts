@@ -0,0 +1,26 @@
+export interface PromptVariables {
+  selection: string
+  'book.title': string
+  'book.author': string
+  chapter: string
+  page: string
+  source: string
+  language: string
+}
+
+export const PROMPT_VARIABLES: (keyof PromptVariables)[] = [
+  'selection',
+  'book.title',
+  'book.author',
+  'chapter',
+  'page',
+  'source',
+  'language'
+]
+
+// Replace {variable} placeholders; unknown names are left as written
+export const renderPromptTemplate = (template: string, variables: PromptVariables): string => {
+  return template.replace(/\{([\w.]+)\}/g, (match, name: string) => {
+    return name in variables ? variables[name as keyof PromptVariables] : match
+  })
+}
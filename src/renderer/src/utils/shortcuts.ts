@@ -0,0 +1,23 @@
+import type { KeyboardEvent as ReactKeyboardEvent } from 'react'
+
+const MODIFIER_KEYS = ['Alt', 'Control', 'Meta', 'Shift']
+
+// Normalized shortcut string for a key event, e.g. 'Ctrl+Shift+S'.
+// Returns null for bare modifier presses and for keys without a modifier.
+export const getShortcut = (e: KeyboardEvent | ReactKeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null
+  if (!e.altKey && !e.ctrlKey && !e.metaKey) return null
+
+  // e.code stays the same under Alt/Option on macOS, where e.key turns into a symbol
+  const key = e.code.startsWith('Key') || e.code.startsWith('Digit')
+    ? e.code.replace(/^(Key|Digit)/, '')
+    : e.key.length === 1 ? e.key.toUpperCase() : e.key
+
+  return [
+    e.ctrlKey && 'Ctrl',
+    e.metaKey && 'Cmd',
+    e.altKey && 'Alt',
+    e.shiftKey && 'Shift',
+    key
+  ].filter(Boolean).join('+')
+}
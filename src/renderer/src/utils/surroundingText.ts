@@ -0,0 +1,23 @@
+import type { SurroundingText } from '@shared/types'
+
+// Upper bound per side, so long paragraphs don't crowd out the selection itself
+const MAX_SURROUNDING_CHARS = 3000
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+// Join paragraphs before and after a selection, dropping text farthest from it first.
+// `before` ends with the part of the selection's paragraph preceding it, `after` starts
+// with the part following it.
+export const joinSurroundingText = (before: string[], after: string[]): SurroundingText => {
+  const beforeText = before.map(normalizeWhitespace).filter(Boolean).join('\n\n')
+  const afterText = after.map(normalizeWhitespace).filter(Boolean).join('\n\n')
+
+  return {
+    before: beforeText.length > MAX_SURROUNDING_CHARS
+      ? `…${beforeText.slice(-MAX_SURROUNDING_CHARS)}`
+      : beforeText,
+    after: afterText.length > MAX_SURROUNDING_CHARS
+      ? `${afterText.slice(0, MAX_SURROUNDING_CHARS)}…`
+      : afterText
+  }
+}
@@ -0,0 +1,54 @@
+import type { TocItem, ChapterRange } from '@shared/types'
+
+// Flatten a nested TOC into reading order
+export const flattenToc = (items: TocItem[]): TocItem[] => {
+  return items.flatMap(item => [item, ...(item.children ? flattenToc(item.children) : [])])
+}
+
+// Strip the fragment so spine hrefs and TOC hrefs can be compared
+const stripFragment = (href: string): string => href.split('#')[0]
+
+// Nearest TOC item at or before a PDF page
+export const findTocItemForPage = (items: TocItem[], pageNumber: number): TocItem | undefined => {
+  let nearest: TocItem | undefined
+  for (const item of flattenToc(items)) {
+    if (item.pageNumber !== undefined && item.pageNumber <= pageNumber) {
+      if (!nearest || item.pageNumber >= (nearest.pageNumber ?? 0)) {
+        nearest = item
+      }
+    }
+  }
+  return nearest
+}
+
+// TOC item pointing at the EPUB spine section currently displayed
+export const findTocItemForHref = (items: TocItem[], href: string): TocItem | undefined => {
+  const target = stripFragment(href)
+  return flattenToc(items).find(item => {
+    const path = item.href ? stripFragment(item.href) : ''
+    return path !== '' && (path === target || target.endsWith(`/${path}`) || path.endsWith(`/${target}`))
+  })
+}
+
+const countDescendants = (item: TocItem): number => {
+  return (item.children ?? []).reduce((count, child) => count + 1 + countDescendants(child), 0)
+}
+
+// Text span of a TOC item: from its location up to the next item outside its subtree,
+// so a chapter includes its own sections
+export const getChapterRange = (items: TocItem[], item: TocItem): ChapterRange | undefined => {
+  const flat = flattenToc(items)
+  const index = flat.findIndex(entry => entry.id === item.id)
+  if (index < 0) return undefined
+  const following = flat.slice(index + 1 + countDescendants(flat[index]))
+
+  if (item.pageNumber !== undefined) {
+    const next = following.find(entry => entry.pageNumber !== undefined && entry.pageNumber >= item.pageNumber!)
+    return { type: 'pdf', startPage: item.pageNumber, endPage: next?.pageNumber }
+  }
+  if (item.href) {
+    const next = following.find(entry => entry.href)
+    return { type: 'epub', startHref: item.href, endHref: next?.href }
+  }
+  return undefined
+}
@@ -0,0 +1,72 @@
+import type { MessageUsage, ModelPrice, UsageRow } from '@shared/types'
+
+// Totals of one report group across all its models
+export interface UsageTotal {
+  key: string
+  label: string
+  requests: number
+  promptTokens: number
+  responseTokens: number
+  cost: number       // priced models only
+  unpriced: boolean  // some tokens came from a model without a price
+}
+
+// Exact names win; otherwise the longest price name the model starts with ("gpt-4o" also prices "gpt-4o-2024-08-06")
+export const findPrice = (prices: ModelPrice[], model: string): ModelPrice | undefined => {
+  return prices.find(price => price.model === model) ?? prices
+    .filter(price => price.model && model.startsWith(price.model))
+    .sort((a, b) => b.model.length - a.model.length)[0]
+}
+
+export const getCost = (
+  usage: { model: string; promptTokens: number; responseTokens: number },
+  prices: ModelPrice[]
+): number | null => {
+  const price = findPrice(prices, usage.model)
+  if (!price) return null
+  return (usage.promptTokens * price.inputPerMillion + usage.responseTokens * price.outputPerMillion) / 1_000_000
+}
+
+// Merge the per-model rows of each group, in the order the groups first appear
+export const summarizeUsage = (rows: UsageRow[], prices: ModelPrice[]): UsageTotal[] => {
+  const totals = new Map<string, UsageTotal>()
+
+  for (const row of rows) {
+    const total = totals.get(row.key) ?? {
+      key: row.key,
+      label: row.label,
+      requests: 0,
+      promptTokens: 0,
+      responseTokens: 0,
+      cost: 0,
+      unpriced: false
+    }
+    const cost = getCost(row, prices)
+    total.requests += row.requests
+    total.promptTokens += row.promptTokens
+    total.responseTokens += row.responseTokens
+    total.cost += cost ?? 0
+    total.unpriced ||= cost === null && row.promptTokens + row.responseTokens > 0
+    totals.set(row.key, total)
+  }
+
+  return [...totals.values()]
+}
+
+// Start of the current month in local time
+export const getMonthStart = (): string => {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth(), 1).toISOString()
+}
+
+export const formatCost = (cost: number): string => {
+  return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`
+}
+
+export const formatTokens = (count: number): string => count.toLocaleString('ko-KR')
+
+// Tooltip for an answer: tokens in and out, and how long the model took
+export const describeMessageUsage = (usage: MessageUsage): string => {
+  const tokens = `입력 ${formatTokens(usage.promptTokens)} · 출력 ${formatTokens(usage.responseTokens)} 토큰`
+  return `${usage.model}\n${tokens}${usage.estimated ? ' (추정)' : ''}\n${(usage.latencyMs / 1000).toFixed(1)}초`
+}
@@ -0,0 +1,97 @@
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import type { DatabaseStatus } from '@shared/types'
+
+interface DatabaseErrorViewProps {
+  status: DatabaseStatus
+}
+
+export function DatabaseErrorView({ status }: DatabaseErrorViewProps) {
+  return (
+    <div className="db-error-view">
+      <div className="db-error-card">
+        <ExclamationTriangleIcon className="db-error-icon" />
+        <h1 className="db-error-title">데이터베이스를 열 수 없습니다</h1>
+        <p className="db-error-message">{status.error || '알 수 없는 오류'}</p>
+
+        <dl className="db-error-details">
+          <dt>현재 스키마 버전</dt>
+          <dd>{status.schemaVersion}</dd>
+          {status.backupPath && (
+            <>
+              <dt>백업 파일</dt>
+              <dd className="db-error-path">{status.backupPath}</dd>
+            </>
+          )}
+        </dl>
+
+        {/* Migrations commit one by one, so a failure can leave the database partly migrated */}
+        <p className="db-error-hint">
+          {status.backupPath
+            ? '일부 마이그레이션은 이미 적용되었을 수 있습니다. 업데이트 전의 데이터는 위 백업 파일에 있으니, 앱을 종료한 뒤 이 파일로 데이터베이스를 되돌리거나 최신 버전으로 업데이트해주세요.'
+            : '기존 데이터는 변경되지 않았습니다. 앱을 다시 시작하거나 최신 버전으로 업데이트해주세요.'}
+        </p>
+      </div>
+
+      <style>{`
+        .db-error-view {
+          flex: 1;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          padding: var(--spacing-lg);
+        }
+
+        .db-error-card {
+          max-width: 520px;
+          padding: var(--spacing-xl);
+          background-color: var(--color-bg-secondary);
+          border: 1px solid var(--color-border);
+          border-radius: 12px;
+          text-align: center;
+        }
+
+        .db-error-icon {
+          width: 48px;
+          height: 48px;
+          color: #ef4444;
+          margin-bottom: var(--spacing-md);
+        }
+
+        .db-error-title {
+          font-size: 20px;
+          font-weight: 600;
+          margin-bottom: var(--spacing-sm);
+        }
+
+        .db-error-message {
+          font-size: 14px;
+          color: var(--color-text-secondary);
+          margin-bottom: var(--spacing-md);
+        }
+
+        .db-error-details {
+          display: grid;
+          grid-template-columns: auto 1fr;
+          gap: var(--spacing-xs) var(--spacing-md);
+          text-align: left;
+          font-size: 13px;
+          margin-bottom: var(--spacing-md);
+        }
+
+        .db-error-details dt {
+          color: var(--color-text-muted);
+        }
+
+        .db-error-path {
+          font-family: var(--font-mono);
+          word-break: break-all;
+        }
+
+        .db-error-hint {
+          font-size: 12px;
+          color: var(--color-text-muted);
+        }
+      `}</style>
+    </div>
+  )
+}
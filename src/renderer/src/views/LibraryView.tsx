@@ -1,15 +1,37 @@
 import { useState, useEffect, useCallback } from 'react'
-import { MagnifyingGlassIcon, PlusIcon, ChatBubbleLeftIcon } from '@heroicons/react/24/outline'
-import type { Book } from '@shared/types'
+import {
+  MagnifyingGlassIcon,
+  PlusIcon,
+  FolderPlusIcon,
+  ChatBubbleLeftIcon,
+  ArrowDownTrayIcon
+} from '@heroicons/react/24/outline'
+import type {
+  Book,
+  ImportProgress,
+  ImportSummary,
+  ImportDuplicate,
+  DuplicateResolution
+} from '@shared/types'
 
 interface LibraryViewProps {
   onBookSelect: (book: Book) => void
 }
 
+interface ImportJob {
+  importId: string
+  progress: ImportProgress | null
+  summary: ImportSummary | null
+}
+
+const getFileName = (filePath: string) => filePath.split(/[\\/]/).pop() || filePath
+
 export function LibraryView({ onBookSelect }: LibraryViewProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const [books, setBooks] = useState<Book[]>([])
   const [loading, setLoading] = useState(true)
+  const [importJob, setImportJob] = useState<ImportJob | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
 
   // Load books from database
   const loadBooks = useCallback(async () => {
@@ -32,25 +54,114 @@ export function LibraryView({ onBookSelect }: LibraryViewProps) {
     book.author.toLowerCase().includes(searchQuery.toLowerCase())
   )
 
+  // Per-file progress pushed from the main process
+  useEffect(() => {
+    return window.api.onImportProgress((progress) => {
+      setImportJob(prev => prev?.importId === progress.importId ? { ...prev, progress } : prev)
+      if (progress.status === 'imported') {
+        loadBooks()
+      }
+    })
+  }, [loadBooks])
+
+  const isImporting = importJob !== null && importJob.summary === null
+
+  const runImport = useCallback(async (paths: string[]) => {
+    if (paths.length === 0 || isImporting) return
+
+    const importId = crypto.randomUUID()
+    setImportJob({ importId, progress: null, summary: null })
+
+    try {
+      const summary = await window.api.importFiles(importId, paths)
+      setImportJob(prev => prev?.importId === importId ? { ...prev, summary } : prev)
+    } catch (err) {
+      console.error('Import error:', err)
+      setImportJob(null)
+    } finally {
+      loadBooks()
+    }
+  }, [isImporting, loadBooks])
+
   const handleImport = async () => {
     try {
-      const filePath = await window.api.openFileDialog()
-      if (filePath) {
-        const result = await window.api.importFile(filePath)
-        if (result.success) {
-          // Reload books
-          loadBooks()
-        } else {
-          console.error('Import failed:', result.error)
-        }
+      const filePaths = await window.api.openFileDialog()
+      if (filePaths) {
+        await runImport(filePaths)
       }
     } catch (err) {
       console.error('Import error:', err)
     }
   }
 
+  const handleImportFolder = async () => {
+    try {
+      const folderPaths = await window.api.openFolderDialog()
+      if (folderPaths) {
+        await runImport(folderPaths)
+      }
+    } catch (err) {
+      console.error('Import error:', err)
+    }
+  }
+
+  // Duplicates wait in the summary until the user picks what to do with them
+  const handleResolveDuplicate = async (duplicate: ImportDuplicate, resolution: DuplicateResolution) => {
+    try {
+      const result = await window.api.resolveDuplicate(duplicate.filePath, duplicate.book.id, resolution)
+      if (!result.success) {
+        console.error('Failed to resolve duplicate:', result.error)
+        return
+      }
+      setImportJob(prev => prev?.summary ? {
+        ...prev,
+        summary: {
+          ...prev.summary,
+          duplicates: prev.summary.duplicates.filter(d => d.filePath !== duplicate.filePath)
+        }
+      } : prev)
+      loadBooks()
+    } catch (err) {
+      console.error('Failed to resolve duplicate:', err)
+    }
+  }
+
+  const handleCancelImport = () => {
+    if (importJob) {
+      window.api.cancelImport(importJob.importId)
+    }
+  }
+
+  // Drag and drop files or folders onto the library
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setIsDragging(true)
+  }
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    const paths = Array.from(e.dataTransfer.files)
+      .map(file => window.api.getPathForFile(file))
+      .filter(Boolean)
+    runImport(paths)
+  }
+
   return (
-    <div className="library-view">
+    <div
+      className="library-view"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <header className="library-header">
         <h1 className="library-title">My Library</h1>
         
@@ -70,7 +181,12 @@ export function LibraryView({ onBookSelect }: LibraryViewProps) {
             Select
           </button>
           
-          <button className="import-button" onClick={handleImport}>
+          <button className="select-button folder-button" onClick={handleImportFolder} disabled={isImporting}>
+            <FolderPlusIcon className="button-icon" />
+            Import Folder
+          </button>
+          
+          <button className="import-button" onClick={handleImport} disabled={isImporting}>
             <PlusIcon className="button-icon" />
             Import Books
           </button>
@@ -87,7 +203,7 @@ export function LibraryView({ onBookSelect }: LibraryViewProps) {
           <div className="empty-state">
             <div className="empty-icon">📚</div>
             <h3>라이브러리가 비어있습니다</h3>
-            <p>Import Books 버튼을 눌러 PDF나 EPUB 파일을 추가하세요.</p>
+            <p>Import Books 버튼을 누르거나 PDF, EPUB 파일을 여기로 끌어다 놓으세요.</p>
           </div>
         ) : (
           <>
@@ -122,6 +238,23 @@ export function LibraryView({ onBookSelect }: LibraryViewProps) {
         )}
       </div>
 
+      {isDragging && (
+        <div className="drop-overlay">
+          <ArrowDownTrayIcon className="drop-icon" />
+          <span>파일이나 폴더를 놓으면 가져옵니다</span>
+        </div>
+      )}
+
+      {importJob && (
+        <ImportStatus
+          job={importJob}
+          onCancel={handleCancelImport}
+          onDismiss={() => setImportJob(null)}
+          onOpenBook={onBookSelect}
+          onResolveDuplicate={handleResolveDuplicate}
+        />
+      )}
+
       {/* Floating chat button */}
       <button className="floating-chat-button" title="AI Chat">
         <ChatBubbleLeftIcon className="chat-icon" />
@@ -217,6 +350,40 @@ export function LibraryView({ onBookSelect }: LibraryViewProps) {
           width: 18px;
           height: 18px;
         }
+
+        .folder-button {
+          display: flex;
+          align-items: center;
+          gap: var(--spacing-sm);
+        }
+
+        .import-button:disabled,
+        .folder-button:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .drop-overlay {
+          position: fixed;
+          inset: 0;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          justify-content: center;
+          gap: var(--spacing-md);
+          background-color: rgba(59, 130, 246, 0.08);
+          border: 2px dashed var(--color-accent);
+          color: var(--color-accent);
+          font-size: 16px;
+          font-weight: 500;
+          pointer-events: none;
+          z-index: 50;
+        }
+
+        .drop-icon {
+          width: 40px;
+          height: 40px;
+        }
         
         .library-content {
           flex: 1;
@@ -313,17 +480,213 @@ export function LibraryView({ onBookSelect }: LibraryViewProps) {
   )
 }
 
+// Import progress and summary
+function ImportStatus({
+  job,
+  onCancel,
+  onDismiss,
+  onOpenBook,
+  onResolveDuplicate
+}: {
+  job: ImportJob
+  onCancel: () => void
+  onDismiss: () => void
+  onOpenBook: (book: Book) => void
+  onResolveDuplicate: (duplicate: ImportDuplicate, resolution: DuplicateResolution) => void
+}) {
+  const { progress, summary } = job
+  const processed = progress ? progress.index + (progress.status === 'importing' ? 0 : 1) : 0
+  const total = progress?.total ?? 0
+
+  return (
+    <div className="import-status">
+      {summary ? (
+        <>
+          <div className="import-status-header">
+            <span className="import-status-title">
+              {summary.cancelled ? '가져오기가 취소되었습니다' : '가져오기 완료'}
+            </span>
+            <button className="import-status-action" onClick={onDismiss}>닫기</button>
+          </div>
+          <p className="import-status-summary">
+            {summary.imported.length}개 추가 · {summary.failed.length}개 실패 · {summary.duplicates.length}개 중복
+          </p>
+          {summary.duplicates.length > 0 && (
+            <ul className="import-duplicates">
+              {summary.duplicates.map(duplicate => (
+                <li key={duplicate.filePath} className="import-duplicate">
+                  <span className="import-duplicate-name" title={duplicate.filePath}>
+                    {getFileName(duplicate.filePath)} → {duplicate.book.title}
+                  </span>
+                  <div className="import-duplicate-actions">
+                    <button onClick={() => onOpenBook(duplicate.book)}>열기</button>
+                    <button onClick={() => onResolveDuplicate(duplicate, 'replace')}>파일 교체</button>
+                    <button onClick={() => onResolveDuplicate(duplicate, 'copy')}>사본으로 가져오기</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          {summary.failed.length > 0 && (
+            <ul className="import-failures">
+              {summary.failed.map(failure => (
+                <li key={failure.filePath} title={failure.error}>
+                  {getFileName(failure.filePath)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      ) : (
+        <>
+          <div className="import-status-header">
+            <span className="import-status-title">
+              가져오는 중{total > 0 ? ` (${processed}/${total})` : '...'}
+            </span>
+            <button className="import-status-action" onClick={onCancel}>취소</button>
+          </div>
+          {progress && (
+            <p className="import-status-file">{getFileName(progress.filePath)}</p>
+          )}
+          <div className="import-progress-bar">
+            <div
+              className="import-progress-fill"
+              style={{ width: total > 0 ? `${(processed / total) * 100}%` : '0%' }}
+            />
+          </div>
+        </>
+      )}
+
+      <style>{`
+        .import-status {
+          position: fixed;
+          bottom: var(--spacing-lg);
+          right: calc(var(--spacing-lg) + 56px + var(--spacing-md));
+          width: 300px;
+          padding: var(--spacing-md);
+          background-color: var(--color-bg-primary);
+          border: 1px solid var(--color-border);
+          border-radius: 12px;
+          box-shadow: var(--shadow-lg);
+          z-index: 60;
+        }
+
+        .import-status-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: var(--spacing-sm);
+        }
+
+        .import-status-title {
+          font-size: 14px;
+          font-weight: 600;
+          color: var(--color-text-primary);
+        }
+
+        .import-status-action {
+          padding: 2px 8px;
+          border-radius: 6px;
+          font-size: 12px;
+          color: var(--color-text-secondary);
+        }
+
+        .import-status-action:hover {
+          background-color: var(--color-bg-tertiary);
+          color: var(--color-text-primary);
+        }
+
+        .import-status-file,
+        .import-status-summary {
+          margin-top: var(--spacing-xs);
+          font-size: 12px;
+          color: var(--color-text-secondary);
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .import-progress-bar {
+          height: 4px;
+          margin-top: var(--spacing-sm);
+          border-radius: 2px;
+          background-color: var(--color-bg-tertiary);
+          overflow: hidden;
+        }
+
+        .import-progress-fill {
+          height: 100%;
+          background-color: var(--color-accent);
+          transition: width var(--transition-fast);
+        }
+
+        .import-duplicates {
+          margin: var(--spacing-sm) 0 0;
+          padding: 0;
+          list-style: none;
+          max-height: 160px;
+          overflow-y: auto;
+        }
+
+        .import-duplicate {
+          padding: var(--spacing-xs) 0;
+          border-top: 1px solid var(--color-border);
+        }
+
+        .import-duplicate-name {
+          display: block;
+          font-size: 12px;
+          color: var(--color-text-primary);
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .import-duplicate-actions {
+          display: flex;
+          gap: var(--spacing-xs);
+          margin-top: 4px;
+        }
+
+        .import-duplicate-actions button {
+          padding: 2px 8px;
+          border: 1px solid var(--color-border);
+          border-radius: 6px;
+          font-size: 11px;
+          color: var(--color-text-secondary);
+        }
+
+        .import-duplicate-actions button:hover {
+          background-color: var(--color-bg-tertiary);
+          color: var(--color-text-primary);
+        }
+
+        .import-failures {
+          margin: var(--spacing-xs) 0 0;
+          padding-left: var(--spacing-md);
+          max-height: 96px;
+          overflow-y: auto;
+          font-size: 12px;
+          color: #ef4444;
+        }
+      `}</style>
+    </div>
+  )
+}
+
 // Book Card Component
 function BookCard({ book, onClick }: { book: Book; onClick: () => void }) {
-  const progress = book.totalPages 
-    ? Math.round((book.lastPage / book.totalPages) * 100)
-    : 0
+  const progress = book.progress != null
+    ? Math.round(book.progress * 100)
+    : book.totalPages
+      ? Math.round((book.lastPage / book.totalPages) * 100)
+      : 0
 
   return (
     <div className="book-card" onClick={onClick}>
       <div className="book-cover">
         {book.coverPath ? (
-          <img src={book.coverPath} alt={book.title} />
+          <img src={`local-file://${encodeURIComponent(book.coverPath)}`} alt={book.title} />
         ) : (
           <div className="book-cover-placeholder">
             <span className="book-initial">{book.title[0]}</span>
@@ -336,7 +699,9 @@ function BookCard({ book, onClick }: { book: Book; onClick: () => void }) {
       <div className="book-info">
         <h3 className="book-title">{book.title}</h3>
         <p className="book-author">{book.author}</p>
-        <span className="book-source">Local</span>
+        <span className="book-source">
+          Local{book.totalPages ? ` · ${book.totalPages} pages` : ''}
+        </span>
       </div>
 
       <style>{`
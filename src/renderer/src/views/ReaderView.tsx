@@ -1,22 +1,53 @@
-import { useState, useCallback, useRef, forwardRef, useImperativeHandle } from 'react'
-import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useState, useEffect, useCallback, useRef, forwardRef, useImperativeHandle } from 'react'
+import { EpubCFI } from 'epubjs'
+import { XMarkIcon, BookmarkIcon, LanguageIcon, ViewfinderCircleIcon } from '@heroicons/react/24/outline'
+import { BookmarkIcon as BookmarkSolidIcon } from '@heroicons/react/24/solid'
 import { PDFViewer, EPUBViewer } from '../components/reader'
-import type { PDFViewerRef, EPUBViewerRef } from '../components/reader'
+import type { PDFViewerRef, EPUBViewerRef, EpubLocation } from '../components/reader'
 import { SelectionBubble } from '../components/ui/SelectionBubble'
+import { HighlightPopover } from '../components/ui/HighlightPopover'
+import { BookLanguagePopover } from '../components/ui/BookLanguagePopover'
 import { ResizableSplitter } from '../components/ui/ResizableSplitter'
 import { ChatPanel } from '../components/chat/ChatPanel'
-import type { Book, ChatSession, TocItem, ReaderSettings, SearchResult } from '@shared/types'
+import { findTocItemForPage, findTocItemForHref } from '../utils/toc'
+import { renderPromptTemplate } from '../utils/promptTemplate'
+import { detectLanguage } from '../utils/language'
+import { LANGUAGE_NAMES } from '@shared/types'
+import type {
+  Book,
+  ChatSession,
+  TocItem,
+  ReaderSettings,
+  SearchResult,
+  TextAnchor,
+  Highlight,
+  HighlightColor,
+  Bookmark,
+  BookLocation,
+  Citation,
+  QuoteCheck,
+  PromptAction,
+  LanguageSettings,
+  RegionCapture
+} from '@shared/types'
 
 interface ReaderViewProps {
   book: Book
   onBack: () => void
   onTocLoad?: (toc: TocItem[]) => void
   settings?: ReaderSettings
+  bookmarks?: Bookmark[]
+  promptActions?: PromptAction[]
+  languageSettings?: LanguageSettings
+  surroundingParagraphs?: number
+  onAddBookmark?: (location: BookLocation, chapter?: string) => void
+  onRemoveBookmark?: (bookmark: Bookmark) => void
 }
 
 export interface ReaderViewRef {
   navigateToTocItem: (item: TocItem) => void
   navigateToSearchResult: (result: SearchResult) => void
+  navigateToBookmark: (bookmark: Bookmark) => void
   search: (query: string) => Promise<SearchResult[]>
 }
 
@@ -24,16 +55,45 @@ export const ReaderView = forwardRef<ReaderViewRef, ReaderViewProps>(function Re
   book, 
   onBack,
   onTocLoad,
-  settings
+  settings,
+  bookmarks = [],
+  promptActions = [],
+  languageSettings,
+  surroundingParagraphs = 2,
+  onAddBookmark,
+  onRemoveBookmark
 }, ref) {
   const pdfViewerRef = useRef<PDFViewerRef>(null)
   const epubViewerRef = useRef<EPUBViewerRef>(null)
   
   const [currentPage, setCurrentPage] = useState(book.lastPage || 1)
   const [totalPages, setTotalPages] = useState(book.totalPages || 0)
+  const [progress, setProgress] = useState(book.progress ?? 0)
   const [selectedSession, setSelectedSession] = useState<ChatSession | null>(null)
   const [chatInput, setChatInput] = useState('')
-  const [selectedText, setSelectedText] = useState<{ text: string; position: { x: number; y: number } } | null>(null)
+  const [autoSendChatInput, setAutoSendChatInput] = useState(false)
+  const [languageOverrides, setLanguageOverrides] = useState(book.languageOverrides ?? {})
+  const [isLanguageOpen, setIsLanguageOpen] = useState(false)
+  const [isCapturing, setIsCapturing] = useState(false)
+  const [selectedText, setSelectedText] = useState<{
+    text: string
+    position: { x: number; y: number }
+    anchor?: TextAnchor
+  } | null>(null)
+  const [highlights, setHighlights] = useState<Highlight[]>([])
+  const [tocItems, setTocItems] = useState<TocItem[]>([])
+  const [epubLocation, setEpubLocation] = useState<EpubLocation | null>(null)
+  const [activeHighlight, setActiveHighlight] = useState<{
+    highlight: Highlight
+    position: { x: number; y: number }
+  } | null>(null)
+
+  // Load stored highlights for this book
+  useEffect(() => {
+    window.api.getHighlights(book.id)
+      .then(setHighlights)
+      .catch(err => console.error('Failed to load highlights:', err))
+  }, [book.id])
 
   // Navigate to TOC item
   const navigateToTocItem = useCallback((item: TocItem) => {
@@ -53,6 +113,15 @@ export const ReaderView = forwardRef<ReaderViewRef, ReaderViewProps>(function Re
     }
   }, [book.fileType])
 
+  // Navigate to bookmark
+  const navigateToBookmark = useCallback((bookmark: Bookmark) => {
+    if (bookmark.location.type === 'pdf') {
+      pdfViewerRef.current?.goToPage(bookmark.location.pageNumber)
+    } else {
+      epubViewerRef.current?.goToLocation(bookmark.location.cfi)
+    }
+  }, [])
+
   // Search function
   const search = useCallback(async (query: string): Promise<SearchResult[]> => {
     if (book.fileType === 'pdf') {
@@ -67,56 +136,254 @@ export const ReaderView = forwardRef<ReaderViewRef, ReaderViewProps>(function Re
   useImperativeHandle(ref, () => ({
     navigateToTocItem,
     navigateToSearchResult,
+    navigateToBookmark,
     search
-  }), [navigateToTocItem, navigateToSearchResult, search])
+  }), [navigateToTocItem, navigateToSearchResult, navigateToBookmark, search])
 
   const handlePageChange = useCallback((page: number, total: number) => {
     setCurrentPage(page)
     setTotalPages(total)
+    const percentage = total ? page / total : undefined
+    if (percentage !== undefined) setProgress(percentage)
     // Save progress to DB
-    window.api.updateBookProgress(book.id, page)
+    window.api.updateBookProgress(book.id, { page, percentage })
+  }, [book.id])
+
+  // EPUB pages are only meaningful once locations are generated, so the CFI is what gets restored
+  const handleLocationChange = useCallback((location: EpubLocation, page: number, total: number) => {
+    setEpubLocation(location)
+    setCurrentPage(page)
+    setTotalPages(total)
+    if (location.percentage !== undefined) setProgress(location.percentage)
+    window.api.updateBookProgress(book.id, {
+      page,
+      location: location.start,
+      percentage: location.percentage
+    })
   }, [book.id])
 
-  const handleTextSelect = useCallback((text: string, position: { x: number; y: number }) => {
-    setSelectedText({ text, position })
+  const handleTextSelect = useCallback((text: string, position: { x: number; y: number }, anchor?: TextAnchor) => {
+    setSelectedText({ text, position, anchor })
   }, [])
 
   const handleTocLoad = useCallback((toc: TocItem[]) => {
+    setTocItems(toc)
     onTocLoad?.(toc)
   }, [onTocLoad])
 
-  const handleSummarize = useCallback(async (text: string) => {
-    if (!text || text.trim().length === 0) return
-    const session = await window.api.createChatSession(book.id, text)
-    setChatInput('선택된 텍스트를 핵심을 알기 쉽게 요약해주세요.')
-    setSelectedText(null)
-    setSelectedSession(session)
-  }, [book.id])
+  // Bookmark on the page (or EPUB range) currently on screen, if any
+  const currentBookmark = bookmarks.find(bookmark => {
+    if (bookmark.location.type === 'pdf') {
+      const visiblePages = settings?.pageView === 'single' ? [currentPage] : [currentPage, currentPage + 1]
+      return visiblePages.includes(bookmark.location.pageNumber)
+    }
+    if (!epubLocation) return false
+    const cfi = new EpubCFI()
+    return cfi.compare(bookmark.location.cfi, epubLocation.start) >= 0 &&
+      cfi.compare(bookmark.location.cfi, epubLocation.end) <= 0
+  })
+
+  const handleToggleBookmark = useCallback(() => {
+    if (currentBookmark) {
+      onRemoveBookmark?.(currentBookmark)
+      return
+    }
 
-  const handleTranslate = useCallback(async (text: string) => {
+    if (book.fileType === 'pdf') {
+      const chapter = findTocItemForPage(tocItems, currentPage)
+      onAddBookmark?.({ type: 'pdf', pageNumber: currentPage }, chapter?.label)
+    } else if (epubLocation) {
+      const chapter = findTocItemForHref(tocItems, epubLocation.href)
+      onAddBookmark?.({ type: 'epub', cfi: epubLocation.start }, chapter?.label)
+    }
+  }, [currentBookmark, book.fileType, tocItems, currentPage, epubLocation, onAddBookmark, onRemoveBookmark])
+
+  // Nearest TOC entry for the current position
+  const currentChapter = book.fileType === 'pdf'
+    ? findTocItemForPage(tocItems, currentPage)
+    : epubLocation ? findTocItemForHref(tocItems, epubLocation.href) : undefined
+
+  // Book, chapter and nearby paragraphs stored with a new session
+  const createSession = useCallback(async (text: string, anchor?: TextAnchor) => {
+    const surrounding = anchor && (anchor.type === 'pdf'
+      ? pdfViewerRef.current?.getSurroundingText(anchor, surroundingParagraphs)
+      : epubViewerRef.current?.getSurroundingText(anchor, surroundingParagraphs))
+
+    return window.api.createChatSession(book.id, text, anchor, {
+      bookTitle: book.title,
+      bookAuthor: book.author || undefined,
+      chapter: currentChapter?.label,
+      ...surrounding
+    })
+  }, [book, currentChapter, surroundingParagraphs])
+
+  const handlePromptAction = useCallback(async (action: PromptAction, text: string) => {
     if (!text || text.trim().length === 0) return
-    const session = await window.api.createChatSession(book.id, text)
-    setChatInput('선택된 텍스트를 한국어로 번역해주세요.')
+    const sourceSetting = languageOverrides.translationSource || languageSettings?.translationSource || 'auto'
+    const source = sourceSetting === 'auto' ? detectLanguage(text, book.language) : sourceSetting
+    const target = action.targetLanguage || languageOverrides.translationTarget || languageSettings?.translationTarget || 'ko'
+
+    const session = await createSession(text, selectedText?.anchor)
+    setChatInput(renderPromptTemplate(action.template, {
+      selection: text,
+      'book.title': book.title,
+      'book.author': book.author || '',
+      chapter: currentChapter?.label || '',
+      page: String(currentPage),
+      source: source ? LANGUAGE_NAMES[source] ?? source : '원문 언어',
+      language: LANGUAGE_NAMES[target] ?? target
+    }))
+    setAutoSendChatInput(action.autoSend)
     setSelectedText(null)
     setSelectedSession(session)
+  }, [book, selectedText, currentChapter, currentPage, languageOverrides, languageSettings, createSession])
+
+  const handleLanguageOverridesChange = useCallback((overrides: Partial<LanguageSettings>) => {
+    setLanguageOverrides(overrides)
+    window.api.updateBookLanguageOverrides(book.id, overrides)
+      .catch(err => console.error('Failed to save language overrides:', err))
   }, [book.id])
 
+  const handleCloseLanguage = useCallback(() => {
+    setIsLanguageOpen(false)
+  }, [])
+
   const handleAsk = useCallback(async (text: string) => {
-    const session = await window.api.createChatSession(book.id, text)
+    const session = await createSession(text, selectedText?.anchor)
     setSelectedText(null)
     setSelectedSession(session)
-  }, [book.id])
+  }, [selectedText, createSession])
+
+  const handleHighlight = useCallback(async (text: string, color: HighlightColor) => {
+    if (!selectedText?.anchor) return
+    try {
+      const highlight = await window.api.createHighlight(book.id, {
+        color,
+        anchor: selectedText.anchor,
+        text
+      })
+      setHighlights(prev => [...prev, highlight])
+    } catch (err) {
+      console.error('Failed to create highlight:', err)
+    }
+    window.getSelection()?.removeAllRanges()
+    setSelectedText(null)
+  }, [book.id, selectedText])
+
+  const handleHighlightClick = useCallback((highlight: Highlight, position: { x: number; y: number }) => {
+    setSelectedText(null)
+    setActiveHighlight({ highlight, position })
+  }, [])
+
+  const updateHighlightState = useCallback((id: string, changes: Partial<Highlight>) => {
+    const updatedAt = new Date().toISOString()
+    setHighlights(prev => prev.map(h => h.id === id ? { ...h, ...changes, updatedAt } : h))
+    setActiveHighlight(prev => prev && prev.highlight.id === id
+      ? { ...prev, highlight: { ...prev.highlight, ...changes, updatedAt } }
+      : prev)
+  }, [])
+
+  const handleHighlightColorChange = useCallback(async (highlight: Highlight, color: HighlightColor) => {
+    if (await window.api.updateHighlight(highlight.id, { color })) {
+      updateHighlightState(highlight.id, { color })
+    }
+  }, [updateHighlightState])
+
+  const handleHighlightNoteSave = useCallback(async (highlight: Highlight, note: string) => {
+    if (await window.api.updateHighlight(highlight.id, { note })) {
+      updateHighlightState(highlight.id, { note })
+    }
+  }, [updateHighlightState])
+
+  const handleHighlightDelete = useCallback(async (highlight: Highlight) => {
+    if (await window.api.deleteHighlight(highlight.id)) {
+      setHighlights(prev => prev.filter(h => h.id !== highlight.id))
+      setActiveHighlight(null)
+    }
+  }, [])
+
+  const handleCloseHighlight = useCallback(() => {
+    setActiveHighlight(null)
+  }, [])
 
   const handleCloseSelection = useCallback(() => {
     setSelectedText(null)
   }, [])
 
+  // Whole-book chat; the first one for a book starts indexing it in the background
+  const handleNewBookSession = useCallback(async () => {
+    try {
+      const session = await window.api.createBookChatSession(book.id)
+      setSelectedSession(session)
+
+      const status = await window.api.getBookIndexStatus(book.id)
+      if (status.state === 'none') {
+        window.api.indexBook(book.id).catch(err => console.error('Failed to index book:', err))
+      }
+    } catch (err) {
+      console.error('Failed to create book chat session:', err)
+    }
+  }, [book.id])
+
+  // A dragged PDF region becomes a session that sends the image instead of selected text
+  const handleRegionCapture = useCallback(async (capture: RegionCapture) => {
+    setIsCapturing(false)
+    try {
+      const session = await window.api.createRegionChatSession(book.id, capture, {
+        bookTitle: book.title,
+        bookAuthor: book.author || undefined,
+        chapter: findTocItemForPage(tocItems, capture.pageNumber)?.label
+      })
+      if (session) setSelectedSession(session)
+    } catch (err) {
+      console.error('Failed to create region chat session:', err)
+    }
+  }, [book, tocItems])
+
+  const handleCaptureCancel = useCallback(() => {
+    setIsCapturing(false)
+  }, [])
+
   const handleSessionSelect = useCallback((session: ChatSession) => {
     setSelectedSession(session)
   }, [])
 
   const handleClearInitialMessage = useCallback(() => {
     setChatInput('')
+    setAutoSendChatInput(false)
+  }, [])
+
+  // Jump back to the passage a chat session was started from
+  const handleGoToSource = useCallback((session: ChatSession) => {
+    if (session.image) {
+      pdfViewerRef.current?.goToRegion(session.image.pageNumber, session.image.region)
+      return
+    }
+    if (!session.anchor) return
+    if (session.anchor.type === 'pdf') {
+      pdfViewerRef.current?.goToAnchor(session.anchor)
+    } else {
+      epubViewerRef.current?.goToAnchor(session.anchor)
+    }
+  }, [])
+
+  // Jump to a passage cited in a whole-book answer
+  const handleGoToCitation = useCallback((citation: Citation) => {
+    if (citation.location.type === 'pdf') {
+      pdfViewerRef.current?.goToPage(citation.location.pageNumber)
+    } else {
+      epubViewerRef.current?.goToLocation(citation.location.cfi)
+    }
+  }, [])
+
+  // Jump to where a quote in an answer was found and flash it
+  const handleGoToQuote = useCallback((quote: QuoteCheck) => {
+    if (!quote.location) return
+    if (quote.location.type === 'pdf') {
+      pdfViewerRef.current?.goToQuote(quote.location.pageNumber, quote.text)
+    } else {
+      epubViewerRef.current?.goToQuote(quote.location.cfi, quote.text)
+    }
   }, [])
 
   return (
@@ -134,8 +401,52 @@ export const ReaderView = forwardRef<ReaderViewRef, ReaderViewProps>(function Re
                   </button>
                 </div>
               </div>
-              <div className="reader-page-info">
-                {currentPage} / {totalPages || '?'}
+              <div className="reader-header-actions">
+                <div className="reader-page-info">
+                  {currentPage} / {totalPages || '?'}
+                </div>
+                <div className="language-toggle-wrapper">
+                  <button
+                    className={`bookmark-toggle ${Object.keys(languageOverrides).length > 0 ? 'active' : ''}`}
+                    onClick={() => setIsLanguageOpen(open => !open)}
+                    // Keep the popover's outside-click handler from closing it just before the toggle reopens it
+                    onMouseDown={(e) => e.stopPropagation()}
+                    title="이 책의 언어 설정"
+                    aria-label="Book language settings"
+                  >
+                    <LanguageIcon className="bookmark-toggle-icon" />
+                  </button>
+                  {isLanguageOpen && (
+                    <BookLanguagePopover
+                      overrides={languageOverrides}
+                      defaults={languageSettings}
+                      onChange={handleLanguageOverridesChange}
+                      onClose={handleCloseLanguage}
+                    />
+                  )}
+                </div>
+                {book.fileType === 'pdf' && (
+                  <button
+                    className={`bookmark-toggle ${isCapturing ? 'active' : ''}`}
+                    onClick={() => setIsCapturing(capturing => !capturing)}
+                    title={isCapturing ? '영역 캡처 취소 (Esc)' : '영역 캡처 — 그림, 표, 수식을 드래그해 AI에게 질문'}
+                    aria-label="Capture region"
+                  >
+                    <ViewfinderCircleIcon className="bookmark-toggle-icon" />
+                  </button>
+                )}
+                <button
+                  className={`bookmark-toggle ${currentBookmark ? 'active' : ''}`}
+                  onClick={handleToggleBookmark}
+                  title={currentBookmark ? '북마크 삭제' : '북마크 추가'}
+                  aria-label="Toggle bookmark"
+                >
+                  {currentBookmark ? (
+                    <BookmarkSolidIcon className="bookmark-toggle-icon" />
+                  ) : (
+                    <BookmarkIcon className="bookmark-toggle-icon" />
+                  )}
+                </button>
               </div>
             </header>
 
@@ -149,15 +460,24 @@ export const ReaderView = forwardRef<ReaderViewRef, ReaderViewProps>(function Re
                   onTextSelect={handleTextSelect}
                   onTocLoad={handleTocLoad}
                   settings={settings}
+                  highlights={highlights}
+                  onHighlightClick={handleHighlightClick}
+                  captureMode={isCapturing}
+                  onRegionCapture={handleRegionCapture}
+                  onCaptureCancel={handleCaptureCancel}
                 />
               ) : book.fileType === 'epub' ? (
                 <EPUBViewer
                   ref={epubViewerRef}
+                  bookId={book.id}
                   filePath={book.filePath}
-                  onLocationChange={(_, page, total) => handlePageChange(page, total)}
+                  initialLocation={book.lastLocation}
+                  onLocationChange={handleLocationChange}
                   onTextSelect={handleTextSelect}
                   onTocLoad={handleTocLoad}
                   settings={settings}
+                  highlights={highlights}
+                  onHighlightClick={handleHighlightClick}
                 />
               ) : (
                 <div className="reader-placeholder">
@@ -170,18 +490,30 @@ export const ReaderView = forwardRef<ReaderViewRef, ReaderViewProps>(function Re
                 <SelectionBubble
                   text={selectedText.text}
                   position={selectedText.position}
-                  onSummarize={handleSummarize}
-                  onTranslate={handleTranslate}
+                  actions={promptActions}
+                  onAction={handlePromptAction}
                   onAsk={handleAsk}
+                  onHighlight={selectedText.anchor ? handleHighlight : undefined}
                   onClose={handleCloseSelection}
                 />
               )}
+
+              {activeHighlight && (
+                <HighlightPopover
+                  highlight={activeHighlight.highlight}
+                  position={activeHighlight.position}
+                  onChangeColor={handleHighlightColorChange}
+                  onSaveNote={handleHighlightNoteSave}
+                  onDelete={handleHighlightDelete}
+                  onClose={handleCloseHighlight}
+                />
+              )}
             </div>
 
             <footer className="reader-footer">
               <span className="footer-file">{book.filePath.split('/').pop()}</span>
               <span className="footer-progress">
-                {totalPages ? `${Math.round((currentPage / totalPages) * 100)}%` : '-'}
+                {totalPages ? `${Math.round(progress * 100)}%` : '-'}
               </span>
             </footer>
           </div>
@@ -191,7 +523,12 @@ export const ReaderView = forwardRef<ReaderViewRef, ReaderViewProps>(function Re
             bookId={book.id}
             selectedSession={selectedSession}
             onSessionSelect={handleSessionSelect}
+            onGoToSource={handleGoToSource}
+            onNewBookSession={handleNewBookSession}
+            onGoToCitation={handleGoToCitation}
+            onGoToQuote={handleGoToQuote}
             initialMessage={chatInput}
+            autoSendInitialMessage={autoSendChatInput}
             onClearInitialMessage={handleClearInitialMessage}
           />
         }
@@ -271,10 +608,42 @@ export const ReaderView = forwardRef<ReaderViewRef, ReaderViewProps>(function Re
           height: 14px;
         }
         
+        .reader-header-actions {
+          display: flex;
+          align-items: center;
+          gap: var(--spacing-sm);
+        }
+
         .reader-page-info {
           font-size: 13px;
           color: var(--color-text-secondary);
         }
+
+        .language-toggle-wrapper {
+          position: relative;
+          display: flex;
+        }
+
+        .bookmark-toggle {
+          display: flex;
+          padding: 4px;
+          border-radius: 6px;
+          color: var(--color-text-muted);
+        }
+
+        .bookmark-toggle:hover {
+          background-color: var(--color-bg-tertiary);
+          color: var(--color-text-primary);
+        }
+
+        .bookmark-toggle.active {
+          color: var(--color-accent);
+        }
+
+        .bookmark-toggle-icon {
+          width: 18px;
+          height: 18px;
+        }
         
         .reader-content {
           flex: 1;
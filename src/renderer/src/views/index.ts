@@ -1,4 +1,5 @@
 export { LibraryView } from './LibraryView'
 export { ReaderView } from './ReaderView'
+export { DatabaseErrorView } from './DatabaseErrorView'
 export type { ReaderViewRef } from './ReaderView'
 
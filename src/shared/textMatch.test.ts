@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { findFolded, findQuote, foldText, isCheckableQuote } from './textMatch'
+
+const PAGE = 'The com-\nmittee met in secret. Its members agreed that the report would never be published, '
+  + 'and the minutes of the meeting were burned the same night.'
+
+describe('findQuote', () => {
+  it('finds a quote despite line-break hyphens, spacing and curly quotes', () => {
+    const match = findQuote(PAGE, '“The committee met in  secret.”')
+    expect(match).not.toBeNull()
+    expect(PAGE.slice(match!.start, match!.end)).toBe('The com-\nmittee met in secret.')
+  })
+
+  it('finds the parts of a quote shortened with an ellipsis in order', () => {
+    const match = findQuote(PAGE, 'Its members agreed that the report … were burned the same night')
+    expect(match).not.toBeNull()
+    expect(PAGE.slice(match!.start, match!.end)).toMatch(/^Its members.*same night$/s)
+  })
+
+  it('does not find a quote that is not in the text', () => {
+    expect(findQuote(PAGE, 'The committee published the report the next morning')).toBeNull()
+  })
+
+  it('does not find ellipsis parts that appear out of order', () => {
+    expect(findQuote(PAGE, 'the minutes of the meeting ... Its members agreed that')).toBeNull()
+  })
+})
+
+describe('minimum quote length', () => {
+  it('marks quotes shorter than the minimum as uncheckable', () => {
+    expect(isCheckableQuote('the report')).toBe(false)
+    expect(isCheckableQuote('“ ”')).toBe(false)
+    expect(isCheckableQuote('the report would never be published')).toBe(true)
+  })
+
+  it('does not match a short phrase even where it occurs', () => {
+    const { folded } = foldText(PAGE)
+    expect(findFolded(folded, 'the report')).toBeNull()
+    expect(findFolded(folded, '위원회는')).toBeNull()
+  })
+
+  it('rejects a shortened quote when any of its parts is too short', () => {
+    expect(isCheckableQuote('Its members agreed that the report … night')).toBe(false)
+    expect(findQuote(PAGE, 'Its members agreed that the report … night')).toBeNull()
+  })
+
+  it('counts CJK characters double, so Korean quotes need half as many syllables', () => {
+    const text = '그날 밤 위원회는 회의록을 모두 태워 버렸다.'
+    expect(isCheckableQuote('모두 태워')).toBe(false)
+    expect(isCheckableQuote('회의록을 모두')).toBe(true)
+    expect(findQuote(text, '회의록을 모두 태워')).not.toBeNull()
+    expect(findQuote(text, '위원회는 … 태워')).toBeNull()
+  })
+
+  it('counts mixed-script parts by their characters', () => {
+    expect(isCheckableQuote('AI 요약')).toBe(false)
+    expect(isCheckableQuote('GPT 모델의 답변')).toBe(true)
+  })
+})
@@ -0,0 +1,86 @@
+// Matching quotes from AI answers against book text. The two rarely agree character for character
+// (PDF extraction, line-break hyphens, curly quotes, full-width forms), so both sides are folded
+// first: compatibility-normalized, lowercased, with whitespace, hyphens and quotation marks dropped.
+
+// Quoted spans the model is asked to mark in its answers
+export const QUOTE_PATTERN = /<quote>([\s\S]*?)<\/quote>/g
+
+// Whitespace, soft hyphens, hyphens and dashes, and straight, curly and CJK quotation marks
+const IGNORED_CHAR = /[\s\u00AD\-\u2010-\u2015"'\u2018\u2019\u201A\u201C\u201D\u201E\u00AB\u00BB\u300C-\u300F]/u
+
+// Models shorten long quotes with an ellipsis; the parts then have to appear in order
+const ELLIPSIS = /\.{3}|…/
+
+// Length each part needs, in Latin letters; shorter phrases turn up all over a book and prove
+// nothing. A CJK character carries about as much as two letters, so it counts double.
+export const MIN_QUOTE_PART_LENGTH = 12
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u
+
+const getQuotePartLength = (part: string): number => {
+  let length = 0
+  for (const char of part) {
+    length += CJK_CHAR.test(char) ? 2 : 1
+  }
+  return length
+}
+
+export interface FoldedText {
+  folded: string
+  starts: number[]  // 각 글자의 원문 시작 오프셋
+  ends: number[]    // 각 글자의 원문 끝 오프셋
+}
+
+export const extractQuotes = (text: string): string[] => {
+  return Array.from(text.matchAll(QUOTE_PATTERN), match => match[1].trim())
+}
+
+export const foldText = (text: string): FoldedText => {
+  const result: FoldedText = { folded: '', starts: [], ends: [] }
+
+  let offset = 0
+  for (const char of text) {
+    for (const folded of char.normalize('NFKC').toLowerCase()) {
+      if (IGNORED_CHAR.test(folded)) continue
+      result.folded += folded
+      result.starts.push(offset)
+      result.ends.push(offset + char.length)
+    }
+    offset += char.length
+  }
+
+  return result
+}
+
+const getQuoteParts = (quote: string): string[] => {
+  return quote.split(ELLIPSIS).map(part => foldText(part).folded).filter(Boolean)
+}
+
+// Whether a quote is long enough to be checked against the book
+export const isCheckableQuote = (quote: string): boolean => {
+  const parts = getQuoteParts(quote)
+  return parts.length > 0 && parts.every(part => getQuotePartLength(part) >= MIN_QUOTE_PART_LENGTH)
+}
+
+// Folded offsets of a quote within folded text, or null when some part of it is missing or
+// too short to check
+export const findFolded = (folded: string, quote: string): { start: number; end: number } | null => {
+  if (!isCheckableQuote(quote)) return null
+  const parts = getQuoteParts(quote)
+
+  let start = -1
+  let end = 0
+  for (const part of parts) {
+    const index = folded.indexOf(part, end)
+    if (index === -1) return null
+    if (start === -1) start = index
+    end = index + part.length
+  }
+  return { start, end }
+}
+
+// Offsets of a quote within the original text, covering every part of a shortened quote
+export const findQuote = (text: string, quote: string): { start: number; end: number } | null => {
+  const folded = foldText(text)
+  const match = findFolded(folded.folded, quote)
+  return match && { start: folded.starts[match.start], end: folded.ends[match.end - 1] }
+}
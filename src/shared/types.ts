@@ -8,34 +8,454 @@ export interface Book {
   fileType: 'pdf' | 'epub'
   lastPage: number
   totalPages?: number
+  lastLocation?: string  // EPUB start CFI of the last displayed page
+  progress?: number      // 0-1 across the whole book
+  creators?: BookCreator[]
+  language?: string
+  publisher?: string
+  identifier?: string
+  isbn?: string
+  series?: string
+  seriesIndex?: number
+  fileHash?: string      // SHA-256 of the book file
+  languageOverrides?: Partial<LanguageSettings>  // 책별로 전역 언어 설정을 덮어씀
   createdAt: string
   updatedAt: string
 }
 
+export interface BookCreator {
+  name: string
+  role?: string  // MARC relator code, e.g. 'aut', 'edt', 'trl'
+}
+
+// Reading position reported by the reader
+export interface BookProgress {
+  page: number
+  location?: string
+  percentage?: number
+}
+
+// Location of a text selection inside a book
+export type TextAnchor =
+  | { type: 'pdf'; pageNumber: number; startOffset: number; endOffset: number }  // 텍스트 레이어 기준 문자 오프셋
+  | { type: 'epub'; cfiRange: string }
+
+// Highlight types
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple'
+
+export interface Highlight {
+  id: string
+  bookId: string
+  color: HighlightColor
+  anchor: TextAnchor
+  text: string
+  note?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Bookmark types
+export type BookLocation =
+  | { type: 'pdf'; pageNumber: number }
+  | { type: 'epub'; cfi: string }
+
+export interface Bookmark {
+  id: string
+  bookId: string
+  location: BookLocation
+  label?: string
+  chapter?: string  // 가장 가까운 목차 항목
+  createdAt: string
+  updatedAt: string
+}
+
+// Prompt action types (selection bubble)
+export interface PromptAction {
+  id: string
+  name: string
+  icon: string  // 이모지
+  template: string  // {selection}, {book.title}, {book.author}, {chapter}, {page}, {source}, {language}
+  targetLanguage?: string  // 언어 코드, 비어 있으면 설정의 번역 대상 언어
+  autoSend: boolean
+  shortcut?: string  // 예: 'Alt+S'
+  sortOrder: number
+  createdAt: string
+  updatedAt: string
+}
+
+export type PromptActionInput = Pick<PromptAction, 'name' | 'icon' | 'template' | 'autoSend'> & {
+  targetLanguage?: string
+  shortcut?: string
+}
+
 // Chat types
+// passage: about a selected passage (baseContext); book: questions answered from the book's search index
+// region: about a captured part of a PDF page, sent to the model as an image
+export type ChatSessionType = 'passage' | 'book' | 'region'
+
 export interface ChatSession {
   id: string
   bookId: string
-  baseContext: string
+  type: ChatSessionType
+  baseContext: string  // book, region 세션은 빈 문자열
+  anchor?: TextAnchor  // 세션이 시작된 원문 위치
+  image?: SessionImage  // region 세션에서 캡처한 PDF 영역
+  config?: ChatSessionConfig  // 없으면 현재 설정을 사용 (이전 버전에서 만든 세션)
+  context?: SessionContext
+  summary?: SessionSummary  // 긴 대화에서 요약으로 대신 보내는 앞부분
   createdAt: string
   updatedAt: string
 }
 
+// Part of a PDF page, as fractions of the page's width and height
+export interface PageRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Captured figure, table or equation a region session asks about
+export interface SessionImage {
+  path: string  // 책 폴더에 저장한 PNG
+  pageNumber: number
+  region: PageRegion
+}
+
+// What the PDF viewer hands over when a region is captured
+export interface RegionCapture {
+  pageNumber: number
+  region: PageRegion
+  png: Uint8Array
+}
+
+// Rolling summary of the turns that no longer fit the context budget
+export interface SessionSummary {
+  text: string
+  messageCount: number  // 요약에 포함된 앞쪽 메시지 수
+  updatedAt: string
+}
+
+// Text around a selection, excluding the selection itself
+export interface SurroundingText {
+  before: string
+  after: string
+}
+
+// Where a session's selection comes from, captured when the session is created
+export interface SessionContext extends Partial<SurroundingText> {
+  bookTitle: string
+  bookAuthor?: string
+  chapter?: string
+}
+
 export interface ChatMessage {
   id: string
   sessionId: string
   role: 'user' | 'assistant'
   message: string
+  citations?: Citation[]  // book 세션 답변이 참고한 구절, 본문의 [n]과 대응
+  quotes?: QuoteCheck[]   // 답변 속 <quote> 인용문을 원문과 대조한 결과, 순서대로
+  usage?: MessageUsage    // assistant 답변을 만드는 데 쓴 토큰과 시간
+  pending?: boolean       // 오프라인이라 아직 보내지 못한 질문
   createdAt: string
 }
 
+// Tokens billed for one or more model requests
+export interface TokenUsage {
+  promptTokens: number
+  responseTokens: number
+}
+
+// What answering a message cost: model, tokens (including history compaction) and latency
+export interface MessageUsage extends TokenUsage {
+  provider: LlmProviderId
+  model: string
+  latencyMs: number
+  estimated?: boolean  // 제공자가 토큰 수를 알려주지 않아 글자 수로 어림한 값
+}
+
+// Book passage given to the model as source [index]
+export interface Citation {
+  index: number
+  location: BookLocation
+  chapter?: string
+  text: string
+}
+
+// A passage an answer quoted, checked against the session's text and the book.
+// Unverified quotes may have been made up by the model.
+export interface QuoteCheck {
+  text: string
+  verified: boolean
+  unverifiable?: boolean   // 너무 짧아 원문과 대조하지 않음 (verified는 false)
+  location?: BookLocation  // 인용문을 찾은 위치
+  chapter?: string
+}
+
+// Book search index
+export type EmbeddingProviderId = LlmProviderId | 'local'
+
+export interface EmbeddingSettings {
+  provider: EmbeddingProviderId
+  model: string
+}
+
+export const EMBEDDING_PROVIDER_NAMES: Record<EmbeddingProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI 호환',
+  ollama: 'Ollama',
+  local: '로컬 단어 해시 (오프라인, 테스트용)'
+}
+
+export const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderId, string> = {
+  gemini: 'text-embedding-004',
+  openai: 'text-embedding-3-small',
+  ollama: 'nomic-embed-text',
+  local: 'hashed-words'
+}
+
+export interface BookIndexStatus {
+  bookId: string
+  state: 'none' | 'indexing' | 'ready' | 'failed'
+  chunkCount?: number
+  embeddingProvider?: EmbeddingProviderId
+  embeddingModel?: string
+  indexedAt?: string
+  processed?: number  // indexing 중 진행 상황 (임베딩한 조각 수)
+  total?: number
+  error?: string
+}
+
+// LLM provider types
+export type LlmProviderId = 'gemini' | 'openai' | 'ollama'
+
+// Provider settings as the renderer sees them; the API key itself never leaves the main process
+export interface ProviderSettings {
+  baseUrl: string
+  model: string
+  hasApiKey?: boolean
+}
+
+export interface ProviderConfig extends ProviderSettings {
+  apiKey?: string
+}
+
+// How API keys are protected at rest (see main/services/secrets.ts)
+export type SecretStorageStatus = 'encrypted' | 'obfuscated' | 'plaintext'
+
+export const LLM_PROVIDER_NAMES: Record<LlmProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI 호환 (LM Studio, vLLM, llama.cpp)',
+  ollama: 'Ollama'
+}
+
+export const DEFAULT_PROVIDER_CONFIGS: Record<LlmProviderId, ProviderSettings> = {
+  gemini: { baseUrl: 'https://generativelanguage.googleapis.com/v1beta', model: 'gemini-2.5-flash' },
+  openai: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' },
+  ollama: { baseUrl: 'http://localhost:11434', model: 'llama3.1' }
+}
+
+// Model reported by a provider's models endpoint
+export interface ModelInfo {
+  id: string
+  displayName?: string
+  contextWindow?: number  // 입력 토큰 한도
+  outputTokenLimit?: number
+}
+
+export interface ModelList {
+  models: ModelInfo[]
+  fetchedAt: string
+}
+
+export interface ConnectionTestResult {
+  success: boolean
+  models?: ModelInfo[]
+  error?: string
+}
+
+// Generation types
+export type SafetyCategory =
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT'
+
+export type SafetyThreshold =
+  | 'BLOCK_NONE'
+  | 'BLOCK_ONLY_HIGH'
+  | 'BLOCK_MEDIUM_AND_ABOVE'
+  | 'BLOCK_LOW_AND_ABOVE'
+
+export const SAFETY_CATEGORY_NAMES: Record<SafetyCategory, string> = {
+  HARM_CATEGORY_HARASSMENT: '괴롭힘',
+  HARM_CATEGORY_HATE_SPEECH: '증오 표현',
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: '성적인 콘텐츠',
+  HARM_CATEGORY_DANGEROUS_CONTENT: '위험한 콘텐츠'
+}
+
+export const SAFETY_THRESHOLD_NAMES: Record<SafetyThreshold, string> = {
+  BLOCK_NONE: '차단 안 함',
+  BLOCK_ONLY_HIGH: '높음만 차단',
+  BLOCK_MEDIUM_AND_ABOVE: '중간 이상 차단',
+  BLOCK_LOW_AND_ABOVE: '낮음 이상 차단'
+}
+
+export interface GenerationConfig {
+  temperature: number
+  topP: number
+  topK: number
+  maxOutputTokens: number
+  safety: Record<SafetyCategory, SafetyThreshold>  // Gemini에만 적용
+}
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  temperature: 0.7,
+  topP: 0.95,
+  topK: 40,
+  maxOutputTokens: 2048,
+  safety: {
+    HARM_CATEGORY_HARASSMENT: 'BLOCK_MEDIUM_AND_ABOVE',
+    HARM_CATEGORY_HATE_SPEECH: 'BLOCK_MEDIUM_AND_ABOVE',
+    HARM_CATEGORY_SEXUALLY_EXPLICIT: 'BLOCK_MEDIUM_AND_ABOVE',
+    HARM_CATEGORY_DANGEROUS_CONTENT: 'BLOCK_MEDIUM_AND_ABOVE'
+  }
+}
+
+// Provider, model and parameters a chat session replays with
+export interface ChatSessionConfig {
+  provider: LlmProviderId
+  model: string
+  generation: GenerationConfig
+}
+
+// Language types; values are ISO 639-1 codes, translationSource may also be 'auto'
+export const LANGUAGE_NAMES: Record<string, string> = {
+  ko: '한국어',
+  en: 'English',
+  ja: '日本語',
+  zh: '中文',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+  ru: 'Русский'
+}
+
+export interface LanguageSettings {
+  answerLanguage: string
+  translationSource: string
+  translationTarget: string
+}
+
 // Settings types
-export interface Settings {
-  geminiApiKey?: string
+export interface Settings extends LanguageSettings {
   theme: 'light' | 'dark'
+  provider: LlmProviderId
+  providers: Record<LlmProviderId, ProviderSettings>
+  generation: GenerationConfig
+  surroundingParagraphs: number  // 새 대화에 함께 보낼 선택 영역 앞뒤 문단 수
+  contextBudget: ContextBudgetSettings
+  embedding: EmbeddingSettings
+  usage: UsageSettings
+}
+
+// How much of a conversation is sent with each request; older turns beyond the budget are summarized
+export interface ContextBudgetSettings {
+  defaultBudget: number  // 입력 토큰 한도 (추정치)
+  modelBudgets: { model: string; budget: number }[]  // 모델별 한도; 없으면 defaultBudget
+  keepExchanges: number  // 요약하지 않고 그대로 보낼 최근 문답 수
+}
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudgetSettings = {
+  defaultBudget: 32000,
+  modelBudgets: [],
+  keepExchanges: 4
+}
+
+// Prices used to estimate what the recorded usage cost
+export interface ModelPrice {
   model: string
+  inputPerMillion: number   // USD per 1M prompt tokens
+  outputPerMillion: number  // USD per 1M response tokens
+}
+
+export interface UsageSettings {
+  prices: ModelPrice[]
+  monthlyBudget?: number  // USD; 이번 달 예상 비용이 넘으면 경고
+}
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: []
+}
+
+// Database types
+export interface DatabaseStatus {
+  ok: boolean
+  schemaVersion: number
+  backupPath?: string  // 마이그레이션 직전 DB 백업 파일
+  error?: string
+}
+
+// Batch import types
+export type ImportFileStatus = 'importing' | 'imported' | 'failed' | 'duplicate'
+
+export interface ImportProgress {
+  importId: string
+  filePath: string
+  index: number        // 0-based position in the batch
+  total: number
+  status: ImportFileStatus
+  book?: Book         // imported book, or the existing book for duplicates
+  error?: string
 }
 
+// A file whose content matches a book already in the library
+export interface ImportDuplicate {
+  filePath: string
+  book: Book
+}
+
+export type DuplicateResolution = 'replace' | 'copy'
+
+export interface ImportSummary {
+  importId: string
+  imported: Book[]
+  failed: { filePath: string; error: string }[]
+  duplicates: ImportDuplicate[]
+  cancelled: boolean
+}
+
+// Streamed response text, pushed from the main process per request
+export interface ChatStreamChunk {
+  requestId: string
+  text: string
+}
+
+export interface ChatStreamResult {
+  success: boolean
+  response?: string
+  citations?: Citation[]
+  quotes?: QuoteCheck[]
+  summary?: SessionSummary  // set when this request compacted older turns
+  usage?: MessageUsage
+  aborted?: boolean   // stopped by the user; response holds the partial answer
+  error?: string
+  errorCategory?: LlmErrorCategory
+}
+
+// Why a model request failed, so the UI can say what to do about it
+export type LlmErrorCategory =
+  | 'invalid-key'       // 키가 틀렸거나 권한이 없음
+  | 'quota'             // 요금제·할당량 소진
+  | 'rate-limit'        // 재시도 후에도 요청 제한에 걸림
+  | 'safety'            // 안전 필터가 질문이나 답변을 차단함
+  | 'offline'           // 인터넷 연결 없음; 연결되면 다시 보낼 수 있음
+  | 'context-too-long'  // 입력이 모델 한도를 넘음
+  | 'timeout'
+  | 'server'            // 5xx, 재시도 후에도 실패
+  | 'other'
+
 // TOC (Table of Contents) types
 export interface TocItem {
   id: string
@@ -45,6 +465,61 @@ export interface TocItem {
   children?: TocItem[]
 }
 
+// Text covered by a TOC entry: from its start up to the next entry outside it (exclusive).
+// EPUB ranges are whole spine documents, so chapters sharing a file are summarized together.
+export type ChapterRange =
+  | { type: 'pdf'; startPage: number; endPage?: number }
+  | { type: 'epub'; startHref: string; endHref?: string }
+
+// Cached per book and TOC entry
+export interface ChapterSummary {
+  bookId: string
+  tocItemId: string
+  label: string
+  summary: string
+  provider: LlmProviderId
+  model: string
+  usage?: TokenUsage  // 부분 요약과 병합 요청을 모두 더한 값
+  createdAt: string
+}
+
+export interface ChapterSummaryProgress {
+  bookId: string
+  tocItemId: string
+  processed: number  // 끝난 요약 요청 수
+  total: number
+}
+
+export interface ChapterSummaryResult {
+  success: boolean
+  summary?: ChapterSummary
+  error?: string
+}
+
+export interface ChapterSummaryExportResult {
+  success: boolean
+  filePath?: string  // 대화상자를 취소하면 없음
+  error?: string
+}
+
+// Usage report: token totals per group, split by model so prices can be applied per model
+export type UsageGroup = 'book' | 'session' | 'day' | 'model'
+
+export interface UsageQuery {
+  group: UsageGroup
+  from?: string  // ISO 시각; 이 시각 이후 기록만 집계
+}
+
+export interface UsageRow {
+  key: string
+  label: string
+  provider: LlmProviderId
+  model: string
+  requests: number
+  promptTokens: number
+  responseTokens: number
+}
+
 // Reader settings (EPUB only)
 export interface ReaderSettings {
   pageView: 'single' | 'double'
@@ -66,23 +541,88 @@ export interface SearchResult {
 // IPC Channel names
 export const IPC_CHANNELS = {
   // File operations
-  IMPORT_FILE: 'import-file',
+  IMPORT_FILES: 'import-files',
+  CANCEL_IMPORT: 'cancel-import',
+  RESOLVE_DUPLICATE: 'resolve-duplicate',
+  IMPORT_PROGRESS: 'import-progress',
   OPEN_FILE_DIALOG: 'open-file-dialog',
+  OPEN_FOLDER_DIALOG: 'open-folder-dialog',
   
   // Book operations
   GET_BOOKS: 'get-books',
   GET_BOOK: 'get-book',
   DELETE_BOOK: 'delete-book',
   UPDATE_BOOK_PROGRESS: 'update-book-progress',
+  UPDATE_BOOK_LANGUAGE_OVERRIDES: 'update-book-language-overrides',
   
   // Chat session operations
   CREATE_CHAT_SESSION: 'create-chat-session',
+  CREATE_BOOK_CHAT_SESSION: 'create-book-chat-session',
   GET_CHAT_SESSIONS: 'get-chat-sessions',
   GET_CHAT_MESSAGES: 'get-chat-messages',
   ADD_CHAT_MESSAGE: 'add-chat-message',
+  GET_PENDING_CHAT_MESSAGES: 'get-pending-chat-messages',
+  SET_CHAT_MESSAGE_PENDING: 'set-chat-message-pending',
+  UPDATE_CHAT_SESSION_CONFIG: 'update-chat-session-config',
   
   // Settings
   GET_SETTINGS: 'get-settings',
-  SAVE_SETTINGS: 'save-settings'
+  SAVE_SETTINGS: 'save-settings',
+
+  // Highlight operations
+  GET_HIGHLIGHTS: 'get-highlights',
+  CREATE_HIGHLIGHT: 'create-highlight',
+  UPDATE_HIGHLIGHT: 'update-highlight',
+  DELETE_HIGHLIGHT: 'delete-highlight',
+
+  // Bookmark operations
+  GET_BOOKMARKS: 'get-bookmarks',
+  CREATE_BOOKMARK: 'create-bookmark',
+  UPDATE_BOOKMARK: 'update-bookmark',
+  DELETE_BOOKMARK: 'delete-bookmark',
+
+  // LLM providers
+  TEST_PROVIDER_CONNECTION: 'test-provider-connection',
+  GET_CACHED_MODELS: 'get-cached-models',
+  SET_API_KEY: 'set-api-key',
+  GET_SECRET_STORAGE_STATUS: 'get-secret-storage-status',
+
+  // Book search index
+  GET_BOOK_INDEX_STATUS: 'get-book-index-status',
+  INDEX_BOOK: 'index-book',
+  CANCEL_BOOK_INDEX: 'cancel-book-index',
+  BOOK_INDEX_PROGRESS: 'book-index-progress',
+
+  // Chapter summaries
+  GET_CHAPTER_SUMMARIES: 'get-chapter-summaries',
+  SUMMARIZE_CHAPTER: 'summarize-chapter',
+  CHAPTER_SUMMARY_PROGRESS: 'chapter-summary-progress',
+  DELETE_CHAPTER_SUMMARY: 'delete-chapter-summary',
+  EXPORT_CHAPTER_SUMMARIES: 'export-chapter-summaries',
+
+  // Prompt actions
+  GET_PROMPT_ACTIONS: 'get-prompt-actions',
+  CREATE_PROMPT_ACTION: 'create-prompt-action',
+  UPDATE_PROMPT_ACTION: 'update-prompt-action',
+  DELETE_PROMPT_ACTION: 'delete-prompt-action',
+  REORDER_PROMPT_ACTIONS: 'reorder-prompt-actions',
+
+  // EPUB location cache
+  GET_EPUB_LOCATIONS: 'get-epub-locations',
+  SAVE_EPUB_LOCATIONS: 'save-epub-locations',
+
+  // LLM chat
+  STREAM_LLM: 'stream-llm',
+  CANCEL_LLM_STREAM: 'cancel-llm-stream',
+  LLM_STREAM_CHUNK: 'llm-stream-chunk',
+
+  // Usage
+  GET_USAGE_REPORT: 'get-usage-report',
+
+  // Region capture
+  CREATE_REGION_CHAT_SESSION: 'create-region-chat-session',
+
+  // Database
+  GET_DATABASE_STATUS: 'get-database-status'
 } as const
 
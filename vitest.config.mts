@@ -0,0 +1,14 @@
+import { resolve } from 'path'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@shared': resolve('src/shared')
+    }
+  },
+  test: {
+    environment: 'node',
+    restoreMocks: true
+  }
+})